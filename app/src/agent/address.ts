@@ -0,0 +1,135 @@
+import { extractPincode } from "@/agent/slots";
+import type { OrderRecord } from "@/agent/types";
+import { PINCODE_DIRECTORY, PincodeEntry } from "@/fixtures/pincodes";
+
+export const ADDRESS_FIELDS = ["flat", "landmark", "pincode"] as const;
+
+export type AddressField = (typeof ADDRESS_FIELDS)[number];
+
+export const ADDRESS_FIELD_LABELS: Record<AddressField, string> = {
+  flat: "Flat / house number",
+  landmark: "Landmark",
+  pincode: "Pincode",
+};
+
+export type AddressCorrection = { field: AddressField; value: string };
+
+/** One change to an order's address, kept so the old value is never lost. */
+export type AddressRevision = {
+  previous: string;
+  address: string;
+  fields: AddressField[];
+  changedAt: string;
+  source: "call";
+};
+
+export const lookupPincode = (pincode: string): PincodeEntry | null =>
+  PINCODE_DIRECTORY[pincode] ?? null;
+
+const LANDMARK_PREFIX = /^(near|opp(osite)?|behind|beside|next to|landmark)\b/i;
+const FLAT_SEGMENT =
+  /^(flat|house|h\.?\s?no|apt|apartment|door|#)?[\s.:-]*[\w/-]*\d/i;
+
+const formatValue = ({ field, value }: AddressCorrection) => {
+  const trimmed = value.trim().replace(/[.,]+$/, "");
+  if (field === "flat") {
+    return `Flat ${trimmed.replace(/^(flat|house)\s*(number|no\.?)?\s*/i, "")}`;
+  }
+  if (field === "landmark") {
+    return LANDMARK_PREFIX.test(trimmed)
+      ? `${trimmed[0].toUpperCase()}${trimmed.slice(1)}`
+      : `Near ${trimmed}`;
+  }
+  return trimmed.replace(/\s+/g, "");
+};
+
+/**
+ * Rewrites one part of a free-text address. The flat number is the first
+ * segment, the landmark sits right after it and the pincode goes last; a
+ * part that is missing is added in that position.
+ */
+export const correctAddress = (
+  address: string,
+  correction: AddressCorrection
+) => {
+  const value = formatValue(correction);
+  const segments = address
+    .split(",")
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+  if (correction.field === "pincode") {
+    const current = extractPincode(address);
+    return current
+      ? address.replace(current, value)
+      : [...segments, value].join(", ");
+  }
+
+  if (correction.field === "flat") {
+    return FLAT_SEGMENT.test(segments[0] ?? "") && segments.length > 1
+      ? [value, ...segments.slice(1)].join(", ")
+      : [value, ...segments].join(", ");
+  }
+
+  const landmarkAt = segments.findIndex((segment) =>
+    LANDMARK_PREFIX.test(segment)
+  );
+  if (landmarkAt >= 0) segments[landmarkAt] = value;
+  else segments.splice(Math.min(1, segments.length), 0, value);
+  return segments.join(", ");
+};
+
+export const applyAddressCorrection = (
+  order: OrderRecord,
+  address: string,
+  fields: AddressField[],
+  now = new Date()
+): OrderRecord =>
+  address === order.address
+    ? order
+    : {
+        ...order,
+        address,
+        addressHistory: [
+          ...(order.addressHistory ?? []),
+          {
+            previous: order.address,
+            address,
+            fields,
+            changedAt: now.toISOString(),
+            source: "call",
+          },
+        ],
+      };
+
+const SPOKEN_DIGITS = /\b\d(?:[\s-]*\d){5}\b/;
+
+/**
+ * Reads "the pincode is 5 6 0 0 3 8", "flat number is 4B" or "landmark is
+ * the blue temple". Returns `null` when no part of the address is named.
+ */
+export const parseAddressCorrection = (
+  utterance: string
+): AddressCorrection | null => {
+  const digits = utterance.match(SPOKEN_DIGITS)?.[0];
+  if (/\bpin\s?code\b/i.test(utterance) || digits) {
+    return digits
+      ? { field: "pincode", value: digits.replace(/\D/g, "") }
+      : null;
+  }
+
+  const flat = utterance.match(
+    /\b(?:flat|house|apartment|door)(?:\s+(?:number|no\.?))?\s+(?:is\s+)?([a-z]?-?\d+[a-z]?(?:[/-]\w+)?)\b/i
+  );
+  if (flat) return { field: "flat", value: flat[1].toUpperCase() };
+
+  const landmark = utterance.match(
+    /\b(?:landmark\s+(?:is\s+)?|(?=near\b|opposite\b|behind\b|next to\b))(.+)$/i
+  );
+  if (landmark) {
+    const value = landmark[1].replace(/^the\s+/i, "").trim();
+    return value ? { field: "landmark", value } : null;
+  }
+
+  return null;
+};
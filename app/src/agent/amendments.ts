@@ -0,0 +1,143 @@
+import type { OrderItem, OrderRecord } from "@/agent/types";
+
+export type ItemChange = { name: string; from: number; to: number };
+
+export type OrderAmendment = {
+  changes: ItemChange[];
+  items: OrderItem[];
+  previousTotal: number;
+  total: number;
+  amendedAt: string;
+};
+
+/** Requested quantity per item name; `0` drops the line. */
+export type ItemQuantities = Record<string, number>;
+
+type PricedOrder = Omit<OrderRecord, "items"> & {
+  items: Required<OrderItem>[];
+};
+
+/** Items can only be changed on a call when every line has its own price. */
+export const hasItemPrices = (order: OrderRecord): order is PricedOrder =>
+  order.items.every((item) => item.unitPrice !== undefined);
+
+/**
+ * Builds the amendment for lowering quantities or dropping lines. Returns
+ * `null` when an item has no price, when nothing would change, or when every
+ * line would be removed, since an empty order is a cancellation rather than
+ * an edit.
+ */
+export const amendOrder = (
+  order: OrderRecord,
+  quantities: ItemQuantities,
+  now = new Date()
+): OrderAmendment | null => {
+  if (!hasItemPrices(order)) return null;
+  const priced = order.items;
+  const changes: ItemChange[] = [];
+
+  const items = priced.flatMap((item) => {
+    const requested = quantities[item.name];
+    const to =
+      requested === undefined
+        ? item.quantity
+        : Math.max(0, Math.min(item.quantity, Math.floor(requested)));
+    if (to !== item.quantity) {
+      changes.push({ name: item.name, from: item.quantity, to });
+    }
+    return to > 0 ? [{ ...item, quantity: to }] : [];
+  });
+
+  if (changes.length === 0 || items.length === 0) return null;
+
+  const removed = changes.reduce((sum, change) => {
+    const item = priced.find(({ name }) => name === change.name)!;
+    return sum + item.unitPrice * (change.from - change.to);
+  }, 0);
+
+  return {
+    changes,
+    items,
+    previousTotal: order.total,
+    total: Math.round(order.total - removed),
+    amendedAt: now.toISOString(),
+  };
+};
+
+export const applyAmendment = (
+  order: OrderRecord,
+  amendment: OrderAmendment
+): OrderRecord => ({
+  ...order,
+  items: amendment.items,
+  total: amendment.total,
+  amendments: [...(order.amendments ?? []), amendment],
+});
+
+export const describeChange = ({ name, to }: ItemChange) =>
+  to === 0 ? `remove ${name}` : `${to} × ${name}`;
+
+const REMOVAL =
+  /\b(remove|drop|take out|cancel|don'?t want|do not want|hata|nahi chahiye)\b/i;
+
+const QUANTITY_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  ek: 1,
+  teen: 3,
+  char: 4,
+  paanch: 5,
+};
+
+/**
+ * Matches an item by its longer words, so "the speaker" finds "Bluetooth
+ * speaker". Names made only of short words, such as "Pen" or "USB hub", are
+ * matched on every word instead.
+ */
+const mentionsItem = (utterance: string, name: string) => {
+  const words = name.toLowerCase().split(/\s+/);
+  const longWords = words.filter((word) => word.length >= 4);
+  return (longWords.length ? longWords : words)
+    .map((word) =>
+      (word.length > 3 ? word.replace(/s$/, "") : word).replace(
+        /[.*+?^${}()|[\]\\]/g,
+        "\\$&"
+      )
+    )
+    .some((word) => new RegExp(`\\b${word}s?\\b`, "i").test(utterance));
+};
+
+const spokenQuantity = (utterance: string) => {
+  const digit = utterance.match(/\b(\d+)\b/);
+  if (digit) return Number(digit[1]);
+  const word = utterance
+    .toLowerCase()
+    .split(/\W+/)
+    .find((token) => token in QUANTITY_WORDS);
+  return word ? QUANTITY_WORDS[word] : null;
+};
+
+/**
+ * Reads "remove the mouse" or "only one t-shirt" against the order's items.
+ * Returns `null` unless exactly one item is named and the change is clear.
+ */
+export const parseItemChange = (
+  utterance: string,
+  order: OrderRecord
+): ItemQuantities | null => {
+  const named = order.items.filter((item) =>
+    mentionsItem(utterance, item.name)
+  );
+  if (named.length !== 1) return null;
+
+  const [item] = named;
+  if (REMOVAL.test(utterance)) return { [item.name]: 0 };
+
+  const quantity = spokenQuantity(utterance);
+  return quantity !== null && quantity < item.quantity
+    ? { [item.name]: quantity }
+    : null;
+};
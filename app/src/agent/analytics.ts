@@ -0,0 +1,183 @@
+import { formatINR } from "@/agent/format";
+import type {
+  CallOutcome,
+  CallRecord,
+  ConversationEntry,
+  OrderRecord,
+} from "@/agent/types";
+
+export const ANALYTICS_DIMENSIONS = [
+  "day",
+  "payment_method",
+  "value_band",
+] as const;
+
+export type AnalyticsDimension = (typeof ANALYTICS_DIMENSIONS)[number];
+
+export const ANALYTICS_DIMENSION_LABELS: Record<AnalyticsDimension, string> = {
+  day: "Day",
+  payment_method: "Payment method",
+  value_band: "Order value",
+};
+
+/** Upper bounds (exclusive) of each order value band, in rupees. */
+export const VALUE_BAND_LIMITS = [1_000, 5_000, 10_000, Infinity];
+
+export const VALUE_BAND_LABELS = VALUE_BAND_LIMITS.map((upper, index) => {
+  const lower = index === 0 ? 0 : VALUE_BAND_LIMITS[index - 1];
+  return upper === Infinity
+    ? `${formatINR(lower)} and above`
+    : `${formatINR(lower)}–${formatINR(upper - 1)}`;
+});
+
+export const valueBand = (total: number) =>
+  VALUE_BAND_LABELS[VALUE_BAND_LIMITS.findIndex((limit) => total < limit)];
+
+export type AnalyticsRow = {
+  key: string;
+  calls: number;
+  confirmationRate: number;
+  cancelRate: number;
+  rescheduleRate: number;
+  escalationRate: number;
+  /** Mean time from the first to the last transcript line, if any call had one. */
+  averageDurationMs: number | null;
+};
+
+export type DropOffRow = { nodeId: string; calls: number; share: number };
+
+export type AnalyticsReport = {
+  generatedAt: string;
+  totals: AnalyticsRow;
+  breakdowns: Record<AnalyticsDimension, AnalyticsRow[]>;
+  /** Where in the script customers hung up before the call was resolved. */
+  dropOff: DropOffRow[];
+};
+
+const TIME_ZONE = "Asia/Kolkata";
+
+const indianDate = (iso: string) =>
+  new Intl.DateTimeFormat("en-CA", { timeZone: TIME_ZONE }).format(
+    new Date(iso)
+  );
+
+export const callDurationMs = (conversation: ConversationEntry[]) => {
+  if (conversation.length < 2) return null;
+  const times = conversation.map((entry) => Date.parse(entry.timestamp));
+  return Math.max(...times) - Math.min(...times);
+};
+
+const rate = (calls: CallRecord[], outcome: CallOutcome) =>
+  calls.length
+    ? calls.filter((call) => call.outcome === outcome).length / calls.length
+    : 0;
+
+const summarise = (key: string, calls: CallRecord[]): AnalyticsRow => {
+  const durations = calls
+    .map((call) => callDurationMs(call.conversation))
+    .filter((duration): duration is number => duration !== null);
+
+  return {
+    key,
+    calls: calls.length,
+    confirmationRate: rate(calls, "confirmed"),
+    cancelRate: rate(calls, "cancelled"),
+    rescheduleRate: rate(calls, "rescheduled"),
+    escalationRate: rate(calls, "needs_support"),
+    averageDurationMs: durations.length
+      ? durations.reduce((sum, duration) => sum + duration, 0) /
+        durations.length
+      : null,
+  };
+};
+
+const groupBy = (calls: CallRecord[], keyOf: (call: CallRecord) => string) => {
+  const groups = new Map<string, CallRecord[]>();
+  calls.forEach((call) => {
+    const key = keyOf(call);
+    groups.set(key, [...(groups.get(key) ?? []), call]);
+  });
+  return [...groups.entries()].map(([key, group]) => summarise(key, group));
+};
+
+/**
+ * Aggregates persisted calls. Payment method and value come from the order
+ * as it is now, so a call for a deleted order is grouped under "Unknown".
+ */
+export const buildAnalyticsReport = (
+  calls: CallRecord[],
+  orders: OrderRecord[],
+  now = new Date()
+): AnalyticsReport => {
+  const ordersById = new Map(orders.map((order) => [order.id, order]));
+  // "Unknown" sorts after every real band.
+  const bandOrder = (key: string) =>
+    VALUE_BAND_LABELS.includes(key) ? VALUE_BAND_LABELS.indexOf(key) : Infinity;
+
+  const dropped = calls.filter((call) => call.outcome === "dropped");
+  const dropOff = groupBy(dropped, (call) => call.lastNodeId ?? "unknown")
+    .map(({ key, calls: count }) => ({
+      nodeId: key,
+      calls: count,
+      share: count / dropped.length,
+    }))
+    .sort((a, b) => b.calls - a.calls);
+
+  return {
+    generatedAt: now.toISOString(),
+    totals: summarise("All calls", calls),
+    breakdowns: {
+      day: groupBy(calls, (call) => indianDate(call.startedAt)).sort((a, b) =>
+        a.key.localeCompare(b.key)
+      ),
+      payment_method: groupBy(
+        calls,
+        (call) => ordersById.get(call.orderId)?.paymentMethod ?? "Unknown"
+      ).sort((a, b) => b.calls - a.calls),
+      value_band: groupBy(calls, (call) => {
+        const order = ordersById.get(call.orderId);
+        return order ? valueBand(order.total) : "Unknown";
+      }).sort((a, b) => bandOrder(a.key) - bandOrder(b.key)),
+    },
+    dropOff,
+  };
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const analyticsRowsToCsv = (dimension: string, rows: AnalyticsRow[]) =>
+  [
+    [
+      dimension,
+      "Calls",
+      "Confirmation rate",
+      "Cancel rate",
+      "Reschedule rate",
+      "Escalation rate",
+      "Average duration (s)",
+    ],
+    ...rows.map((row) => [
+      row.key,
+      row.calls,
+      row.confirmationRate.toFixed(4),
+      row.cancelRate.toFixed(4),
+      row.rescheduleRate.toFixed(4),
+      row.escalationRate.toFixed(4),
+      row.averageDurationMs === null
+        ? ""
+        : (row.averageDurationMs / 1000).toFixed(1),
+    ]),
+  ]
+    .map((cells) => cells.map(csvCell).join(","))
+    .join("\n");
+
+export const dropOffToCsv = (rows: DropOffRow[]) =>
+  [
+    ["Script node", "Dropped calls", "Share"],
+    ...rows.map((row) => [row.nodeId, row.calls, row.share.toFixed(4)]),
+  ]
+    .map((cells) => cells.map(csvCell).join(","))
+    .join("\n");
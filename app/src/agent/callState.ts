@@ -0,0 +1,49 @@
+import {
+  CallOutcome,
+  CallState,
+  UNREACHABLE_OUTCOMES,
+  UnreachableOutcome,
+} from "@/agent/types";
+
+const UNREACHED: CallState[] = ["busy", "no_answer", "voicemail", "dropped"];
+const IN_CONVERSATION: CallState[] = ["speaking", "awaiting_response", "muted"];
+
+/**
+ * Every state a call may move to from each state. Resetting to `idle` and
+ * staying in the same state are always allowed, so `canTransition` handles
+ * those instead of repeating them in each row.
+ */
+export const CALL_STATE_TRANSITIONS: Record<CallState, CallState[]> = {
+  idle: ["dialing"],
+  dialing: ["ringing", ...UNREACHED, "resolved", "muted"],
+  ringing: ["speaking", ...UNREACHED, "resolved", "muted"],
+  speaking: [...IN_CONVERSATION, "resolved", "dropped"],
+  awaiting_response: [...IN_CONVERSATION, "resolved", "dropped"],
+  muted: [...IN_CONVERSATION, "dialing", "resolved", "dropped"],
+  resolved: ["dialing"],
+  no_answer: ["dialing"],
+  busy: ["dialing"],
+  voicemail: ["dialing"],
+  dropped: ["dialing"],
+};
+
+export const TERMINAL_CALL_STATES: CallState[] = [
+  "idle",
+  "resolved",
+  ...UNREACHED,
+];
+
+export const canTransition = (from: CallState, to: CallState) =>
+  to === from || to === "idle" || CALL_STATE_TRANSITIONS[from].includes(to);
+
+export const isCallInFlight = (state: CallState) =>
+  !TERMINAL_CALL_STATES.includes(state);
+
+/** The customer is on the line and the call has not ended yet. */
+export const isInConversation = (state: CallState) =>
+  IN_CONVERSATION.includes(state);
+
+export const isUnreachableOutcome = (
+  outcome: CallOutcome
+): outcome is UnreachableOutcome =>
+  (UNREACHABLE_OUTCOMES as readonly CallOutcome[]).includes(outcome);
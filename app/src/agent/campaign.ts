@@ -0,0 +1,246 @@
+import { nextCallingTime } from "@/agent/retry";
+import type { RiskAssessment } from "@/agent/risk";
+import type { CallOutcome, OrderRecord } from "@/agent/types";
+
+export type CampaignCallResult =
+  | { status: "completed"; outcome: CallOutcome }
+  /** `retryAfter` is the attempt the retry schedule booked, if any is left. */
+  | { status: "no_answer"; retryAfter?: string }
+  /** The number is on the do-not-call list, so it was never dialled. */
+  | { status: "blocked" }
+  /** Not dialled before `until`, outside calling hours or its booked retry. */
+  | { status: "deferred"; until: string };
+
+export type CampaignTaskStatus =
+  | "queued"
+  | "calling"
+  | "retry_wait"
+  | "completed"
+  | "unreachable"
+  | "blocked"
+  | "failed";
+
+export type CampaignTask = {
+  order: OrderRecord;
+  attempts: number;
+  status: CampaignTaskStatus;
+  outcome?: CallOutcome;
+  error?: string;
+  nextAttemptAt?: string;
+};
+
+export type CampaignStatus =
+  | "idle"
+  | "running"
+  | "paused"
+  | "finished"
+  | "stopped";
+
+export type CampaignSnapshot = {
+  status: CampaignStatus;
+  tasks: CampaignTask[];
+};
+
+export type CampaignOptions = {
+  /** Calls handed to `execute` at the same time. */
+  concurrency: number;
+};
+
+/** More calls than this at once would only pile up behind the console. */
+export const MAX_CAMPAIGN_CONCURRENCY = 5;
+
+export const DEFAULT_CAMPAIGN_OPTIONS: CampaignOptions = {
+  concurrency: 1,
+};
+
+export type CampaignFilter = {
+  paymentMethod: string;
+  minTotal: number;
+};
+
+/** Waiting to be dialled, either for the first time or for a booked retry. */
+const WAITING: CampaignTaskStatus[] = ["queued", "retry_wait"];
+
+const SETTLED: CampaignTaskStatus[] = [
+  "completed",
+  "unreachable",
+  "blocked",
+  "failed",
+];
+
+export const selectCampaignOrders = (
+  orders: OrderRecord[],
+  { paymentMethod, minTotal }: CampaignFilter
+) =>
+  orders.filter(
+    (order) =>
+      order.status === "pending" &&
+      (paymentMethod === "all" || order.paymentMethod === paymentMethod) &&
+      order.total >= minTotal
+  );
+
+/**
+ * Splits the selected orders into those the risk rules confirm without a call
+ * and those to dial, riskiest first.
+ */
+export const prioritiseByRisk = (
+  orders: OrderRecord[],
+  assessments: Map<string, RiskAssessment>,
+  autoConfirmLowRisk: boolean
+) => {
+  const scoreOf = (order: OrderRecord) => assessments.get(order.id)?.score ?? 0;
+  const isLowRisk = (order: OrderRecord) =>
+    autoConfirmLowRisk && assessments.get(order.id)?.level === "low";
+
+  return {
+    toCall: orders
+      .filter((order) => !isLowRisk(order))
+      .sort((a, b) => scoreOf(b) - scoreOf(a)),
+    autoConfirm: orders.filter(isLowRisk),
+  };
+};
+
+/** When a waiting task may be dialled; retries wait for calling hours. */
+const dueAt = ({ nextAttemptAt }: CampaignTask) =>
+  nextAttemptAt ? nextCallingTime(Date.parse(nextAttemptAt)) : 0;
+
+/**
+ * Dials each order, up to `concurrency` at a time. Unanswered orders wait for
+ * the retry the retry schedule booked and are dialled again once it falls due,
+ * until they are reached or their retries run out.
+ */
+export const createCampaignRunner = ({
+  orders,
+  execute,
+  onChange,
+  options = DEFAULT_CAMPAIGN_OPTIONS,
+}: {
+  orders: OrderRecord[];
+  execute: (order: OrderRecord) => Promise<CampaignCallResult>;
+  onChange: (snapshot: CampaignSnapshot) => void;
+  options?: CampaignOptions;
+}) => {
+  let status: CampaignStatus = "idle";
+  let tasks: CampaignTask[] = orders.map((order) => ({
+    order,
+    attempts: 0,
+    status: "queued",
+  }));
+  const concurrency = Math.min(
+    Math.max(1, Math.floor(options.concurrency)),
+    MAX_CAMPAIGN_CONCURRENCY
+  );
+  let inFlight = 0;
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const snapshot = (): CampaignSnapshot => ({ status, tasks });
+  const emit = () => onChange(snapshot());
+
+  const update = (index: number, patch: Partial<CampaignTask>) => {
+    tasks = tasks.map((task, position) =>
+      position === index ? { ...task, ...patch } : task
+    );
+    emit();
+  };
+
+  const dial = (index: number) => {
+    const { attempts } = tasks[index];
+    inFlight += 1;
+    update(index, {
+      status: "calling",
+      attempts: attempts + 1,
+      nextAttemptAt: undefined,
+    });
+
+    execute(tasks[index].order)
+      .then(
+        (result) => {
+          if (status === "stopped") return;
+          if (result.status === "completed") {
+            update(index, { status: "completed", outcome: result.outcome });
+          } else if (result.status === "blocked") {
+            update(index, { status: "blocked" });
+          } else if (result.status === "deferred") {
+            // Nothing was dialled; wait until the order may be called.
+            update(index, {
+              status: "queued",
+              attempts,
+              nextAttemptAt: result.until,
+            });
+          } else if (result.retryAfter) {
+            update(index, {
+              status: "retry_wait",
+              nextAttemptAt: result.retryAfter,
+            });
+          } else {
+            update(index, { status: "unreachable" });
+          }
+        },
+        (error: Error) =>
+          update(index, { status: "failed", error: error.message })
+      )
+      .finally(() => {
+        inFlight -= 1;
+        pump();
+      });
+  };
+
+  const pump = () => {
+    if (status !== "running") return;
+
+    if (wakeTimer) clearTimeout(wakeTimer);
+    wakeTimer = null;
+
+    const now = Date.now();
+    const isDue = (task: CampaignTask) =>
+      WAITING.includes(task.status) && dueAt(task) <= now;
+    let next = tasks.findIndex(isDue);
+    while (inFlight < concurrency && next !== -1) {
+      dial(next);
+      next = tasks.findIndex(isDue);
+    }
+
+    const waiting = tasks.filter((task) => WAITING.includes(task.status));
+    if (inFlight < concurrency && waiting.length) {
+      wakeTimer = setTimeout(pump, Math.min(...waiting.map(dueAt)) - now);
+    }
+
+    if (
+      inFlight === 0 &&
+      tasks.every((task) => SETTLED.includes(task.status))
+    ) {
+      status = "finished";
+      emit();
+    }
+  };
+
+  return {
+    snapshot,
+    start: () => {
+      if (status !== "idle") return;
+      status = "running";
+      emit();
+      pump();
+    },
+    pause: () => {
+      if (status !== "running") return;
+      status = "paused";
+      emit();
+    },
+    resume: () => {
+      if (status !== "paused") return;
+      status = "running";
+      emit();
+      pump();
+    },
+    stop: () => {
+      if (status === "finished" || status === "stopped") return;
+      status = "stopped";
+      if (wakeTimer) clearTimeout(wakeTimer);
+      wakeTimer = null;
+      emit();
+    },
+  };
+};
+
+export type CampaignRunner = ReturnType<typeof createCampaignRunner>;
@@ -0,0 +1,98 @@
+import type { OrderRecord } from "@/agent/types";
+
+export const CANCELLATION_REASONS = [
+  "changed_mind",
+  "found_cheaper",
+  "delivery_too_late",
+  "ordered_by_mistake",
+  "payment_issue",
+  "other",
+] as const;
+
+export type CancellationReason = (typeof CANCELLATION_REASONS)[number];
+
+export const CANCELLATION_REASON_LABELS: Record<CancellationReason, string> = {
+  changed_mind: "Changed my mind",
+  found_cheaper: "Found a better price elsewhere",
+  delivery_too_late: "Delivery is too late",
+  ordered_by_mistake: "Ordered by mistake",
+  payment_issue: "Problem with the payment",
+  other: "Other reason",
+};
+
+const REASON_PATTERNS: [CancellationReason, RegExp][] = [
+  [
+    "found_cheaper",
+    /\b(cheaper|better (price|deal|offer)|lower price|less price|sasta|kam (price|daam))\b/i,
+  ],
+  [
+    "delivery_too_late",
+    /\b(too late|late|delay(ed)?|takes? too long|need(ed)? it (earlier|sooner|today)|der se|jaldi chahiye)\b/i,
+  ],
+  [
+    "ordered_by_mistake",
+    /\b(mistake|by accident|accidental(ly)?|wrong (item|size|colou?r|product)|galti se|galat)\b/i,
+  ],
+  [
+    "payment_issue",
+    /\b(payment|paid twice|charged|deducted|refund|paise kat|emi)\b/i,
+  ],
+  [
+    "changed_mind",
+    /\b(changed? my mind|don'?t need|no longer need|not needed|mann badal|zarurat nahi)\b/i,
+  ],
+];
+
+export const matchCancellationReason = (
+  utterance: string
+): CancellationReason | null =>
+  REASON_PATTERNS.find(([, pattern]) => pattern.test(utterance))?.[0] ?? null;
+
+export type RefundMethod = "upi_source" | "card_source" | "original_source";
+
+export type RefundRecord = {
+  id: string;
+  orderId: string;
+  amount: number;
+  method: RefundMethod;
+  reason?: CancellationReason;
+  status: "initiated";
+  /** Latest date the money should be back with the customer. */
+  expectedBy: string;
+  createdAt: string;
+};
+
+export const REFUND_METHOD_LABELS: Record<RefundMethod, string> = {
+  upi_source: "UPI (original account)",
+  card_source: "Card (original card)",
+  original_source: "Original payment method",
+};
+
+/** Business days each method takes to settle back to the customer. */
+const REFUND_SETTLEMENT_DAYS: Record<RefundMethod, number> = {
+  upi_source: 2,
+  card_source: 7,
+  original_source: 5,
+};
+
+/**
+ * How a cancelled order is refunded. Cash on delivery was never charged so
+ * there is nothing to return; UPI and card payments go back to source.
+ */
+export const refundPlan = (
+  order: Pick<OrderRecord, "paymentMethod" | "total">
+): { method: RefundMethod; amount: number; settlementDays: number } | null => {
+  const method = order.paymentMethod.toLowerCase();
+  if (/\bcod\b|cash/.test(method)) return null;
+
+  const refundMethod: RefundMethod = /upi/.test(method)
+    ? "upi_source"
+    : /card|credit|debit/.test(method)
+    ? "card_source"
+    : "original_source";
+  return {
+    method: refundMethod,
+    amount: order.total,
+    settlementDays: REFUND_SETTLEMENT_DAYS[refundMethod],
+  };
+};
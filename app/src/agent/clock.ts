@@ -0,0 +1,66 @@
+/**
+ * Time as the call flow sees it. `schedule` returns a function that cancels
+ * the run, so callers need not keep timer ids around.
+ */
+export type Clock = {
+  now: () => number;
+  schedule: (run: () => void, ms: number) => () => void;
+};
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  schedule: (run, ms) => {
+    const timer = setTimeout(run, ms);
+    return () => clearTimeout(timer);
+  },
+};
+
+export type VirtualClock = Clock & {
+  /** Runs every timer due within `ms`, in order, and moves time forward. */
+  advance: (ms: number) => void;
+  /** Jumps to the next timer and runs it; `false` when nothing is pending. */
+  next: () => boolean;
+  pending: () => number;
+};
+
+/** A clock that only moves when told to, so a whole call runs instantly. */
+export const createVirtualClock = (start = 0): VirtualClock => {
+  let now = start;
+  let sequence = 0;
+  // Kept sorted by due time, then by scheduling order.
+  let timers: { id: number; due: number; run: () => void }[] = [];
+
+  const runNext = (until: number) => {
+    const [timer] = timers;
+    if (!timer || timer.due > until) return false;
+    timers = timers.slice(1);
+    now = Math.max(now, timer.due);
+    timer.run();
+    return true;
+  };
+
+  return {
+    now: () => now,
+    schedule: (run, ms) => {
+      sequence += 1;
+      const id = sequence;
+      const due = now + Math.max(0, ms);
+      const index = timers.findIndex((timer) => timer.due > due);
+      const timer = { id, due, run };
+      timers =
+        index === -1
+          ? [...timers, timer]
+          : [...timers.slice(0, index), timer, ...timers.slice(index)];
+      return () => {
+        timers = timers.filter((pending) => pending.id !== id);
+      };
+    },
+    advance: (ms) => {
+      const until = now + ms;
+      while (runNext(until));
+      now = until;
+    },
+    next: () => runNext(Infinity),
+    pending: () => timers.length,
+  };
+};
@@ -0,0 +1,66 @@
+export type OptOutSource = "call" | "manual";
+
+export const OPT_OUT_SOURCE_LABELS: Record<OptOutSource, string> = {
+  call: "Asked on a call",
+  manual: "Added by the team",
+};
+
+/** A number the agent must never dial. */
+export type OptOutEntry = {
+  /** The last ten digits, so "+91 98…" and "098…" are the same number. */
+  phoneNumber: string;
+  source: OptOutSource;
+  registeredAt: string;
+  orderId?: string;
+  note?: string;
+};
+
+export const COMPLIANCE_CHECKS = [
+  "dnd_lookup",
+  "recording_disclosure",
+  "opt_out",
+] as const;
+
+export type ComplianceCheck = (typeof COMPLIANCE_CHECKS)[number];
+
+export const COMPLIANCE_CHECK_LABELS: Record<ComplianceCheck, string> = {
+  dnd_lookup: "Do-not-call lookup",
+  recording_disclosure: "Recording disclosure",
+  opt_out: "Opt-out registered",
+};
+
+export type ComplianceResult =
+  | "allowed"
+  | "blocked"
+  | "announced"
+  | "registered";
+
+export const COMPLIANCE_RESULT_LABELS: Record<ComplianceResult, string> = {
+  allowed: "Cleared to dial",
+  blocked: "Dial blocked",
+  announced: "Disclosure played",
+  registered: "Number added",
+};
+
+/** One entry per check, written by the server as the check happens. */
+export type ComplianceAuditEntry = {
+  id: string;
+  check: ComplianceCheck;
+  result: ComplianceResult;
+  phoneNumber: string;
+  at: string;
+  orderId?: string;
+  /** The telephony call the check was made for. */
+  callId?: string;
+  /** The line the customer heard, or why a dial was blocked. */
+  detail?: string;
+};
+
+export const normalizePhoneNumber = (phoneNumber: string) =>
+  phoneNumber.replace(/\D/g, "").slice(-10);
+
+/** Keeps enough of a number to tell entries apart without showing all of it. */
+export const maskPhoneNumber = (phoneNumber: string) => {
+  const digits = normalizePhoneNumber(phoneNumber);
+  return `${"•".repeat(Math.max(0, digits.length - 4))}${digits.slice(-4)}`;
+};
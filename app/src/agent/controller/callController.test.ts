@@ -0,0 +1,201 @@
+import { describe, expect, it } from "vitest";
+import { createVirtualClock } from "@/agent/clock";
+import { createCallController } from "@/agent/controller/callController";
+import { createSilentTtsEngine } from "@/agent/tts/silentEngine";
+import type { OrderRecord } from "@/agent/types";
+import { testOrder } from "@/fixtures/testOrders";
+
+const ringingCall = (current = testOrder) => {
+  const clock = createVirtualClock();
+  const controller = createCallController({
+    order: current,
+    clock,
+    tts: createSilentTtsEngine({ msPerWord: 350, clock }),
+  });
+  controller.ring();
+  return { clock, controller };
+};
+
+const answeredCall = (current = testOrder) => {
+  const call = ringingCall(current);
+  call.controller.answer();
+  return call;
+};
+
+const agentLines = (
+  controller: ReturnType<typeof answeredCall>["controller"]
+) =>
+  controller
+    .getSnapshot()
+    .conversation.filter((entry) => entry.speaker === "agent");
+
+/** Runs timers until the agent starts asking its question. */
+const untilQuestion = ({
+  clock,
+  controller,
+}: ReturnType<typeof answeredCall>) => {
+  while (!agentLines(controller).at(-1)?.awaitingResponse && clock.next());
+};
+
+/** Runs timers until a new question has played and the agent is waiting. */
+const untilNextQuestion = (call: ReturnType<typeof answeredCall>) => {
+  const { clock, controller } = call;
+  const asked = agentLines(controller).length;
+  while (
+    (agentLines(controller).length === asked ||
+      controller.getSnapshot().state !== "awaiting_response") &&
+    clock.next()
+  );
+};
+
+describe("createCallController", () => {
+  it("plays the disclosure and summary in full before taking a reply", () => {
+    const { clock, controller } = answeredCall();
+    clock.advance(1_300);
+
+    expect(controller.getSnapshot().state).toBe("speaking");
+    expect(controller.getSnapshot().acceptingInput).toBe(false);
+    controller.say("Yes");
+
+    const snapshot = controller.getSnapshot();
+    expect(snapshot.nodeId).toBe("intro");
+    expect(
+      snapshot.conversation.some((entry) => entry.speaker === "customer")
+    ).toBe(false);
+    expect(agentLines(controller)[0].interrupted).toBeUndefined();
+  });
+
+  it("lets the customer talk over the question itself", () => {
+    const call = answeredCall();
+    untilQuestion(call);
+    const { controller } = call;
+
+    expect(controller.getSnapshot().state).toBe("speaking");
+    expect(controller.getSnapshot().acceptingInput).toBe(true);
+    controller.say("Yes, that's correct");
+
+    expect(agentLines(controller).at(-1)?.interrupted).toBe(true);
+    expect(controller.getSnapshot().nodeId).toBe("address_check");
+  });
+
+  it("marks the disclosure only once it has played to the end", () => {
+    const call = answeredCall();
+    const { clock, controller } = call;
+    clock.advance(1_300);
+    expect(agentLines(controller)).toHaveLength(1);
+    expect(controller.getSnapshot().disclosed).toBe(false);
+
+    untilQuestion(call);
+    const [disclosure, greeting] = agentLines(controller);
+    expect(disclosure.message).toMatch(/^This call is recorded/);
+    expect(greeting.message).toMatch(/^Hello Asha Rao/);
+    expect(controller.getSnapshot().disclosed).toBe(true);
+  });
+
+  it("stays quiet while a supervisor holds a waiting call", () => {
+    const call = answeredCall();
+    const { clock, controller } = call;
+    untilQuestion(call);
+    while (controller.getSnapshot().state !== "awaiting_response") clock.next();
+
+    controller.takeOver();
+    const spoken = agentLines(controller).length;
+    clock.advance(60_000);
+    expect(agentLines(controller)).toHaveLength(spoken);
+    expect(controller.getSnapshot().outcome).toBeNull();
+
+    controller.handBack();
+    clock.advance(60_000);
+    expect(
+      agentLines(controller).some(({ message }) =>
+        message.startsWith("Are you still")
+      )
+    ).toBe(true);
+  });
+
+  it("starts the retry count over once a call gets through", () => {
+    const missed = (current: OrderRecord) => {
+      const { controller } = ringingCall(current);
+      controller.unreachable("busy");
+      return controller.getSnapshot().order;
+    };
+
+    const missedThrice = missed(missed(missed(testOrder)));
+    expect(missedThrice.callAttempts).toBe(3);
+
+    const call = answeredCall(missedThrice);
+    untilQuestion(call);
+    const { controller } = call;
+    controller.takeOver();
+    controller.wrapUp("needs_support");
+    expect(controller.getSnapshot().outcome).toBe("needs_support");
+    const reached = controller.getSnapshot().order;
+    expect(reached.callAttempts).toBeUndefined();
+    expect(reached.retryAfter).toBeUndefined();
+
+    const missedAgain = missed(reached);
+    expect(missedAgain.status).toBe("requires_followup");
+    expect(missedAgain.callAttempts).toBe(1);
+    expect(missedAgain.retriesExhaustedAt).toBeUndefined();
+  });
+
+  it("asks again when it cannot make out the reply", () => {
+    const call = answeredCall();
+    const { controller } = call;
+    untilQuestion(call);
+    controller.respond({ kind: "intent", intent: "query" });
+    untilNextQuestion(call);
+
+    controller.say("Blue umbrella");
+    untilNextQuestion(call);
+
+    const { conversation, nodeId } = controller.getSnapshot();
+    expect(nodeId).toBe("payment_details");
+    expect(conversation.at(-2)).toMatchObject({
+      speaker: "customer",
+      message: "Blue umbrella",
+    });
+    expect(conversation.at(-1)).toMatchObject({
+      speaker: "agent",
+      message:
+        "Sorry, I didn't catch that. Could you please say that once more?",
+      awaitingResponse: true,
+    });
+  });
+
+  it("books a retry when the customer stays silent", () => {
+    const call = answeredCall();
+    const { clock, controller } = call;
+    untilQuestion(call);
+    while (controller.getSnapshot().state !== "awaiting_response") clock.next();
+
+    clock.advance(60_000);
+
+    const { conversation, outcome, order, state } = controller.getSnapshot();
+    expect(
+      conversation.filter(({ message }) => message.startsWith("Are you still"))
+    ).toHaveLength(2);
+    expect(conversation.at(-1)).toMatchObject({
+      speaker: "system",
+      message: expect.stringMatching(/^No reply from the customer/),
+    });
+    expect(outcome).toBe("no_response");
+    expect(state).toBe("resolved");
+    // The virtual clock starts before calling hours open at 9AM in India.
+    expect(order).toMatchObject({
+      status: "requires_followup",
+      callAttempts: 1,
+      retryAfter: "1970-01-01T03:30:00.000Z",
+    });
+  });
+
+  it("does not mark a disclosure the customer hung up on", () => {
+    const { clock, controller } = answeredCall();
+    clock.advance(1_300);
+    controller.hangUp();
+    while (clock.next());
+
+    expect(controller.getSnapshot().disclosed).toBe(false);
+    expect(controller.getSnapshot().outcome).toBe("dropped");
+  });
+});
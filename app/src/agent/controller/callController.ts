@@ -0,0 +1,631 @@
+import { Clock, systemClock } from "@/agent/clock";
+import {
+  canTransition,
+  isInConversation,
+  isUnreachableOutcome,
+} from "@/agent/callState";
+import { detectLanguageRequest } from "@/agent/i18n/locales";
+import { SCRIPT_LINES } from "@/agent/i18n/scriptLines";
+import type { IntentClassifier } from "@/agent/intent/classifier";
+import type { IntentClassification } from "@/agent/intent/types";
+import type { CallControl, SupervisorWrapUp } from "@/agent/monitor/types";
+import { createNoInputTimer } from "@/agent/noInput";
+import { clearRetries, scheduleFollowUp } from "@/agent/retry";
+import { defaultCallScript } from "@/agent/script/defaultScript";
+import {
+  applyInput,
+  createScriptContext,
+  describeInput,
+  getNode,
+  planNode,
+  planReprompt,
+  planSilenceReprompt,
+  resolveTransition,
+} from "@/agent/script/interpreter";
+import type {
+  CallScript,
+  NodePlan,
+  ScriptContext,
+  ScriptInput,
+} from "@/agent/script/types";
+import { readUtterance } from "@/agent/script/understanding";
+import type { DeliverySlot } from "@/agent/slots";
+import { parseSpeechMarkup, stripSpeechMarkup } from "@/agent/tts/markup";
+import { createSilentTtsEngine } from "@/agent/tts/silentEngine";
+import type { TtsEngine } from "@/agent/tts/types";
+import {
+  CALL_OUTCOME_LABELS,
+  CallOutcome,
+  CallState,
+  ConversationEntry,
+  EscalationReason,
+  OrderRecord,
+  UnreachableOutcome,
+} from "@/agent/types";
+
+export type CallSnapshot = {
+  state: CallState;
+  nodeId: string | null;
+  context: ScriptContext;
+  conversation: ConversationEntry[];
+  outcome: CallOutcome | null;
+  escalationReason?: EscalationReason;
+  /** The order as the call left it; unchanged until an outcome is recorded. */
+  order: OrderRecord;
+  control: CallControl;
+  /** How the last reply that went to the classifier was read. */
+  classification: IntentClassification | null;
+  /** Set while a slot the customer picked is being held for them. */
+  reservingSlotId: string | null;
+  /** Whether a reply now would be heard, including over the agent. */
+  acceptingInput: boolean;
+  /** Set once the recording notice has played to the end. */
+  disclosed: boolean;
+};
+
+export type CallControllerOptions = {
+  order: OrderRecord;
+  script?: CallScript;
+  clock?: Clock;
+  tts?: TtsEngine;
+  onVoiceError?: (error: string) => void;
+  classify?: IntentClassifier;
+  /** Slots the agent may offer; the console looks these up by pincode. */
+  offeredSlots?: DeliverySlot[];
+  /**
+   * Holds a picked slot before the agent confirms it, rejecting when someone
+   * else took it. Without it every offered slot is taken as free.
+   */
+  reserveSlot?: (slot: DeliverySlot) => Promise<unknown>;
+};
+
+type UnansweredOutcome = Extract<
+  UnreachableOutcome,
+  "busy" | "no_answer" | "voicemail"
+>;
+
+export type CallController = {
+  /** The carrier reports the customer's phone is ringing. */
+  ring: () => void;
+  /** The customer picked up, so the agent starts the script. */
+  answer: () => void;
+  unreachable: (outcome: UnansweredOutcome) => void;
+  /** The call was never placed, for instance because of an opt-out. */
+  abort: (reason: string) => void;
+  /** A spoken or typed reply, read the way the call console reads it. */
+  say: (utterance: string) => void;
+  /** A reply already understood, like the console's response buttons. */
+  respond: (input: ScriptInput) => boolean;
+  press: (digit: string) => boolean;
+  escalate: () => void;
+  /** The customer hangs up. */
+  hangUp: () => void;
+  setOfferedSlots: (slots: DeliverySlot[]) => void;
+  /** Adds a line the script did not produce, such as a supervisor whisper. */
+  note: (entry: Omit<ConversationEntry, "timestamp">) => void;
+  /** A supervisor takes the line; the script waits until it is handed back. */
+  takeOver: () => void;
+  /** The agent takes the line back and repeats the current question. */
+  handBack: () => void;
+  /** Records the supervisor's outcome the way the matching node would. */
+  wrapUp: (outcome: SupervisorWrapUp) => void;
+  mute: () => void;
+  /** Lets the agent talk again, starting over with the current question. */
+  unmute: () => void;
+  /** Stops every timer and line; the controller is not used again. */
+  dispose: () => void;
+  getSnapshot: () => CallSnapshot;
+  subscribe: (listener: (snapshot: CallSnapshot) => void) => () => void;
+};
+
+const UNANSWERED_MESSAGES: Record<UnansweredOutcome, string> = {
+  busy: "The line is busy. Call ended without reaching the customer.",
+  no_answer: "No answer. Call ended without reaching the customer.",
+  voicemail: "Reached voicemail. Call ended without reaching the customer.",
+};
+
+/** Script nodes whose effect records each outcome a supervisor can pick. */
+const WRAP_UP_NODES: Record<SupervisorWrapUp, string> = {
+  confirmed: "confirmed",
+  cancelled: "cancelled",
+  needs_support: "escalated",
+};
+
+/**
+ * Runs one call through the script: lines, barge-in, silence handling,
+ * language switches, supervisor take-overs and outcomes. It starts dialing
+ * and saves nothing; the call console and the simulator both drive it and
+ * read the final order from the snapshot.
+ */
+export const createCallController = ({
+  order,
+  script = defaultCallScript,
+  clock = systemClock,
+  tts = createSilentTtsEngine({ clock }),
+  onVoiceError,
+  classify,
+  offeredSlots = [],
+  reserveSlot,
+}: CallControllerOptions): CallController => {
+  const listeners = new Set<(snapshot: CallSnapshot) => void>();
+  const noInput = createNoInputTimer(script.noInput, clock);
+  let pending: (() => void)[] = [];
+  let disposed = false;
+
+  /**
+   * The customer may talk over the agent only while it asks its question;
+   * the disclosure and order summary before it always play in full.
+   */
+  const acceptsInput = ({
+    state,
+    nodeId,
+    outcome,
+    reservingSlotId,
+    conversation,
+  }: CallSnapshot) => {
+    if (outcome || !nodeId || reservingSlotId) return false;
+    if (state === "awaiting_response") return true;
+    const line = conversation.findLast((entry) => entry.speaker === "agent");
+    return (
+      state === "speaking" &&
+      Boolean(line?.awaitingResponse && getNode(script, nodeId).expects)
+    );
+  };
+
+  let snapshot: CallSnapshot = {
+    state: "dialing",
+    nodeId: null,
+    context: { ...createScriptContext(order), offeredSlots },
+    conversation: [],
+    outcome: null,
+    order,
+    control: "agent",
+    classification: null,
+    reservingSlotId: null,
+    acceptingInput: false,
+    disclosed: false,
+  };
+
+  const stamp = () => new Date(clock.now()).toISOString();
+
+  const update = (changes: Partial<CallSnapshot>) => {
+    const next = { ...snapshot, ...changes };
+    snapshot = { ...next, acceptingInput: acceptsInput(next) };
+    listeners.forEach((listener) => listener(snapshot));
+  };
+
+  const addMessage = (entry: ConversationEntry) =>
+    update({ conversation: [...snapshot.conversation, entry] });
+
+  const addSystemMessage = (message: string) =>
+    addMessage({ speaker: "system", message, timestamp: stamp() });
+
+  const clearPending = () => {
+    pending.forEach((cancel) => cancel());
+    pending = [];
+  };
+
+  /** Cuts the agent off and drops the lines and outcome still queued. */
+  const silence = () => {
+    tts.stop();
+    clearPending();
+  };
+
+  const move = (next: CallState) => {
+    if (next === snapshot.state || !canTransition(snapshot.state, next)) {
+      return;
+    }
+    update({ state: next });
+    if (
+      next !== "awaiting_response" ||
+      snapshot.outcome ||
+      snapshot.control === "supervisor"
+    ) {
+      noInput.disarm();
+      return;
+    }
+    noInput.arm({
+      onReprompt: () => {
+        const { nodeId, context } = snapshot;
+        if (nodeId) runPlan(planSilenceReprompt(script, nodeId, context));
+      },
+      onGiveUp: () => {
+        addSystemMessage("No reply from the customer after repeated prompts.");
+        endUnreached("no_response");
+      },
+    });
+  };
+
+  const complete = (
+    outcome: CallOutcome,
+    apply: (order: OrderRecord) => OrderRecord,
+    finalState: CallState,
+    escalationReason?: EscalationReason
+  ) => {
+    if (snapshot.outcome) return;
+    noInput.disarm();
+    const { order } = snapshot.context;
+    update({
+      outcome,
+      escalationReason,
+      order: apply(isUnreachableOutcome(outcome) ? order : clearRetries(order)),
+    });
+    move(finalState);
+  };
+
+  const endUnreached = (outcome: UnreachableOutcome) =>
+    complete(
+      outcome,
+      (current) => scheduleFollowUp(current, outcome, clock.now()),
+      // A silent customer still picked up, so that call did connect.
+      outcome === "no_response" ? "resolved" : outcome
+    );
+
+  const scheduleLine = (
+    text: string,
+    delay: number,
+    {
+      awaitingResponse = false,
+      markResolved = false,
+      onEnd,
+    }: {
+      awaitingResponse?: boolean;
+      markResolved?: boolean;
+      /** `played` is false when the voice failed partway. */
+      onEnd?: (played: boolean) => void;
+    } = {}
+  ) => {
+    const { locale } = snapshot.context;
+    pending.push(
+      clock.schedule(() => {
+        let played = true;
+        move("speaking");
+        addMessage({
+          speaker: "agent",
+          message: stripSpeechMarkup(text),
+          timestamp: stamp(),
+          awaitingResponse,
+        });
+        tts.speak(
+          { segments: parseSpeechMarkup(text, locale), locale },
+          {
+            onEnd: () => {
+              move(
+                markResolved
+                  ? "resolved"
+                  : awaitingResponse
+                  ? "awaiting_response"
+                  : "speaking"
+              );
+              onEnd?.(played);
+            },
+            onError: (error) => {
+              played = false;
+              onVoiceError?.(error);
+            },
+          }
+        );
+      }, delay)
+    );
+  };
+
+  const runPlan = (plan: NodePlan, context = snapshot.context) => {
+    update({ nodeId: plan.nodeId, context });
+
+    // Nothing else is queued until the recording notice has been heard in
+    // full, and it takes no replies, so it cannot be talked over or cut off.
+    const { disclosure } = plan;
+    if (disclosure && !snapshot.disclosed) {
+      const after = (delay: number) => Math.max(0, delay - disclosure.delay);
+      scheduleLine(disclosure.text, disclosure.delay, {
+        onEnd: (played) => {
+          if (played) update({ disclosed: true });
+          runPlan({
+            ...plan,
+            disclosure: undefined,
+            lines: plan.lines.map((line) => ({
+              ...line,
+              delay: after(line.delay),
+            })),
+            effect: plan.effect && {
+              ...plan.effect,
+              delay: after(plan.effect.delay),
+            },
+          });
+        },
+      });
+      return;
+    }
+
+    plan.lines.forEach((line) => scheduleLine(line.text, line.delay, line));
+
+    const { effect } = plan;
+    if (effect) {
+      pending.push(
+        clock.schedule(
+          () =>
+            complete(
+              effect.outcome,
+              effect.apply,
+              "resolved",
+              effect.escalationReason
+            ),
+          effect.delay
+        )
+      );
+    }
+  };
+
+  /** Enters the current node again, as after a pause. */
+  const repeatNode = () => {
+    const { nodeId, context } = snapshot;
+    if (nodeId) runPlan(planNode(script, nodeId, context));
+  };
+
+  /** Barge-in: the customer talked over the agent's current line. */
+  const interrupt = () => {
+    if (snapshot.state !== "speaking") return;
+    silence();
+    const { conversation } = snapshot;
+    const index = conversation.findLastIndex(
+      (entry) => entry.speaker === "agent"
+    );
+    if (index >= 0 && !conversation[index].interrupted) {
+      update({
+        conversation: conversation.map((entry, position) =>
+          position === index ? { ...entry, interrupted: true } : entry
+        ),
+      });
+    }
+    move("awaiting_response");
+  };
+
+  /** While a supervisor is talking the script is paused; replies are logged. */
+  const logReply = (message: string) => {
+    noInput.heard();
+    addMessage({ speaker: "customer", message, timestamp: stamp() });
+  };
+
+  const proceed = (input: ScriptInput, next: string) => {
+    addMessage({
+      speaker: "customer",
+      message: describeInput(script, input),
+      timestamp: stamp(),
+    });
+    const updated = applyInput(snapshot.context, input);
+    runPlan(planNode(script, next, updated), updated);
+  };
+
+  /**
+   * Holds the slot before the agent confirms it. If someone else took the
+   * last place first, the agent apologises and offers the refreshed slots.
+   */
+  const hold = (
+    slot: DeliverySlot,
+    input: ScriptInput,
+    nodeId: string,
+    next: string,
+    reserve: (slot: DeliverySlot) => Promise<unknown>
+  ) => {
+    noInput.disarm();
+    update({ reservingSlotId: slot.id });
+    const settle = (held: boolean) => {
+      if (disposed) return;
+      update({ reservingSlotId: null });
+      if (snapshot.outcome || snapshot.nodeId !== nodeId) return;
+      if (held) {
+        proceed(input, next);
+        return;
+      }
+      addMessage({
+        speaker: "customer",
+        message: describeInput(script, input),
+        timestamp: stamp(),
+      });
+      scheduleLine(
+        SCRIPT_LINES[snapshot.context.locale].slotTaken(snapshot.context),
+        200
+      );
+      repeatNode();
+    };
+    reserve(slot).then(
+      () => settle(true),
+      () => settle(false)
+    );
+  };
+
+  const respond = (input: ScriptInput) => {
+    const { nodeId, context } = snapshot;
+    if (!acceptsInput(snapshot) || !nodeId) return false;
+    if (snapshot.control === "supervisor") {
+      logReply(describeInput(script, input));
+      return true;
+    }
+    const next = resolveTransition(script, nodeId, input);
+    if (!next) return false;
+
+    noInput.heard();
+    interrupt();
+    const slot =
+      input.kind === "slot"
+        ? context.offeredSlots?.find((offered) => offered.label === input.slot)
+        : undefined;
+    if (slot && reserveSlot) {
+      hold(slot, input, nodeId, next, reserveSlot);
+    } else {
+      proceed(input, next);
+    }
+    return true;
+  };
+
+  const say = (utterance: string) => {
+    if (!acceptsInput(snapshot)) return;
+    if (snapshot.control === "supervisor") {
+      logReply(utterance);
+      return;
+    }
+    noInput.heard();
+    interrupt();
+
+    const { nodeId, context } = snapshot;
+    if (!nodeId) return;
+    const { expects } = getNode(script, nodeId);
+
+    const requested = detectLanguageRequest(utterance);
+    if (requested && requested !== context.locale && expects) {
+      const switched: ScriptContext = {
+        ...context,
+        order: { ...context.order, language: requested },
+        locale: requested,
+      };
+      addMessage({
+        speaker: "customer",
+        message: utterance,
+        timestamp: stamp(),
+      });
+      update({ context: switched, classification: null });
+      scheduleLine(SCRIPT_LINES[requested].languageSwitched(switched), 300);
+      runPlan(planNode(script, nodeId, switched), switched);
+      return;
+    }
+
+    const { candidates, classification } = readUtterance(
+      utterance,
+      expects,
+      context,
+      classify,
+      clock.now()
+    );
+    update({ classification });
+    if (candidates.some((input) => respond(input))) return;
+
+    addMessage({ speaker: "customer", message: utterance, timestamp: stamp() });
+    runPlan(planReprompt(script, nodeId, context));
+  };
+
+  return {
+    ring: () => {
+      if (snapshot.state !== "dialing") return;
+      addSystemMessage("Ringing…");
+      move("ringing");
+    },
+    answer: () => {
+      if (snapshot.state !== "ringing") return;
+      addSystemMessage("Customer picked up.");
+      runPlan(planNode(script, script.entry, snapshot.context));
+    },
+    unreachable: (outcome) => {
+      if (snapshot.outcome) return;
+      addSystemMessage(UNANSWERED_MESSAGES[outcome]);
+      endUnreached(outcome);
+    },
+    abort: (reason) => {
+      if (snapshot.outcome) return;
+      silence();
+      noInput.disarm();
+      addSystemMessage(`${reason} The call was not placed.`);
+      move("idle");
+    },
+    say,
+    respond,
+    press: (digit) => {
+      const intent = script.dtmf[digit];
+      return intent
+        ? respond({
+            kind: "intent",
+            intent,
+            utterance: `Pressed ${digit} on the keypad.`,
+          })
+        : false;
+    },
+    escalate: () => {
+      if (
+        snapshot.outcome ||
+        snapshot.control === "supervisor" ||
+        !isInConversation(snapshot.state)
+      ) {
+        return;
+      }
+      silence();
+      runPlan(planNode(script, script.escalation, snapshot.context));
+    },
+    hangUp: () => {
+      if (snapshot.outcome) return;
+      silence();
+      addSystemMessage("The customer hung up before the call was resolved.");
+      endUnreached("dropped");
+    },
+    setOfferedSlots: (slots) =>
+      update({ context: { ...snapshot.context, offeredSlots: slots } }),
+    note: (entry) => addMessage({ ...entry, timestamp: stamp() }),
+    takeOver: () => {
+      if (
+        snapshot.outcome ||
+        snapshot.control === "supervisor" ||
+        !isInConversation(snapshot.state)
+      ) {
+        return;
+      }
+      update({ control: "supervisor" });
+      interrupt();
+      silence();
+      // Already waiting leaves the state as it is, so `move` would not.
+      noInput.disarm();
+      addSystemMessage("A supervisor took over the call from the agent.");
+      move("awaiting_response");
+    },
+    handBack: () => {
+      if (snapshot.outcome || snapshot.control !== "supervisor") return;
+      update({ control: "agent" });
+      addSystemMessage("The supervisor handed the call back to the agent.");
+      // The repeated question re-arms the no-input timer once it ends.
+      noInput.heard();
+      repeatNode();
+    },
+    wrapUp: (outcome) => {
+      if (snapshot.outcome || snapshot.control !== "supervisor") return;
+      const { effect } = planNode(
+        script,
+        WRAP_UP_NODES[outcome],
+        snapshot.context
+      );
+      if (!effect) return;
+      addSystemMessage(
+        `The supervisor closed the call: ${CALL_OUTCOME_LABELS[
+          effect.outcome
+        ].toLowerCase()}.`
+      );
+      complete(
+        effect.outcome,
+        effect.apply,
+        "resolved",
+        effect.escalationReason
+      );
+    },
+    mute: () => {
+      const { state, outcome } = snapshot;
+      if (outcome || state === "muted" || !isInConversation(state)) return;
+      silence();
+      move("muted");
+    },
+    unmute: () => {
+      if (snapshot.state !== "muted") return;
+      noInput.heard();
+      move("awaiting_response");
+      if (snapshot.control === "agent") repeatNode();
+    },
+    dispose: () => {
+      disposed = true;
+      silence();
+      noInput.disarm();
+      listeners.clear();
+    },
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
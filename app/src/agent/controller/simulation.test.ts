@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  PersonaId,
+  runSimulatedCall,
+  SIMULATED_PERSONAS,
+} from "@/agent/controller/simulation";
+import type { DeliverySlot } from "@/agent/slots";
+import type { CallOutcome, OrderRecord } from "@/agent/types";
+import { testOrder } from "@/fixtures/testOrders";
+
+const slot: DeliverySlot = {
+  id: "560001-2026-10-21-10",
+  pincode: "560001",
+  date: "2026-10-21",
+  startsAt: "2026-10-21T04:30:00.000Z",
+  label: "Wed 21 Oct, 10 AM - 1 PM",
+  capacity: 5,
+  remaining: 2,
+};
+
+const followUp = {
+  status: "requires_followup",
+  callAttempts: 1,
+  retryAfter: expect.any(String),
+};
+
+const EXPECTED: Record<
+  PersonaId,
+  {
+    outcome: CallOutcome;
+    changes: Partial<Record<keyof OrderRecord, unknown>>;
+    replies: string[];
+    lastLine: string;
+  }
+> = {
+  confirms: {
+    outcome: "confirmed",
+    changes: { status: "confirmed" },
+    replies: ["Yes, that's correct", "Yes, that's correct"],
+    lastLine: "Thank you for shopping with Flipkart. Have a great day!",
+  },
+  always_reschedules: {
+    outcome: "rescheduled",
+    changes: { status: "confirmed", deliverySlot: slot.label },
+    replies: ["Can you deliver it on another day?", "The first one works"],
+    lastLine: "Thanks for confirming. Have a great day!",
+  },
+  query_twice_then_cancels: {
+    outcome: "cancelled",
+    changes: { status: "cancelled", cancellationReason: "found_cheaper" },
+    replies: [
+      "What was the payment again?",
+      "What was the payment again?",
+      "Please cancel the order",
+      "I found it cheaper somewhere else",
+      "Please cancel the order",
+    ],
+    lastLine:
+      "I understand. I will cancel the order right away and send a confirmation SMS. Thank you for your time.",
+  },
+  keypad: {
+    outcome: "confirmed",
+    changes: { status: "confirmed" },
+    replies: ["Pressed 1 on the keypad.", "Pressed 1 on the keypad."],
+    lastLine: "Thank you for shopping with Flipkart. Have a great day!",
+  },
+  silent: {
+    outcome: "no_response",
+    changes: followUp,
+    replies: [],
+    lastLine: "No reply from the customer after repeated prompts.",
+  },
+  hangs_up: {
+    outcome: "dropped",
+    changes: followUp,
+    replies: [],
+    lastLine: "The customer hung up before the call was resolved.",
+  },
+};
+
+describe("runSimulatedCall", () => {
+  it.each(Object.keys(EXPECTED) as PersonaId[])("plays %s", (id) => {
+    const expected = EXPECTED[id];
+    const result = runSimulatedCall({
+      order: testOrder,
+      persona: SIMULATED_PERSONAS[id],
+      offeredSlots: [slot],
+    });
+
+    expect(result.outcome).toBe(expected.outcome);
+    expect(result.order).toEqual({ ...testOrder, ...expected.changes });
+
+    const [ringing, pickup, opening] = result.conversation;
+    expect(ringing.message).toBe("Ringing…");
+    expect(pickup.message).toBe("Customer picked up.");
+    expect(opening.speaker).toBe("agent");
+    expect(opening.message).toMatch(/^This call is recorded/);
+    expect(
+      result.conversation
+        .filter((entry) => entry.speaker === "customer")
+        .map((entry) => entry.message)
+    ).toEqual(expected.replies);
+    expect(result.conversation.at(-1)?.message).toBe(expected.lastLine);
+  });
+
+  it("reprompts a silent customer before giving up", () => {
+    const { conversation } = runSimulatedCall({
+      order: testOrder,
+      persona: SIMULATED_PERSONAS.silent,
+    });
+
+    expect(
+      conversation.filter((entry) => entry.message.startsWith("Are you still"))
+    ).toHaveLength(2);
+  });
+
+  it("escalates a reschedule when no slot can be offered", () => {
+    const result = runSimulatedCall({
+      order: testOrder,
+      persona: SIMULATED_PERSONAS.always_reschedules,
+    });
+
+    expect(result.outcome).toBe("needs_support");
+    expect(result.order.status).toBe("requires_followup");
+  });
+});
@@ -0,0 +1,169 @@
+import { createVirtualClock } from "@/agent/clock";
+import { createCallController } from "@/agent/controller/callController";
+import type { IntentClassifier } from "@/agent/intent/classifier";
+import { defaultCallScript } from "@/agent/script/defaultScript";
+import { getNode } from "@/agent/script/interpreter";
+import type {
+  CallScript,
+  ScriptContext,
+  ScriptInput,
+} from "@/agent/script/types";
+import type { DeliverySlot } from "@/agent/slots";
+import { createSilentTtsEngine } from "@/agent/tts/silentEngine";
+import type {
+  CallOutcome,
+  CallState,
+  ConversationEntry,
+  OrderRecord,
+} from "@/agent/types";
+
+export type PersonaTurn =
+  | { say: string }
+  | { press: string }
+  | { silence: true }
+  | { hangUp: true };
+
+/** What the simulated customer knows each time the agent waits for them. */
+export type PersonaCue = {
+  nodeId: string;
+  expects?: ScriptInput["kind"];
+  /** How many times this customer has been asked so far, from 0. */
+  turn: number;
+  context: ScriptContext;
+};
+
+export type Persona = {
+  label: string;
+  reply: (cue: PersonaCue) => PersonaTurn;
+};
+
+export const SIMULATED_PERSONAS = {
+  confirms: {
+    label: "Confirms straight away",
+    reply: () => ({ say: "Yes, that's correct" }),
+  },
+  always_reschedules: {
+    label: "Always reschedules",
+    reply: ({ expects }) =>
+      expects === "slot"
+        ? { say: "The first one works" }
+        : { say: "Can you deliver it on another day?" },
+  },
+  query_twice_then_cancels: {
+    label: "Asks about the order twice, then cancels",
+    reply: ({ expects, turn }) =>
+      expects === "reason"
+        ? { say: "I found it cheaper somewhere else" }
+        : turn < 2
+        ? { say: "What was the payment again?" }
+        : { say: "Please cancel the order" },
+  },
+  keypad: {
+    label: "Confirms on the keypad",
+    reply: () => ({ press: "1" }),
+  },
+  silent: {
+    label: "Never answers",
+    reply: () => ({ silence: true }),
+  },
+  hangs_up: {
+    label: "Hangs up at the first question",
+    reply: () => ({ hangUp: true }),
+  },
+} satisfies Record<string, Persona>;
+
+export type PersonaId = keyof typeof SIMULATED_PERSONAS;
+
+export type SimulationOptions = {
+  order: OrderRecord;
+  persona: Persona;
+  script?: CallScript;
+  offeredSlots?: DeliverySlot[];
+  classify?: IntentClassifier;
+  /** How long the customer takes to answer once the agent stops talking. */
+  replyDelayMs?: number;
+  /** Speaking pace of the silent voice, so lines take realistic time. */
+  msPerWord?: number;
+  /** Virtual time after which an unfinished call is abandoned. */
+  maxDurationMs?: number;
+};
+
+export type SimulationResult = {
+  outcome: CallOutcome | null;
+  state: CallState;
+  order: OrderRecord;
+  conversation: ConversationEntry[];
+  durationMs: number;
+  turns: number;
+};
+
+/**
+ * Plays a whole call against a persona on a virtual clock. It returns as soon
+ * as the call is over, however long the call would take in real time.
+ */
+export const runSimulatedCall = ({
+  order,
+  persona,
+  script = defaultCallScript,
+  offeredSlots,
+  classify,
+  replyDelayMs = 1_200,
+  msPerWord = 350,
+  maxDurationMs = 15 * 60_000,
+}: SimulationOptions): SimulationResult => {
+  const clock = createVirtualClock();
+  const controller = createCallController({
+    order,
+    script,
+    clock,
+    tts: createSilentTtsEngine({ msPerWord, clock }),
+    classify,
+    offeredSlots,
+  });
+  let turns = 0;
+  // Index of the last agent question the customer was cued by.
+  let cuedBy = -1;
+
+  controller.subscribe(({ state, nodeId, outcome, conversation, context }) => {
+    if (state !== "awaiting_response" || outcome || !nodeId) return;
+    const question = conversation.findLastIndex(
+      (entry) => entry.speaker === "agent" && entry.awaitingResponse
+    );
+    if (question <= cuedBy) return;
+    cuedBy = question;
+
+    const turn = persona.reply({
+      nodeId,
+      expects: getNode(script, nodeId).expects,
+      turn: turns,
+      context,
+    });
+    turns += 1;
+    if ("silence" in turn) return;
+    clock.schedule(() => {
+      if ("say" in turn) controller.say(turn.say);
+      else if ("press" in turn) controller.press(turn.press);
+      else controller.hangUp();
+    }, replyDelayMs);
+  });
+
+  controller.ring();
+  controller.answer();
+  while (
+    !controller.getSnapshot().outcome &&
+    clock.now() < maxDurationMs &&
+    clock.next()
+  );
+  // Let the farewell finish so the transcript is complete.
+  while (clock.now() < maxDurationMs && clock.next());
+
+  const snapshot = controller.getSnapshot();
+  return {
+    outcome: snapshot.outcome,
+    state: snapshot.state,
+    order: snapshot.order,
+    conversation: snapshot.conversation,
+    durationMs: clock.now(),
+    turns,
+  };
+};
@@ -0,0 +1,35 @@
+import type {
+  EscalationReason,
+  EscalationTicket,
+  OrderRecord,
+  TicketPriority,
+} from "@/agent/types";
+
+/** The agent tells the customer a specialist will call back within an hour. */
+export const ESCALATION_SLA_MS = 60 * 60_000;
+
+export const HIGH_PRIORITY_ORDER_TOTAL = 10_000;
+
+export const ESCALATION_REASON_LABELS: Record<EscalationReason, string> = {
+  customer_request: "Customer asked for a specialist",
+  no_suitable_slot: "No delivery slot suited the customer",
+  unpriced_items: "Items to change have no unit price",
+};
+
+export const TICKET_PRIORITY_ORDER: TicketPriority[] = [
+  "high",
+  "normal",
+  "low",
+];
+
+export const ticketPriority = (
+  order: OrderRecord,
+  reason: EscalationReason
+): TicketPriority => {
+  if (order.total >= HIGH_PRIORITY_ORDER_TOTAL) return "high";
+  return reason === "customer_request" ? "normal" : "low";
+};
+
+export const isSlaBreached = (ticket: EscalationTicket, now = Date.now()) =>
+  Date.parse(ticket.resolvedAt ?? new Date(now).toISOString()) >
+  Date.parse(ticket.slaDueAt);
@@ -0,0 +1,31 @@
+export const formatINR = (amount: number) =>
+  new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+export const timestamp = () => new Date().toISOString();
+
+export const formatDateTime = (iso: string) =>
+  new Intl.DateTimeFormat("en-IN", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(iso));
+
+export const formatElapsed = (from: string, to: string) => {
+  const seconds = Math.max(
+    0,
+    Math.round((Date.parse(to) - Date.parse(from)) / 1000)
+  );
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+/** Rough length of a span for labels like "due in 25m" or "2h 5m late". */
+export const formatDuration = (ms: number) => {
+  const minutes = Math.max(1, Math.round(Math.abs(ms) / 60_000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+};
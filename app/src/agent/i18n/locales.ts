@@ -0,0 +1,54 @@
+export const SUPPORTED_LOCALES = [
+  "en-IN",
+  "hi-IN",
+  "ta-IN",
+  "te-IN",
+  "bn-IN",
+] as const;
+
+export type SupportedLocale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: SupportedLocale = "en-IN";
+
+export const LOCALE_LABELS: Record<SupportedLocale, string> = {
+  "en-IN": "English",
+  "hi-IN": "हिन्दी (Hindi)",
+  "ta-IN": "தமிழ் (Tamil)",
+  "te-IN": "తెలుగు (Telugu)",
+  "bn-IN": "বাংলা (Bengali)",
+};
+
+const LANGUAGE_REQUESTS: [SupportedLocale, RegExp][] = [
+  ["hi-IN", /\bhindi\b|हिंदी|हिन्दी/i],
+  ["ta-IN", /\btamil\b|தமிழ்/i],
+  ["te-IN", /\btelugu\b|తెలుగు/i],
+  ["bn-IN", /\b(bengali|bangla)\b|বাংলা/i],
+  ["en-IN", /\benglish\b|अंग्रेज़ी|अंग्रेजी|ஆங்கில|ఇంగ్లీష్|ইংরেজি/i],
+];
+
+export const isSupportedLocale = (value: unknown): value is SupportedLocale =>
+  SUPPORTED_LOCALES.includes(value as SupportedLocale);
+
+/** The language a customer asks the agent to switch to, if any. */
+export const detectLanguageRequest = (
+  utterance: string
+): SupportedLocale | null =>
+  LANGUAGE_REQUESTS.find(([, pattern]) => pattern.test(utterance))?.[0] ?? null;
+
+/**
+ * Prefers a voice for the exact locale, then any voice for the same language
+ * (e.g. `hi` for `hi-IN`), and otherwise leaves the browser default.
+ */
+export const pickVoice = <Voice extends { lang: string }>(
+  voices: Voice[],
+  locale: SupportedLocale
+): Voice | null => {
+  const normalise = (lang: string) => lang.replace("_", "-").toLowerCase();
+  const language = locale.split("-")[0];
+
+  return (
+    voices.find((voice) => normalise(voice.lang) === locale.toLowerCase()) ??
+    voices.find((voice) => normalise(voice.lang).split("-")[0] === language) ??
+    null
+  );
+};
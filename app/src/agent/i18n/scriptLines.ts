@@ -0,0 +1,529 @@
+import { formatINR } from "@/agent/format";
+import type { SupportedLocale } from "@/agent/i18n/locales";
+import { formatCallbackTime } from "@/agent/retry";
+import type { ScriptContext } from "@/agent/script/types";
+import { spokenSlotLabel } from "@/agent/slots";
+import {
+  sayCharacters,
+  sayCurrency,
+  sayDigits,
+  slowly,
+} from "@/agent/tts/markup";
+
+type Line = (context: ScriptContext) => string;
+
+export type ScriptLines = {
+  recordingDisclosure: Line;
+  intro: Line;
+  itemSummary: Line;
+  introReprompt: Line;
+  paymentDetails: Line;
+  confirmAck: Line;
+  confirmFarewell: Line;
+  rescheduleOffer: Line;
+  slotReprompt: Line;
+  rescheduleDone: Line;
+  rescheduleFarewell: Line;
+  addressCheck: Line;
+  addressReprompt: Line;
+  addressReadback: Line;
+  pincodeNotFound: Line;
+  askModification: Line;
+  modificationReprompt: Line;
+  amendedSummary: Line;
+  askCancelReason: Line;
+  cancelReasonReprompt: Line;
+  retentionOffer: Line;
+  cancelAck: Line;
+  escalate: Line;
+  callbackAck: Line;
+  optOutAck: Line;
+  noSuitableSlot: Line;
+  slotTaken: Line;
+  fallbackReprompt: Line;
+  stillThere: Line;
+  languageSwitched: Line;
+};
+
+export type ScriptLineKey = keyof ScriptLines;
+
+/** The order as it stands on the call, including any agreed item edits. */
+const currentItems = ({ order, amendment }: ScriptContext) =>
+  amendment?.items ?? order.items;
+
+const englishItems = (context: ScriptContext) =>
+  currentItems(context)
+    .map(
+      (item) => `${item.quantity} ${item.name}${item.quantity > 1 ? "s" : ""}`
+    )
+    .join(", ");
+
+const countedItems = (context: ScriptContext) =>
+  currentItems(context)
+    .map((item) => `${item.name} × ${item.quantity}`)
+    .join(", ");
+
+const deliveryAddress = ({ order, address }: ScriptContext) =>
+  address ?? order.address;
+
+/** Pincodes are read one digit at a time so they are not heard as a number. */
+const spelledPincode = ({ rejectedPincode }: ScriptContext) =>
+  sayDigits(rejectedPincode ?? "");
+
+/** Order IDs and amounts are spelled out too; customers copy them down. */
+const orderId = ({ order }: ScriptContext) => slowly(sayCharacters(order.id));
+
+const amount = ({ order, amendment }: ScriptContext) =>
+  sayCurrency(formatINR(amendment?.total ?? order.total));
+
+/** Reads the offered slots as one phrase, e.g. "A, B or C". */
+const slotList = ({ offeredSlots = [] }: ScriptContext, or: string) => {
+  const labels = offeredSlots.map((slot) => spokenSlotLabel(slot));
+  return labels.length > 1
+    ? `${labels.slice(0, -1).join(", ")} ${or} ${labels.at(-1)}`
+    : labels.join("");
+};
+
+/** The booked slot, said relative to today when it is one of those offered. */
+const bookedSlot = ({ slot, offeredSlots = [] }: ScriptContext) => {
+  const offered = offeredSlots.find(({ label }) => label === slot);
+  return offered ? spokenSlotLabel(offered) : slot ?? "";
+};
+
+const payment = ({ order }: ScriptContext) => order.paymentMethod;
+
+const callbackTime = ({ callbackAt, locale }: ScriptContext) =>
+  callbackAt ? formatCallbackTime(callbackAt, locale) : "";
+
+export const SCRIPT_LINES: Record<SupportedLocale, ScriptLines> = {
+  "en-IN": {
+    recordingDisclosure: () =>
+      "This call is recorded for quality and training purposes.",
+    intro: (context) =>
+      `Hello ${
+        context.order.customerName
+      }, this is the Flipkart order validation desk. I'm calling to confirm your order ${orderId(
+        context
+      )} for ${amount(context)}.`,
+    itemSummary: (context) =>
+      `It includes ${englishItems(
+        context
+      )} with ${context.order.paymentMethod.toLowerCase()}. Is everything correct so we can schedule delivery ${
+        context.order.deliverySlot
+      }?`,
+    introReprompt: () =>
+      "Sorry, I didn't catch that. Shall I go ahead and confirm the order?",
+    paymentDetails: (context) =>
+      `This order is ${amount(
+        context
+      )} with ${context.order.paymentMethod.toLowerCase()}. Would you like to proceed with the same plan?`,
+    confirmAck: () =>
+      "Perfect, I will confirm the order and send you the delivery updates on SMS right away.",
+    confirmFarewell: () =>
+      "Thank you for shopping with Flipkart. Have a great day!",
+    rescheduleOffer: (context) =>
+      `Sure, I can help with that. I have ${slotList(
+        context,
+        "or"
+      )} available. Which one works best for you?`,
+    slotReprompt: () =>
+      "Sorry, I didn't catch that. Which of these slots works for you?",
+    rescheduleDone: (context) =>
+      `Done, I have rescheduled your delivery to ${bookedSlot(
+        context
+      )}. You will receive a confirmation SMS shortly.`,
+    rescheduleFarewell: () => "Thanks for confirming. Have a great day!",
+    addressCheck: (context) =>
+      `Before I confirm, let me check the delivery address. I have ${deliveryAddress(
+        context
+      )}. Is that correct? You can correct the flat number, the landmark or the pincode.`,
+    addressReprompt: () =>
+      "Please tell me the flat number, landmark or pincode to correct, or say yes if the address is right.",
+    addressReadback: (context) =>
+      `Thank you. I've updated the address to ${deliveryAddress(
+        context
+      )}. Is it correct now?`,
+    pincodeNotFound: (context) =>
+      `Sorry, I couldn't find the pincode ${spelledPincode(
+        context
+      )}. Could you tell me the pincode again?`,
+    askModification: (context) =>
+      `Sure. You have ${englishItems(
+        context
+      )}. Which item would you like to remove, or how many would you like instead?`,
+    modificationReprompt: () =>
+      "Sorry, I didn't catch that. Please tell me which item to remove or the new quantity.",
+    amendedSummary: (context) =>
+      `Done. Your order now has ${englishItems(context)} for ${amount(
+        context
+      )}. Shall I confirm it?`,
+    askCancelReason: () =>
+      "I can help with that. May I know why you'd like to cancel? For example, you changed your mind, found a better price, the delivery is too late, or it was ordered by mistake.",
+    cancelReasonReprompt: () =>
+      "Sorry, I didn't catch that. Could you tell me the reason for cancelling?",
+    retentionOffer: () =>
+      "I understand. Before I cancel, would you like to move the delivery to a slot that suits you better instead, or still cancel?",
+    cancelAck: () =>
+      "I understand. I will cancel the order right away and send a confirmation SMS. Thank you for your time.",
+    escalate: () =>
+      "I'll escalate this to a senior support specialist who will call you back within the next hour.",
+    callbackAck: (context) =>
+      `No problem, I will call you back on ${callbackTime(
+        context
+      )}. Thank you for your time.`,
+    optOutAck: () =>
+      "Understood. I have removed your number from our calling list and you will not get any more calls from us. Thank you for your time.",
+    noSuitableSlot: () =>
+      "I'm sorry I couldn't find a delivery slot that works for you. A senior support specialist will call you back within the next hour to arrange delivery.",
+    slotTaken: () => "Sorry, that slot was just booked by someone else.",
+    fallbackReprompt: () =>
+      "Sorry, I didn't catch that. Could you please say that once more?",
+    stillThere: () => "Are you still there? Please reply when you're ready.",
+    languageSwitched: () => "Sure, I will continue in English.",
+  },
+  "hi-IN": {
+    recordingDisclosure: () =>
+      "गुणवत्ता और प्रशिक्षण के लिए यह कॉल रिकॉर्ड की जा रही है।",
+    intro: (context) =>
+      `नमस्ते ${
+        context.order.customerName
+      }, यह Flipkart ऑर्डर वेरिफिकेशन डेस्क है। हम आपके ${amount(
+        context
+      )} के ऑर्डर ${orderId(context)} की पुष्टि के लिए कॉल कर रहे हैं।`,
+    itemSummary: (context) =>
+      `इसमें ${countedItems(context)} है, और भुगतान ${payment(
+        context
+      )} से होगा। क्या सब कुछ सही है ताकि हम डिलीवरी ${
+        context.order.deliverySlot
+      } के लिए शेड्यूल कर सकें?`,
+    introReprompt: () =>
+      "माफ़ कीजिए, बात साफ़ सुनाई नहीं दी। क्या हम ऑर्डर कन्फ़र्म कर दें?",
+    paymentDetails: (context) =>
+      `यह ऑर्डर ${amount(context)} का है और भुगतान ${payment(
+        context
+      )} से होगा। क्या आप इसी प्लान के साथ आगे बढ़ना चाहेंगे?`,
+    confirmAck: () =>
+      "बढ़िया, हम ऑर्डर कन्फ़र्म कर रहे हैं और डिलीवरी की जानकारी तुरंत SMS पर भेज देंगे।",
+    confirmFarewell: () =>
+      "Flipkart से ख़रीदारी करने के लिए धन्यवाद। आपका दिन शुभ हो!",
+    rescheduleOffer: (context) =>
+      `ज़रूर, इसमें हम मदद कर सकते हैं। ${slotList(
+        context,
+        "या"
+      )} के स्लॉट उपलब्ध हैं। इनमें से आपके लिए कौन सा ठीक रहेगा?`,
+    slotReprompt: () =>
+      "माफ़ कीजिए, बात साफ़ सुनाई नहीं दी। इनमें से कौन सा स्लॉट आपके लिए ठीक रहेगा?",
+    rescheduleDone: (context) =>
+      `हो गया, आपकी डिलीवरी ${bookedSlot(
+        context
+      )} के लिए री-शेड्यूल कर दी गई है। जल्द ही आपको कन्फ़र्मेशन SMS मिलेगा।`,
+    rescheduleFarewell: () => "कन्फ़र्म करने के लिए धन्यवाद। आपका दिन शुभ हो!",
+    addressCheck: (context) =>
+      `कन्फ़र्म करने से पहले डिलीवरी का पता जाँच लेते हैं। हमारे पास पता है ${deliveryAddress(
+        context
+      )}। क्या यह सही है? आप फ़्लैट नंबर, लैंडमार्क या पिनकोड ठीक करवा सकते हैं।`,
+    addressReprompt: () =>
+      "कृपया बताइए फ़्लैट नंबर, लैंडमार्क या पिनकोड में क्या बदलना है, या पता सही हो तो हाँ कहिए।",
+    addressReadback: (context) =>
+      `धन्यवाद। पता बदलकर ${deliveryAddress(
+        context
+      )} कर दिया है। क्या अब यह सही है?`,
+    pincodeNotFound: (context) =>
+      `माफ़ कीजिए, पिनकोड ${spelledPincode(
+        context
+      )} हमें नहीं मिला। क्या आप पिनकोड दोबारा बता सकते हैं?`,
+    askModification: (context) =>
+      `ज़रूर। आपके ऑर्डर में ${countedItems(
+        context
+      )} है। आप कौन सा आइटम हटाना चाहेंगे, या उसकी कितनी मात्रा चाहिए?`,
+    modificationReprompt: () =>
+      "माफ़ कीजिए, बात साफ़ सुनाई नहीं दी। बताइए कौन सा आइटम हटाना है या नई मात्रा कितनी है।",
+    amendedSummary: (context) =>
+      `हो गया। अब आपके ऑर्डर में ${countedItems(context)} है, कुल ${amount(
+        context
+      )}। क्या हम इसे कन्फ़र्म कर दें?`,
+    askCancelReason: () =>
+      "ज़रूर, हम इसमें मदद करेंगे। क्या आप बता सकते हैं कि आप ऑर्डर क्यों कैंसल करना चाहते हैं? जैसे आपका मन बदल गया, कहीं सस्ता मिल गया, डिलीवरी बहुत देर से है, या ग़लती से ऑर्डर हो गया।",
+    cancelReasonReprompt: () =>
+      "माफ़ कीजिए, बात साफ़ सुनाई नहीं दी। क्या आप कैंसल करने की वजह बता सकते हैं?",
+    retentionOffer: () =>
+      "हम समझते हैं। कैंसल करने से पहले, क्या हम डिलीवरी को आपकी सुविधा वाले किसी और स्लॉट में कर दें, या फिर भी कैंसल करें?",
+    cancelAck: () =>
+      "हम समझते हैं। ऑर्डर अभी कैंसल किया जा रहा है और कन्फ़र्मेशन SMS भेजा जाएगा। आपके समय के लिए धन्यवाद।",
+    escalate: () =>
+      "हम यह मामला एक सीनियर सपोर्ट स्पेशलिस्ट को भेज रहे हैं, जो अगले एक घंटे के अंदर आपको कॉल करेंगे।",
+    callbackAck: (context) =>
+      `कोई बात नहीं, हम आपको ${callbackTime(
+        context
+      )} को दोबारा कॉल करेंगे। आपके समय के लिए धन्यवाद।`,
+    optOutAck: () =>
+      "समझ गए। हमने आपका नंबर कॉलिंग लिस्ट से हटा दिया है, अब आपको हमारी ओर से कोई कॉल नहीं आएगी। आपके समय के लिए धन्यवाद।",
+    noSuitableSlot: () =>
+      "माफ़ कीजिए, आपके लिए सही डिलीवरी स्लॉट नहीं मिल पाया। एक सीनियर सपोर्ट स्पेशलिस्ट अगले एक घंटे में आपको कॉल करके डिलीवरी तय करेंगे।",
+    slotTaken: () => "माफ़ कीजिए, यह स्लॉट अभी-अभी किसी और ने बुक कर लिया।",
+    fallbackReprompt: () =>
+      "माफ़ कीजिए, बात साफ़ सुनाई नहीं दी। क्या आप एक बार फिर से बता सकते हैं?",
+    stillThere: () => "क्या आप लाइन पर हैं? तैयार हों तो जवाब दीजिए।",
+    languageSwitched: () => "ज़रूर, अब हम हिंदी में बात करेंगे।",
+  },
+  "ta-IN": {
+    recordingDisclosure: () =>
+      "தரம் மற்றும் பயிற்சி நோக்கங்களுக்காக இந்த அழைப்பு பதிவு செய்யப்படுகிறது.",
+    intro: (context) =>
+      `வணக்கம் ${
+        context.order.customerName
+      }, இது Flipkart ஆர்டர் சரிபார்ப்பு மையம். உங்கள் ${amount(
+        context
+      )} மதிப்புள்ள ஆர்டர் ${orderId(context)}-ஐ உறுதிப்படுத்த அழைக்கிறோம்.`,
+    itemSummary: (context) =>
+      `இதில் ${countedItems(context)} உள்ளன, பணம் ${payment(
+        context
+      )} மூலம் செலுத்தப்படும். எல்லாம் சரியாக உள்ளதா, டெலிவரியை ${
+        context.order.deliverySlot
+      } நேரத்தில் திட்டமிடலாமா?`,
+    introReprompt: () =>
+      "மன்னிக்கவும், சரியாகக் கேட்கவில்லை. ஆர்டரை உறுதிப்படுத்தலாமா?",
+    paymentDetails: (context) =>
+      `இந்த ஆர்டரின் மதிப்பு ${amount(context)}, பணம் ${payment(
+        context
+      )} மூலம். இதே திட்டத்துடன் தொடரலாமா?`,
+    confirmAck: () =>
+      "சரி, ஆர்டரை உறுதிப்படுத்தி, டெலிவரி விவரங்களை உடனே SMS மூலம் அனுப்புகிறோம்.",
+    confirmFarewell: () =>
+      "Flipkart-இல் வாங்கியதற்கு நன்றி. இனிய நாளாக அமையட்டும்!",
+    rescheduleOffer: (context) =>
+      `நிச்சயமாக, உதவுகிறோம். ${slotList(
+        context,
+        "அல்லது"
+      )} நேரங்கள் உள்ளன. இவற்றில் எது உங்களுக்கு வசதியானது?`,
+    slotReprompt: () =>
+      "மன்னிக்கவும், சரியாகக் கேட்கவில்லை. இவற்றில் எந்த நேரம் உங்களுக்கு வசதியானது?",
+    rescheduleDone: (context) =>
+      `முடிந்தது, உங்கள் டெலிவரி ${bookedSlot(
+        context
+      )} நேரத்திற்கு மாற்றப்பட்டது. விரைவில் உறுதிப்படுத்தல் SMS வரும்.`,
+    rescheduleFarewell: () =>
+      "உறுதிப்படுத்தியதற்கு நன்றி. இனிய நாளாக அமையட்டும்!",
+    addressCheck: (context) =>
+      `உறுதிப்படுத்தும் முன் டெலிவரி முகவரியைச் சரிபார்க்கிறேன். எங்களிடம் உள்ள முகவரி ${deliveryAddress(
+        context
+      )}. இது சரியா? வீட்டு எண், அடையாளம் அல்லது பின்கோடைத் திருத்தலாம்.`,
+    addressReprompt: () =>
+      "திருத்த வேண்டிய வீட்டு எண், அடையாளம் அல்லது பின்கோடைச் சொல்லுங்கள், முகவரி சரி என்றால் ஆம் என்று சொல்லுங்கள்.",
+    addressReadback: (context) =>
+      `நன்றி. முகவரியை ${deliveryAddress(
+        context
+      )} என்று மாற்றிவிட்டேன். இப்போது சரியா?`,
+    pincodeNotFound: (context) =>
+      `மன்னிக்கவும், பின்கோடு ${spelledPincode(
+        context
+      )} கிடைக்கவில்லை. பின்கோடை மீண்டும் சொல்ல முடியுமா?`,
+    askModification: (context) =>
+      `நிச்சயமாக. உங்கள் ஆர்டரில் ${countedItems(
+        context
+      )} உள்ளன. எந்தப் பொருளை நீக்க வேண்டும், அல்லது எத்தனை வேண்டும்?`,
+    modificationReprompt: () =>
+      "மன்னிக்கவும், சரியாகக் கேட்கவில்லை. எந்தப் பொருளை நீக்க வேண்டும் அல்லது புதிய எண்ணிக்கை என்ன என்று சொல்லுங்கள்.",
+    amendedSummary: (context) =>
+      `முடிந்தது. இப்போது உங்கள் ஆர்டரில் ${countedItems(
+        context
+      )} உள்ளன, மொத்தம் ${amount(context)}. இதை உறுதிப்படுத்தலாமா?`,
+    askCancelReason: () =>
+      "நிச்சயமாக உதவுகிறோம். ஆர்டரை ஏன் ரத்து செய்ய விரும்புகிறீர்கள் என்று சொல்ல முடியுமா? உதாரணமாக, மனம் மாறியது, குறைந்த விலையில் கிடைத்தது, டெலிவரி மிகவும் தாமதம், அல்லது தவறுதலாக ஆர்டர் செய்தது.",
+    cancelReasonReprompt: () =>
+      "மன்னிக்கவும், சரியாகக் கேட்கவில்லை. ரத்து செய்வதற்கான காரணத்தைச் சொல்ல முடியுமா?",
+    retentionOffer: () =>
+      "புரிகிறது. ரத்து செய்வதற்கு முன், உங்களுக்கு வசதியான வேறொரு நேரத்திற்கு டெலிவரியை மாற்றலாமா, அல்லது ரத்து செய்யவா?",
+    cancelAck: () =>
+      "புரிகிறது. ஆர்டரை உடனே ரத்து செய்து, உறுதிப்படுத்தல் SMS அனுப்புகிறோம். உங்கள் நேரத்திற்கு நன்றி.",
+    escalate: () =>
+      "இதை ஒரு மூத்த உதவி நிபுணரிடம் அனுப்புகிறோம், அவர் அடுத்த ஒரு மணி நேரத்திற்குள் உங்களை அழைப்பார்.",
+    callbackAck: (context) =>
+      `பரவாயில்லை, ${callbackTime(
+        context
+      )} அன்று உங்களை மீண்டும் அழைக்கிறோம். உங்கள் நேரத்திற்கு நன்றி.`,
+    optOutAck: () =>
+      "புரிந்தது. உங்கள் எண்ணை எங்கள் அழைப்புப் பட்டியலில் இருந்து நீக்கிவிட்டோம், இனி எங்களிடமிருந்து அழைப்புகள் வராது. உங்கள் நேரத்திற்கு நன்றி.",
+    noSuitableSlot: () =>
+      "மன்னிக்கவும், உங்களுக்கு ஏற்ற டெலிவரி நேரம் கிடைக்கவில்லை. ஒரு மூத்த உதவி நிபுணர் அடுத்த ஒரு மணி நேரத்திற்குள் உங்களை அழைத்து டெலிவரியை ஏற்பாடு செய்வார்.",
+    slotTaken: () =>
+      "மன்னிக்கவும், அந்த நேரம் இப்போதுதான் வேறொருவரால் முன்பதிவு செய்யப்பட்டது.",
+    fallbackReprompt: () =>
+      "மன்னிக்கவும், சரியாகக் கேட்கவில்லை. தயவுசெய்து மீண்டும் ஒருமுறை சொல்ல முடியுமா?",
+    stillThere: () =>
+      "நீங்கள் இணைப்பில் இருக்கிறீர்களா? தயாரானதும் பதில் சொல்லுங்கள்.",
+    languageSwitched: () => "சரி, இனி தமிழில் பேசுகிறோம்.",
+  },
+  "te-IN": {
+    recordingDisclosure: () =>
+      "నాణ్యత మరియు శిక్షణ కోసం ఈ కాల్ రికార్డ్ చేయబడుతోంది.",
+    intro: (context) =>
+      `నమస్కారం ${
+        context.order.customerName
+      }, ఇది Flipkart ఆర్డర్ ధృవీకరణ విభాగం. మీ ${amount(
+        context
+      )} విలువైన ఆర్డర్ ${orderId(
+        context
+      )} ను నిర్ధారించడానికి కాల్ చేస్తున్నాము.`,
+    itemSummary: (context) =>
+      `ఇందులో ${countedItems(context)} ఉన్నాయి, చెల్లింపు ${payment(
+        context
+      )} ద్వారా. అన్నీ సరిగ్గా ఉన్నాయా, డెలివరీని ${
+        context.order.deliverySlot
+      } కి షెడ్యూల్ చేయమంటారా?`,
+    introReprompt: () =>
+      "క్షమించండి, సరిగ్గా వినిపించలేదు. ఆర్డర్‌ను నిర్ధారించమంటారా?",
+    paymentDetails: (context) =>
+      `ఈ ఆర్డర్ విలువ ${amount(context)}, చెల్లింపు ${payment(
+        context
+      )} ద్వారా. ఇదే ప్లాన్‌తో కొనసాగమంటారా?`,
+    confirmAck: () =>
+      "సరే, ఆర్డర్‌ను నిర్ధారించి, డెలివరీ వివరాలను వెంటనే SMS ద్వారా పంపుతాము.",
+    confirmFarewell: () =>
+      "Flipkart లో షాపింగ్ చేసినందుకు ధన్యవాదాలు. మీ రోజు శుభంగా గడవాలి!",
+    rescheduleOffer: (context) =>
+      `తప్పకుండా, సహాయం చేస్తాము. ${slotList(
+        context,
+        "లేదా"
+      )} స్లాట్‌లు అందుబాటులో ఉన్నాయి. వీటిలో ఏది మీకు అనుకూలం?`,
+    slotReprompt: () =>
+      "క్షమించండి, సరిగ్గా వినిపించలేదు. వీటిలో ఏ స్లాట్ మీకు అనుకూలం?",
+    rescheduleDone: (context) =>
+      `పూర్తయింది, మీ డెలివరీని ${bookedSlot(
+        context
+      )} కి మార్చాము. త్వరలో నిర్ధారణ SMS వస్తుంది.`,
+    rescheduleFarewell: () =>
+      "నిర్ధారించినందుకు ధన్యవాదాలు. మీ రోజు శుభంగా గడవాలి!",
+    addressCheck: (context) =>
+      `నిర్ధారించే ముందు డెలివరీ చిరునామాను సరిచూస్తాను. మా దగ్గర ఉన్న చిరునామా ${deliveryAddress(
+        context
+      )}. ఇది సరైనదేనా? ఫ్లాట్ నంబర్, ల్యాండ్‌మార్క్ లేదా పిన్‌కోడ్‌ను సరిచేయవచ్చు.`,
+    addressReprompt: () =>
+      "సరిచేయాల్సిన ఫ్లాట్ నంబర్, ల్యాండ్‌మార్క్ లేదా పిన్‌కోడ్ చెప్పండి, చిరునామా సరైనదైతే అవును అనండి.",
+    addressReadback: (context) =>
+      `ధన్యవాదాలు. చిరునామాను ${deliveryAddress(
+        context
+      )} గా మార్చాను. ఇప్పుడు సరైనదేనా?`,
+    pincodeNotFound: (context) =>
+      `క్షమించండి, పిన్‌కోడ్ ${spelledPincode(
+        context
+      )} దొరకలేదు. పిన్‌కోడ్‌ను మళ్ళీ చెప్పగలరా?`,
+    askModification: (context) =>
+      `తప్పకుండా. మీ ఆర్డర్‌లో ${countedItems(
+        context
+      )} ఉన్నాయి. ఏ వస్తువును తీసివేయాలి, లేదా ఎన్ని కావాలి?`,
+    modificationReprompt: () =>
+      "క్షమించండి, సరిగ్గా వినిపించలేదు. ఏ వస్తువును తీసివేయాలో లేదా కొత్త సంఖ్య ఎంతో చెప్పండి.",
+    amendedSummary: (context) =>
+      `పూర్తయింది. ఇప్పుడు మీ ఆర్డర్‌లో ${countedItems(
+        context
+      )} ఉన్నాయి, మొత్తం ${amount(context)}. దీన్ని నిర్ధారించమంటారా?`,
+    askCancelReason: () =>
+      "తప్పకుండా సహాయం చేస్తాము. మీరు ఆర్డర్‌ను ఎందుకు రద్దు చేయాలనుకుంటున్నారో చెప్పగలరా? ఉదాహరణకు, మనసు మారింది, తక్కువ ధరకు దొరికింది, డెలివరీ చాలా ఆలస్యం, లేదా పొరపాటున ఆర్డర్ చేశారు.",
+    cancelReasonReprompt: () =>
+      "క్షమించండి, సరిగ్గా వినిపించలేదు. రద్దు చేయడానికి కారణం చెప్పగలరా?",
+    retentionOffer: () =>
+      "అర్థమైంది. రద్దు చేసే ముందు, డెలివరీని మీకు అనుకూలమైన వేరే స్లాట్‌కి మార్చమంటారా, లేక రద్దు చేయమంటారా?",
+    cancelAck: () =>
+      "అర్థమైంది. ఆర్డర్‌ను వెంటనే రద్దు చేసి, నిర్ధారణ SMS పంపుతాము. మీ సమయానికి ధన్యవాదాలు.",
+    escalate: () =>
+      "దీన్ని ఒక సీనియర్ సపోర్ట్ నిపుణుడికి పంపుతున్నాము, వారు వచ్చే గంటలోపు మీకు కాల్ చేస్తారు.",
+    callbackAck: (context) =>
+      `పర్వాలేదు, ${callbackTime(
+        context
+      )} న మీకు మళ్లీ కాల్ చేస్తాము. మీ సమయానికి ధన్యవాదాలు.`,
+    optOutAck: () =>
+      "అర్థమైంది. మీ నంబర్‌ను మా కాలింగ్ జాబితా నుండి తొలగించాము, ఇకపై మా నుండి కాల్స్ రావు. మీ సమయానికి ధన్యవాదాలు.",
+    noSuitableSlot: () =>
+      "క్షమించండి, మీకు అనుకూలమైన డెలివరీ స్లాట్ దొరకలేదు. ఒక సీనియర్ సపోర్ట్ నిపుణుడు వచ్చే గంటలోపు మీకు కాల్ చేసి డెలివరీ ఏర్పాటు చేస్తారు.",
+    slotTaken: () => "క్షమించండి, ఆ స్లాట్ ఇప్పుడే వేరొకరు బుక్ చేశారు.",
+    fallbackReprompt: () =>
+      "క్షమించండి, సరిగ్గా వినిపించలేదు. దయచేసి మరోసారి చెప్పగలరా?",
+    stillThere: () => "మీరు లైన్‌లో ఉన్నారా? సిద్ధమైనప్పుడు సమాధానం చెప్పండి.",
+    languageSwitched: () => "సరే, ఇకపై తెలుగులో మాట్లాడుతాము.",
+  },
+  "bn-IN": {
+    recordingDisclosure: () =>
+      "মান ও প্রশিক্ষণের জন্য এই কলটি রেকর্ড করা হচ্ছে।",
+    intro: (context) =>
+      `নমস্কার ${
+        context.order.customerName
+      }, এটি Flipkart অর্ডার যাচাই বিভাগ। আপনার ${amount(
+        context
+      )} মূল্যের অর্ডার ${orderId(context)} নিশ্চিত করতে ফোন করছি।`,
+    itemSummary: (context) =>
+      `এতে আছে ${countedItems(context)}, পেমেন্ট হবে ${payment(
+        context
+      )}-এ। সব ঠিক আছে তো, ডেলিভারি কি ${
+        context.order.deliverySlot
+      }-এ নির্ধারণ করব?`,
+    introReprompt: () =>
+      "দুঃখিত, ঠিক শুনতে পাইনি। অর্ডারটি কি নিশ্চিত করে দেব?",
+    paymentDetails: (context) =>
+      `এই অর্ডারের মূল্য ${amount(context)}, পেমেন্ট ${payment(
+        context
+      )}-এ। একই পরিকল্পনায় এগোতে চান?`,
+    confirmAck: () =>
+      "দারুণ, অর্ডারটি নিশ্চিত করছি এবং ডেলিভারির খবর এখনই SMS-এ পাঠিয়ে দেব।",
+    confirmFarewell: () =>
+      "Flipkart-এ কেনাকাটার জন্য ধন্যবাদ। আপনার দিন ভালো কাটুক!",
+    rescheduleOffer: (context) =>
+      `অবশ্যই, সাহায্য করছি। ${slotList(
+        context,
+        "অথবা"
+      )} স্লট খালি আছে। এর মধ্যে কোনটি আপনার সুবিধা হবে?`,
+    slotReprompt: () =>
+      "দুঃখিত, ঠিক শুনতে পাইনি। এর মধ্যে কোন স্লটটি আপনার সুবিধা হবে?",
+    rescheduleDone: (context) =>
+      `হয়ে গেছে, আপনার ডেলিভারি ${bookedSlot(
+        context
+      )}-এ সরিয়ে দেওয়া হয়েছে। শীঘ্রই নিশ্চিতকরণ SMS পাবেন।`,
+    rescheduleFarewell: () =>
+      "নিশ্চিত করার জন্য ধন্যবাদ। আপনার দিন ভালো কাটুক!",
+    addressCheck: (context) =>
+      `নিশ্চিত করার আগে ডেলিভারির ঠিকানাটা মিলিয়ে নিই। আমাদের কাছে ঠিকানা আছে ${deliveryAddress(
+        context
+      )}। এটা কি ঠিক? আপনি ফ্ল্যাট নম্বর, ল্যান্ডমার্ক বা পিনকোড সংশোধন করতে পারেন।`,
+    addressReprompt: () =>
+      "কোন ফ্ল্যাট নম্বর, ল্যান্ডমার্ক বা পিনকোড সংশোধন করতে হবে বলুন, ঠিকানা ঠিক থাকলে হ্যাঁ বলুন।",
+    addressReadback: (context) =>
+      `ধন্যবাদ। ঠিকানা বদলে ${deliveryAddress(context)} করেছি। এখন কি ঠিক আছে?`,
+    pincodeNotFound: (context) =>
+      `দুঃখিত, পিনকোড ${spelledPincode(
+        context
+      )} খুঁজে পেলাম না। পিনকোডটি আবার বলবেন?`,
+    askModification: (context) =>
+      `অবশ্যই। আপনার অর্ডারে আছে ${countedItems(
+        context
+      )}। কোন জিনিসটি বাদ দিতে চান, অথবা কতগুলো চান?`,
+    modificationReprompt: () =>
+      "দুঃখিত, ঠিক শুনতে পাইনি। কোন জিনিসটি বাদ দেব বা নতুন সংখ্যা কত, বলবেন?",
+    amendedSummary: (context) =>
+      `হয়ে গেছে। এখন আপনার অর্ডারে আছে ${countedItems(context)}, মোট ${amount(
+        context
+      )}। এটি কি নিশ্চিত করব?`,
+    askCancelReason: () =>
+      "অবশ্যই সাহায্য করব। অর্ডারটি কেন বাতিল করতে চান, জানাবেন? যেমন, মত বদলেছেন, অন্য কোথাও সস্তায় পেয়েছেন, ডেলিভারি অনেক দেরিতে, অথবা ভুল করে অর্ডার হয়ে গেছে।",
+    cancelReasonReprompt: () =>
+      "দুঃখিত, ঠিক শুনতে পাইনি। বাতিল করার কারণটা বলবেন?",
+    retentionOffer: () =>
+      "বুঝতে পেরেছি। বাতিল করার আগে, ডেলিভারিটি কি আপনার সুবিধামতো অন্য কোনো স্লটে সরিয়ে দেব, নাকি বাতিলই করব?",
+    cancelAck: () =>
+      "বুঝতে পেরেছি। অর্ডারটি এখনই বাতিল করছি এবং নিশ্চিতকরণ SMS পাঠাচ্ছি। আপনার সময়ের জন্য ধন্যবাদ।",
+    escalate: () =>
+      "বিষয়টি একজন সিনিয়র সাপোর্ট বিশেষজ্ঞের কাছে পাঠাচ্ছি, তিনি পরের এক ঘণ্টার মধ্যে আপনাকে ফোন করবেন।",
+    callbackAck: (context) =>
+      `কোনো অসুবিধা নেই, ${callbackTime(
+        context
+      )} আপনাকে আবার ফোন করব। আপনার সময়ের জন্য ধন্যবাদ।`,
+    optOutAck: () =>
+      "বুঝেছি। আপনার নম্বরটি আমাদের কলিং তালিকা থেকে সরিয়ে দিয়েছি, আর আমাদের কাছ থেকে কোনো ফোন আসবে না। আপনার সময়ের জন্য ধন্যবাদ।",
+    noSuitableSlot: () =>
+      "দুঃখিত, আপনার সুবিধামতো কোনো ডেলিভারি স্লট পাওয়া গেল না। একজন সিনিয়র সাপোর্ট বিশেষজ্ঞ পরের এক ঘণ্টার মধ্যে আপনাকে ফোন করে ডেলিভারির ব্যবস্থা করবেন।",
+    slotTaken: () => "দুঃখিত, ওই স্লটটি এইমাত্র অন্য কেউ বুক করে ফেলেছেন।",
+    fallbackReprompt: () =>
+      "দুঃখিত, ঠিক শুনতে পাইনি। অনুগ্রহ করে আর একবার বলবেন?",
+    stillThere: () => "আপনি কি লাইনে আছেন? প্রস্তুত হলে উত্তর দিন।",
+    languageSwitched: () => "অবশ্যই, এখন থেকে বাংলায় কথা বলব।",
+  },
+};
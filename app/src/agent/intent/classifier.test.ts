@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { classifyReply, evaluateClassifier } from "@/agent/intent/classifier";
+
+describe("classifyReply", () => {
+  it("keeps the held-out corpus above the accuracy floor", () => {
+    const { accuracy, misses } = evaluateClassifier();
+    expect(
+      accuracy,
+      `missed: ${misses.map(({ text }) => text).join(", ")}`
+    ).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it.each([
+    "please don't cancel",
+    "cancel mat karo",
+    "no need to cancel, it's fine",
+    "I don't want to cancel",
+    "कैंसल मत करो",
+    "ரத்து செய்ய வேண்டாம்",
+    "రద్దు చేయకండి",
+    "বাতিল করবেন না",
+  ])("does not read %j as a cancellation", (reply) => {
+    expect(classifyReply(reply).intent).not.toBe("cancel");
+  });
+
+  it.each([
+    "Cancel it please",
+    "Order cancel kar do",
+    "I want to cancel",
+    "ऑर्डर रद्द कर दो",
+    "ஆர்டரை ரத்து செய்யுங்கள்",
+    "ఆర్డర్ రద్దు చేయండి",
+    "অর্ডার বাতিল করুন",
+  ])("still reads %j as a cancellation", (reply) => {
+    expect(classifyReply(reply).intent).toBe("cancel");
+  });
+
+  it.each(["Stop calling me", "Don't call this number again"])(
+    "reads %j as an opt-out",
+    (reply) => {
+      expect(classifyReply(reply).intent).toBe("opt_out");
+    }
+  );
+
+  it.each(["हाँ", "ஆம்", "అవును", "হ্যাঁ"])("reads %j as a yes", (reply) => {
+    expect(classifyReply(reply).intent).toBe("confirm");
+  });
+
+  it("does not read a declined call back as an opt-out", () => {
+    expect(
+      classifyReply("don't call me back, just deliver it").intent
+    ).not.toBe("opt_out");
+  });
+});
@@ -0,0 +1,58 @@
+import { EVALUATION_CORPUS, TRAINING_CORPUS } from "@/agent/intent/corpus";
+import {
+  NaiveBayesModel,
+  predictNaiveBayes,
+  trainNaiveBayes,
+} from "@/agent/intent/naiveBayes";
+import { matchRules } from "@/agent/intent/rules";
+import type {
+  IntentClassification,
+  LabelledReply,
+} from "@/agent/intent/types";
+
+const RULE_CONFIDENCE = 0.95;
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.6;
+
+export type IntentClassifier = (text: string) => IntentClassification;
+
+export const createIntentClassifier = ({
+  model = trainNaiveBayes(TRAINING_CORPUS),
+  threshold = DEFAULT_CONFIDENCE_THRESHOLD,
+}: { model?: NaiveBayesModel; threshold?: number } = {}): IntentClassifier => {
+  return (text) => {
+    const ruleMatches = matchRules(text);
+    if (ruleMatches.length === 1) {
+      return {
+        intent: ruleMatches[0],
+        candidate: ruleMatches[0],
+        confidence: RULE_CONFIDENCE,
+        source: "rule",
+      };
+    }
+
+    const [best] = predictNaiveBayes(model, text);
+    return {
+      intent: best.probability >= threshold ? best.intent : "unknown",
+      candidate: best.intent,
+      confidence: best.probability,
+      source: "model",
+    };
+  };
+};
+
+export const classifyReply = createIntentClassifier();
+
+export const evaluateClassifier = (
+  classify: IntentClassifier = classifyReply,
+  corpus: LabelledReply[] = EVALUATION_CORPUS
+) => {
+  const misses = corpus
+    .map((example) => ({ ...example, result: classify(example.text) }))
+    .filter(({ intent, result }) => result.intent !== intent);
+
+  return {
+    accuracy: corpus.length ? 1 - misses.length / corpus.length : 1,
+    misses,
+  };
+};
@@ -0,0 +1,218 @@
+import type { LabelledReply } from "@/agent/intent/types";
+
+/** Ships with the app and trains the offline model at module load. */
+export const TRAINING_CORPUS: LabelledReply[] = [
+  { text: "Yes, please go ahead", intent: "confirm" },
+  { text: "That's correct, deliver it", intent: "confirm" },
+  { text: "Everything looks fine", intent: "confirm" },
+  { text: "Yes the order is right", intent: "confirm" },
+  { text: "Sure, send it as planned", intent: "confirm" },
+  { text: "Go ahead with the delivery", intent: "confirm" },
+  { text: "Haan ji, bhej dijiye", intent: "confirm" },
+  { text: "Haan sab sahi hai", intent: "confirm" },
+  { text: "Theek hai, order confirm kar do", intent: "confirm" },
+  { text: "Bilkul, same slot mein bhej do", intent: "confirm" },
+  { text: "Ji haan, yahi order hai", intent: "confirm" },
+  { text: "Perfect, that works for me", intent: "confirm" },
+  { text: "Please don't cancel it, I still want it", intent: "confirm" },
+  { text: "There is no need to cancel anything", intent: "confirm" },
+  { text: "I don't want to cancel the order, keep it", intent: "confirm" },
+  { text: "Don't cancel, please send it", intent: "confirm" },
+  { text: "Cancel mat karo, bhej do", intent: "confirm" },
+
+  { text: "Can you deliver on a different day", intent: "reschedule" },
+  { text: "I won't be home at that time", intent: "reschedule" },
+  { text: "Please change the delivery slot", intent: "reschedule" },
+  { text: "Can it come tomorrow evening instead", intent: "reschedule" },
+  { text: "That time doesn't work for me", intent: "reschedule" },
+  { text: "Deliver it next week please", intent: "reschedule" },
+  { text: "Kal bhej dena, aaj ghar pe nahi hoon", intent: "reschedule" },
+  { text: "Slot badal do please", intent: "reschedule" },
+  { text: "Shaam ko deliver kar sakte ho", intent: "reschedule" },
+  { text: "Us time main office mein rahunga", intent: "reschedule" },
+  { text: "Parso ke liye schedule karo", intent: "reschedule" },
+  { text: "Weekend pe bhejo", intent: "reschedule" },
+  { text: "Nobody is at home today, send it on Sunday", intent: "reschedule" },
+
+  { text: "I want to cancel the order", intent: "cancel" },
+  { text: "I don't need it anymore", intent: "cancel" },
+  { text: "Please stop this order", intent: "cancel" },
+  { text: "I ordered it by mistake", intent: "cancel" },
+  { text: "I found it cheaper elsewhere, cancel it", intent: "cancel" },
+  { text: "Don't send it", intent: "cancel" },
+  { text: "Mujhe ye order nahi chahiye", intent: "cancel" },
+  { text: "Order cancel kar do", intent: "cancel" },
+  { text: "Galti se order ho gaya", intent: "cancel" },
+  { text: "Mat bhejo, zarurat nahi hai", intent: "cancel" },
+  { text: "Ab iski zarurat nahi", intent: "cancel" },
+  { text: "I don't need this order any longer", intent: "cancel" },
+  { text: "Rehne do, band karo order", intent: "cancel" },
+
+  { text: "How much do I have to pay", intent: "query" },
+  { text: "What was the payment method again", intent: "query" },
+  { text: "Can you repeat the total", intent: "query" },
+  { text: "Which items are in the order", intent: "query" },
+  { text: "Is it cash on delivery", intent: "query" },
+  { text: "Tell me the amount once more", intent: "query" },
+  { text: "Kitna paisa dena hai", intent: "query" },
+  { text: "Payment kaise karna hai", intent: "query" },
+  { text: "Total kitne ka hai", intent: "query" },
+  { text: "Ek baar phir se batao", intent: "query" },
+  { text: "Order mein kya kya hai", intent: "query" },
+  { text: "COD hai ya prepaid", intent: "query" },
+
+  { text: "Let me talk to a real person", intent: "escalate" },
+  { text: "Connect me to your manager", intent: "escalate" },
+  { text: "I have a complaint about my last order", intent: "escalate" },
+  { text: "I need to speak with customer care", intent: "escalate" },
+  { text: "This is not working, get me a supervisor", intent: "escalate" },
+  { text: "I want a human agent", intent: "escalate" },
+  { text: "Kisi senior se baat karao", intent: "escalate" },
+  { text: "Manager ko phone do", intent: "escalate" },
+  { text: "Mujhe complaint karni hai", intent: "escalate" },
+  { text: "I want to register a complaint", intent: "escalate" },
+  { text: "Insaan se baat karni hai", intent: "escalate" },
+
+  { text: "Please remove one item from the order", intent: "modify" },
+  { text: "Can you take out the headphones", intent: "modify" },
+  { text: "I only want one of them", intent: "modify" },
+  { text: "Reduce the quantity to one", intent: "modify" },
+  { text: "I want to change the quantity", intent: "modify" },
+  { text: "Drop the phone cover from my order", intent: "modify" },
+  { text: "I'd like to modify my order", intent: "modify" },
+  { text: "Ek item hata do", intent: "modify" },
+  { text: "Quantity kam kar do", intent: "modify" },
+  { text: "Sirf ek hi piece chahiye", intent: "modify" },
+
+  { text: "Please stop calling me about this", intent: "opt_out" },
+  { text: "Never call me again", intent: "opt_out" },
+  { text: "Remove my number from your list", intent: "opt_out" },
+  { text: "Take my number off your calling list", intent: "opt_out" },
+  { text: "I don't want any more calls from you", intent: "opt_out" },
+  { text: "Is number pe call mat karo", intent: "opt_out" },
+  { text: "Humein call karna band karo", intent: "opt_out" },
+
+  { text: "Hello, who is this", intent: "unknown" },
+  { text: "Sorry, I can't hear you", intent: "unknown" },
+  { text: "Hmm", intent: "unknown" },
+  { text: "Wait a minute", intent: "unknown" },
+  { text: "What is the weather today", intent: "unknown" },
+  { text: "Kaun bol raha hai", intent: "unknown" },
+  { text: "Awaaz nahi aa rahi", intent: "unknown" },
+  { text: "Ek minute ruko", intent: "unknown" },
+
+  { text: "हाँ जी, भेज दीजिए", intent: "confirm" },
+  { text: "सब सही है, ऑर्डर कन्फ़र्म कर दो", intent: "confirm" },
+  { text: "कैंसल मत करो, भेज दो", intent: "confirm" },
+  { text: "कल भेज देना, आज घर पर नहीं हूँ", intent: "reschedule" },
+  { text: "मुझे यह ऑर्डर नहीं चाहिए", intent: "cancel" },
+  { text: "कुल कितना देना है", intent: "query" },
+  { text: "मुझे शिकायत करनी है", intent: "escalate" },
+  { text: "एक आइटम हटा दो", intent: "modify" },
+  { text: "इस नंबर पर कॉल मत करो", intent: "opt_out" },
+  { text: "कौन बोल रहा है", intent: "unknown" },
+
+  { text: "ஆமாம், அனுப்புங்கள்", intent: "confirm" },
+  { text: "சரி, ஆர்டரை உறுதிப்படுத்துங்கள்", intent: "confirm" },
+  { text: "ரத்து செய்ய வேண்டாம், அனுப்புங்கள்", intent: "confirm" },
+  { text: "நாளை அனுப்புங்கள், இன்று வீட்டில் இல்லை", intent: "reschedule" },
+  { text: "ஆர்டரை ரத்து செய்யுங்கள்", intent: "cancel" },
+  { text: "மொத்தம் எவ்வளவு", intent: "query" },
+  { text: "மேலாளரிடம் பேச வேண்டும்", intent: "escalate" },
+  { text: "ஒரு பொருளை நீக்குங்கள்", intent: "modify" },
+  { text: "என்னை மீண்டும் அழைக்க வேண்டாம்", intent: "opt_out" },
+  { text: "யார் பேசுகிறீர்கள்", intent: "unknown" },
+
+  { text: "అవును, పంపించండి", intent: "confirm" },
+  { text: "సరే, ఆర్డర్ కన్ఫర్మ్ చేయండి", intent: "confirm" },
+  { text: "రద్దు చేయకండి, పంపండి", intent: "confirm" },
+  { text: "రేపు పంపండి, ఈ రోజు ఇంట్లో లేను", intent: "reschedule" },
+  { text: "ఆర్డర్ రద్దు చేయండి", intent: "cancel" },
+  { text: "మొత్తం ఎంత", intent: "query" },
+  { text: "నాకు మేనేజర్ కావాలి", intent: "escalate" },
+  { text: "ఒక వస్తువు తీసివేయండి", intent: "modify" },
+  { text: "నాకు మళ్ళీ కాల్ చేయకండి", intent: "opt_out" },
+  { text: "ఎవరు మాట్లాడుతున్నారు", intent: "unknown" },
+
+  { text: "হ্যাঁ, পাঠিয়ে দিন", intent: "confirm" },
+  { text: "ঠিক আছে, অর্ডার কনফার্ম করুন", intent: "confirm" },
+  { text: "বাতিল করবেন না, পাঠিয়ে দিন", intent: "confirm" },
+  { text: "কাল পাঠান, আজ বাড়িতে নেই", intent: "reschedule" },
+  { text: "অর্ডারটা বাতিল করুন", intent: "cancel" },
+  { text: "মোট কত টাকা", intent: "query" },
+  { text: "ম্যানেজারের সাথে কথা বলতে চাই", intent: "escalate" },
+  { text: "একটা জিনিস বাদ দিন", intent: "modify" },
+  { text: "আমাকে আর ফোন করবেন না", intent: "opt_out" },
+  { text: "কে বলছেন", intent: "unknown" },
+];
+
+/** Held out from training; run through `evaluateClassifier` after rule or corpus edits. */
+export const EVALUATION_CORPUS: LabelledReply[] = [
+  { text: "Yes", intent: "confirm" },
+  { text: "Okay please", intent: "confirm" },
+  { text: "Yes that is all correct", intent: "confirm" },
+  { text: "Haan ji", intent: "confirm" },
+  { text: "Sab theek hai, bhej do", intent: "confirm" },
+  { text: "Please don't cancel", intent: "confirm" },
+  { text: "I don't want to cancel", intent: "confirm" },
+  { text: "No need to cancel, it's fine", intent: "confirm" },
+  { text: "Cancel mat karo", intent: "confirm" },
+
+  { text: "Could we deliver in a different slot", intent: "reschedule" },
+  { text: "Can you send it on Saturday instead", intent: "reschedule" },
+  { text: "I'm not at home today", intent: "reschedule" },
+  { text: "Kal shaam ko bhej dena", intent: "reschedule" },
+  { text: "Aaj nahi, weekend pe deliver karo", intent: "reschedule" },
+
+  { text: "Cancel it please", intent: "cancel" },
+  { text: "I don't want this order", intent: "cancel" },
+  { text: "I no longer need it", intent: "cancel" },
+  { text: "Nahi chahiye mujhe", intent: "cancel" },
+  { text: "Galti se order kiya tha, cancel karo", intent: "cancel" },
+
+  { text: "Can you tell me the payment details once more", intent: "query" },
+  { text: "How much is the total", intent: "query" },
+  { text: "Which payment method did I choose", intent: "query" },
+  { text: "Kitne ka order hai", intent: "query" },
+  { text: "Dobara batao please", intent: "query" },
+
+  { text: "Can I speak to a supervisor", intent: "escalate" },
+  { text: "I want to talk to someone senior", intent: "escalate" },
+  { text: "Senior se baat karni hai", intent: "escalate" },
+  { text: "Complaint register karna hai", intent: "escalate" },
+
+  { text: "Can I remove something from the order", intent: "modify" },
+  { text: "Make it just one piece", intent: "modify" },
+  { text: "Ek wala hata dijiye", intent: "modify" },
+  { text: "I want fewer of these", intent: "modify" },
+
+  { text: "Stop calling me", intent: "opt_out" },
+  { text: "Don't call this number again", intent: "opt_out" },
+  { text: "Take me off your calling list", intent: "opt_out" },
+  { text: "Mujhe dobara call mat karna", intent: "opt_out" },
+
+  { text: "Who is calling", intent: "unknown" },
+  { text: "Hello hello", intent: "unknown" },
+  { text: "Kya bola aapne", intent: "unknown" },
+
+  { text: "हाँ", intent: "confirm" },
+  { text: "ऑर्डर कैंसल कर दो", intent: "cancel" },
+  { text: "कैंसल मत करो", intent: "confirm" },
+  { text: "दूसरा स्लॉट दीजिए", intent: "reschedule" },
+  { text: "कितने का ऑर्डर है", intent: "query" },
+
+  { text: "ஆம்", intent: "confirm" },
+  { text: "ரத்து செய்யுங்கள்", intent: "cancel" },
+  { text: "வேறு நாளில் அனுப்புங்கள்", intent: "reschedule" },
+  { text: "எவ்வளவு பணம் கட்ட வேண்டும்", intent: "query" },
+
+  { text: "అవును", intent: "confirm" },
+  { text: "రద్దు చేయండి", intent: "cancel" },
+  { text: "వేరే రోజు పంపండి", intent: "reschedule" },
+  { text: "ఎంత చెల్లించాలి", intent: "query" },
+
+  { text: "হ্যাঁ", intent: "confirm" },
+  { text: "বাতিল করে দিন", intent: "cancel" },
+  { text: "অন্য দিন পাঠান", intent: "reschedule" },
+  { text: "কত টাকা দিতে হবে", intent: "query" },
+];
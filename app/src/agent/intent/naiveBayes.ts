@@ -0,0 +1,77 @@
+import { tokenize } from "@/agent/intent/tokenize";
+import type { LabelledReply, ReplyIntent } from "@/agent/intent/types";
+
+export type NaiveBayesModel = {
+  intents: ReplyIntent[];
+  logPriors: Record<string, number>;
+  tokenCounts: Record<string, Record<string, number>>;
+  totalTokens: Record<string, number>;
+  vocabularySize: number;
+};
+
+export const trainNaiveBayes = (examples: LabelledReply[]): NaiveBayesModel => {
+  const intents = [...new Set(examples.map((example) => example.intent))];
+  const documentCounts: Record<string, number> = {};
+  const tokenCounts: Record<string, Record<string, number>> = {};
+  const totalTokens: Record<string, number> = {};
+  const vocabulary = new Set<string>();
+
+  intents.forEach((intent) => {
+    documentCounts[intent] = 0;
+    tokenCounts[intent] = {};
+    totalTokens[intent] = 0;
+  });
+
+  examples.forEach(({ text, intent }) => {
+    documentCounts[intent] += 1;
+    tokenize(text).forEach((token) => {
+      vocabulary.add(token);
+      tokenCounts[intent][token] = (tokenCounts[intent][token] ?? 0) + 1;
+      totalTokens[intent] += 1;
+    });
+  });
+
+  const logPriors = Object.fromEntries(
+    intents.map((intent) => [
+      intent,
+      Math.log(documentCounts[intent] / examples.length),
+    ])
+  );
+
+  return {
+    intents,
+    logPriors,
+    tokenCounts,
+    totalTokens,
+    vocabularySize: vocabulary.size,
+  };
+};
+
+/** Posterior probability per intent, Laplace-smoothed over the vocabulary. */
+export const predictNaiveBayes = (
+  model: NaiveBayesModel,
+  text: string
+): { intent: ReplyIntent; probability: number }[] => {
+  const tokens = tokenize(text);
+  const scores = model.intents.map((intent) => {
+    const denominator = model.totalTokens[intent] + model.vocabularySize;
+    const logLikelihood = tokens.reduce(
+      (sum, token) =>
+        sum +
+        Math.log(((model.tokenCounts[intent][token] ?? 0) + 1) / denominator),
+      0
+    );
+    return { intent, score: model.logPriors[intent] + logLikelihood };
+  });
+
+  const best = Math.max(...scores.map(({ score }) => score));
+  const weights = scores.map(({ intent, score }) => ({
+    intent,
+    weight: Math.exp(score - best),
+  }));
+  const total = weights.reduce((sum, { weight }) => sum + weight, 0);
+
+  return weights
+    .map(({ intent, weight }) => ({ intent, probability: weight / total }))
+    .sort((a, b) => b.probability - a.probability);
+};
@@ -0,0 +1,198 @@
+import type { SupportedLocale } from "@/agent/i18n/locales";
+import type { ReplyIntent } from "@/agent/intent/types";
+
+type IntentRule = {
+  intent: ReplyIntent;
+  pattern: RegExp;
+  /** Negations of the phrase, such as "don't cancel", which must not match. */
+  unless?: RegExp;
+};
+
+/**
+ * High-precision phrasings that settle a reply without consulting the model.
+ * Anything ambiguous belongs in the corpus instead.
+ */
+export const INTENT_RULES: IntentRule[] = [
+  {
+    intent: "opt_out",
+    pattern:
+      /\b(stop|quit) (calling|phoning|ringing)( me)?\b|\bnever (call|ring|phone) (me|this number)\b|\b(do ?n[o']?t|dont) (call|ring|phone) (me|this number) (again|any ?more|ever)\b|\b(remove|take) my (phone )?number\b|\bdo not disturb\b|\bcall (mat|na) kar(o|na|iye)\b|\bphone mat kar(o|na|iye)\b|\b(call|phone) karna band\b/i,
+  },
+  {
+    intent: "escalate",
+    pattern:
+      /\b(talk|speak|connect)\b.*\b(human|person|manager|supervisor|senior|someone)\b|\b(senior|manager|supervisor)\b.*\bbaat\b|\bcustomer care\b/i,
+  },
+  {
+    intent: "cancel",
+    pattern:
+      /\b(cancel|cancell?ed)\b|\b(do ?n[o']?t|dont) want (it|this|the order)\b|\bnahi chahiye\b|\bmat bhejo\b|\bband karo\b/i,
+    unless:
+      /\b(do ?n[o']?t|dont|never|won'?t|no need to|not going to) (want to |need to |have to )?cancel\b|\bcancel (mat|na|nahi) kar|\bcancel nahi\b/i,
+  },
+  {
+    intent: "reschedule",
+    pattern:
+      /\b(reschedule|re-schedule|another slot|different slot|other slot|change (the )?(slot|time|date|delivery))\b|\b(kal|parso) (bhejo|deliver|dena)\b|\bslot badal\b/i,
+  },
+  {
+    intent: "modify",
+    pattern:
+      /\b(remove|take out|reduce|fewer|modify|edit (the |my )?order|change (the )?quantit(y|ies)|(only|just) (one|1|two|2|three|3))\b|\bhata (do|dijiye|dena)\b|\bkam kar\b/i,
+  },
+  {
+    intent: "query",
+    pattern:
+      /\b(how much|payment details|payment method|total amount|kitna|kitne ka|repeat (that|it)|say (that|it) again|dobara batao)\b/i,
+  },
+  {
+    intent: "confirm",
+    pattern:
+      /^(yes|yeah|yep|yup|sure|ok|okay|correct|confirm(ed)?|haan|haan ji|ha ji|ji haan|theek hai|thik hai|bilkul)\b[\s,.!]*(please|ji|go ahead|bhej do|kar do)?[\s.!]*$/i,
+  },
+];
+
+const BREAK = "[\\s,.!?।]";
+
+/**
+ * `\b` only knows ASCII letters, so a phrase in an Indian script must start
+ * the reply or follow a space instead. It may run on into a suffix, since
+ * Tamil and Telugu join endings onto the word.
+ */
+const phrases = (...alternatives: string[]) =>
+  new RegExp(`(?:^|${BREAK})(?:${alternatives.join("|")})`.normalize(), "u");
+
+/** The whole reply is a yes, optionally followed by "send it" or similar. */
+const onlyYes = (yes: string[], then: string[]) => {
+  const tail = `(?:(?:${then.join("|")})${BREAK}*)?`;
+  return new RegExp(`^(?:${yes.join("|")})${BREAK}*${tail}$`.normalize(), "u");
+};
+
+/** The same intents for customers who answer in their own script. */
+export const LOCALE_RULES: Record<
+  Exclude<SupportedLocale, "en-IN">,
+  IntentRule[]
+> = {
+  "hi-IN": [
+    {
+      intent: "opt_out",
+      pattern: phrases("(कॉल|फ़ोन|फोन) (मत|ना) कर", "(कॉल|फ़ोन|फोन) करना बंद"),
+    },
+    { intent: "escalate", pattern: phrases("सीनियर", "मैनेजर", "शिकायत") },
+    {
+      intent: "cancel",
+      pattern: phrases("कैंसल", "रद्द", "नहीं चाहिए", "मत भेज"),
+      unless: phrases("(कैंसल|रद्द) (मत|ना|नहीं)"),
+    },
+    {
+      intent: "reschedule",
+      pattern: phrases(
+        "कल भेज",
+        "बाद में भेज",
+        "दूसरा स्लॉट",
+        "(स्लॉट|समय) बदल"
+      ),
+    },
+    { intent: "modify", pattern: phrases("हटा (दो|दीजिए|देना)", "कम कर") },
+    {
+      intent: "query",
+      pattern: phrases("कितना", "कितने", "(दोबारा|फिर से) बता"),
+    },
+    {
+      intent: "confirm",
+      pattern: onlyYes(
+        ["हाँ", "हां", "जी हाँ", "जी हां", "ठीक है", "बिल्कुल", "सही है"],
+        ["जी", "भेज दो", "भेज दीजिए", "कर दो"]
+      ),
+    },
+  ],
+  "ta-IN": [
+    {
+      intent: "opt_out",
+      pattern: phrases("(அழைக்க|கால் செய்ய) வேண்டாம்", "அழைக்காதீர்கள்"),
+    },
+    { intent: "escalate", pattern: phrases("மேலாளர", "மேனேஜர", "புகார") },
+    {
+      intent: "cancel",
+      pattern: phrases("ரத்து", "கேன்சல்", "ஆர்டர் வேண்டாம்"),
+      unless: phrases("(ரத்து|கேன்சல்) (செய்ய|பண்ண) வேண்டாம்"),
+    },
+    {
+      intent: "reschedule",
+      pattern: phrases("நாளை", "வேறு (நாள|நேர)", "(நேரத்தை|தேதியை) மாற்ற"),
+    },
+    { intent: "modify", pattern: phrases("நீக்கு", "குறைக்க", "குறைத்து") },
+    { intent: "query", pattern: phrases("எவ்வளவு", "மீண்டும் சொல்") },
+    {
+      intent: "confirm",
+      pattern: onlyYes(
+        ["ஆம்", "ஆமாம்", "சரி", "ஓகே"],
+        ["அனுப்புங்கள்", "உறுதிப்படுத்துங்கள்"]
+      ),
+    },
+  ],
+  "te-IN": [
+    {
+      intent: "opt_out",
+      pattern: phrases("(కాల్|ఫోన్) చేయ(కండి|వద్దు|కు)"),
+    },
+    { intent: "escalate", pattern: phrases("మేనేజర", "సీనియర", "ఫిర్యాదు") },
+    {
+      intent: "cancel",
+      pattern: phrases("రద్దు", "క్యాన్సిల", "ఆర్డర్ వద్దు"),
+      unless: phrases("(రద్దు|క్యాన్సిల్) (చేయకండి|చేయవద్దు|వద్దు)"),
+    },
+    {
+      intent: "reschedule",
+      pattern: phrases(
+        "రేపు",
+        "వేరే (రోజు|సమయం|టైమ)",
+        "(సమయం|టైమ్|స్లాట్) మార్చ"
+      ),
+    },
+    { intent: "modify", pattern: phrases("తీసివేయ", "తీసేయ", "తగ్గించ") },
+    { intent: "query", pattern: phrases("ఎంత", "మళ్ళీ చెప్ప") },
+    {
+      intent: "confirm",
+      pattern: onlyYes(
+        ["అవును", "ఔను", "సరే", "ఓకే"],
+        ["పంపండి", "పంపించండి", "కన్ఫర్మ్ చేయండి"]
+      ),
+    },
+  ],
+  "bn-IN": [
+    {
+      intent: "opt_out",
+      pattern: phrases("(ফোন|কল) করবেন না", "(ফোন|কল) করা বন্ধ"),
+    },
+    { intent: "escalate", pattern: phrases("ম্যানেজার", "সিনিয়র", "অভিযোগ") },
+    {
+      intent: "cancel",
+      pattern: phrases("বাতিল", "ক্যানসেল", "চাই না", "পাঠাবেন না"),
+      unless: phrases("(বাতিল|ক্যানসেল) করবেন না"),
+    },
+    {
+      intent: "reschedule",
+      pattern: phrases("কাল পাঠা", "পরে পাঠা", "অন্য দিন", "(স্লট|দিন) বদল"),
+    },
+    { intent: "modify", pattern: phrases("বাদ দিন", "বাদ দাও", "কমিয়ে") },
+    { intent: "query", pattern: phrases("কত", "আবার বলুন") },
+    {
+      intent: "confirm",
+      pattern: onlyYes(
+        ["হ্যাঁ", "হাঁ", "ঠিক আছে", "অবশ্যই"],
+        ["পাঠান", "পাঠিয়ে দিন"]
+      ),
+    },
+  ],
+};
+
+const ALL_RULES = [...INTENT_RULES, ...Object.values(LOCALE_RULES).flat()];
+
+export const matchRules = (text: string): ReplyIntent[] => {
+  const reply = text.normalize();
+  const matched = ALL_RULES.filter(
+    ({ pattern, unless }) => pattern.test(reply) && !unless?.test(reply)
+  ).map(({ intent }) => intent);
+  return [...new Set(matched)];
+};
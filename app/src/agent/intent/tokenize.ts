@@ -0,0 +1,24 @@
+/**
+ * Letters and digits the model learns from: Latin, and the Devanagari,
+ * Bengali, Tamil and Telugu blocks whole, so vowel signs and viramas stay
+ * inside their word.
+ */
+const NOT_A_WORD =
+  /[^a-z0-9\u0900-\u097F\u0980-\u09FF\u0B80-\u0BFF\u0C00-\u0C7F]+/u;
+
+export const tokenize = (text: string): string[] => {
+  const words = text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    // Full stops in Devanagari and Bengali text, not letters.
+    .replace(/[।॥]/g, " ")
+    .split(NOT_A_WORD)
+    .filter(Boolean);
+
+  const bigrams = words
+    .slice(1)
+    .map((word, index) => `${words[index]}_${word}`);
+
+  return [...words, ...bigrams];
+};
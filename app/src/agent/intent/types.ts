@@ -0,0 +1,17 @@
+import type { CustomerIntent } from "@/agent/types";
+
+export type ReplyIntent = CustomerIntent | "unknown";
+
+export type LabelledReply = {
+  text: string;
+  intent: ReplyIntent;
+};
+
+export type IntentClassification = {
+  /** `"unknown"` whenever the best guess falls below the confidence threshold. */
+  intent: ReplyIntent;
+  /** The best guess before thresholding, kept for logging and review. */
+  candidate: ReplyIntent;
+  confidence: number;
+  source: "rule" | "model";
+};
@@ -0,0 +1,52 @@
+import type { MonitorChannel, MonitorMessage } from "@/agent/monitor/types";
+
+const CHANNEL_NAME = "order-call-monitor";
+
+/**
+ * Connects the tabs of one browser on one machine. A supervisor in another
+ * browser or on another computer sees nothing; that needs a server relay.
+ * Without `BroadcastChannel` (or on the server) the channel is silent, so the
+ * console works unmonitored.
+ */
+export const createBroadcastMonitorChannel = (): MonitorChannel => {
+  if (
+    typeof window === "undefined" ||
+    typeof BroadcastChannel === "undefined"
+  ) {
+    return {
+      post: () => undefined,
+      subscribe: () => () => undefined,
+      close: () => undefined,
+    };
+  }
+
+  const listeners = new Set<(message: MonitorMessage) => void>();
+  let channel: BroadcastChannel | null = null;
+
+  // Opened on first use, so a component can close it on unmount and get it
+  // back when it mounts again.
+  const open = () => {
+    if (!channel) {
+      channel = new BroadcastChannel(CHANNEL_NAME);
+      channel.onmessage = (event: MessageEvent<MonitorMessage>) => {
+        listeners.forEach((listener) => listener(event.data));
+      };
+    }
+    return channel;
+  };
+
+  return {
+    post: (message) => open().postMessage(message),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      open();
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close: () => {
+      channel?.close();
+      channel = null;
+    },
+  };
+};
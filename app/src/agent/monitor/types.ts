@@ -0,0 +1,49 @@
+import type { CallOutcome, CallState, ConversationEntry } from "@/agent/types";
+
+/** Who is talking to the customer: the scripted agent or a supervisor. */
+export type CallControl = "agent" | "supervisor";
+
+/** Outcomes a supervisor can close a taken-over call with. */
+export const SUPERVISOR_WRAP_UPS = [
+  "confirmed",
+  "cancelled",
+  "needs_support",
+] as const satisfies readonly CallOutcome[];
+
+export type SupervisorWrapUp = (typeof SUPERVISOR_WRAP_UPS)[number];
+
+/** What the console shares about a call while it is in flight. */
+export type LiveCall = {
+  callId: string;
+  orderId: string;
+  customerName: string;
+  phoneNumber: string;
+  callState: CallState;
+  nodeId: string | null;
+  control: CallControl;
+  startedAt: string;
+  updatedAt: string;
+  conversation: ConversationEntry[];
+};
+
+export type MonitorMessage =
+  | { type: "call_update"; call: LiveCall }
+  | { type: "call_ended"; callId: string }
+  /** Sent by a monitor that just opened so consoles republish their calls. */
+  | { type: "roll_call" }
+  | { type: "whisper"; callId: string; message: string }
+  | { type: "take_over"; callId: string }
+  | { type: "supervisor_line"; callId: string; message: string }
+  | { type: "hand_back"; callId: string }
+  | { type: "wrap_up"; callId: string; outcome: SupervisorWrapUp };
+
+/**
+ * Carries live call updates from consoles to monitors and supervisor
+ * commands back. Every tab on the channel sees every message.
+ */
+export type MonitorChannel = {
+  post: (message: MonitorMessage) => void;
+  subscribe: (listener: (message: MonitorMessage) => void) => () => void;
+  /** Releases the connection; posting or subscribing again reopens it. */
+  close: () => void;
+};
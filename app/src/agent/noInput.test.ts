@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from "vitest";
+import { createVirtualClock } from "@/agent/clock";
+import { createNoInputTimer } from "@/agent/noInput";
+
+const setup = () => {
+  const clock = createVirtualClock();
+  const timer = createNoInputTimer(
+    { timeoutMs: 1_000, maxReprompts: 2 },
+    clock
+  );
+  const handlers = { onReprompt: vi.fn(), onGiveUp: vi.fn() };
+  return { clock, timer, handlers };
+};
+
+describe("createNoInputTimer", () => {
+  it("reprompts once the silence reaches the timeout", () => {
+    const { clock, timer, handlers } = setup();
+    timer.arm(handlers);
+
+    clock.advance(999);
+    expect(handlers.onReprompt).not.toHaveBeenCalled();
+
+    clock.advance(1);
+    expect(handlers.onReprompt).toHaveBeenCalledWith(1);
+    expect(handlers.onGiveUp).not.toHaveBeenCalled();
+  });
+
+  it("gives up after the last reprompt goes unanswered", () => {
+    const { clock, timer, handlers } = setup();
+    for (let silence = 0; silence < 3; silence += 1) {
+      timer.arm(handlers);
+      clock.advance(1_000);
+    }
+
+    expect(handlers.onReprompt.mock.calls).toEqual([[1], [2]]);
+    expect(handlers.onGiveUp).toHaveBeenCalledTimes(1);
+  });
+
+  it("starts the count over when the customer speaks", () => {
+    const { clock, timer, handlers } = setup();
+    timer.arm(handlers);
+    clock.advance(1_000);
+    timer.arm(handlers);
+    clock.advance(1_000);
+    timer.heard();
+
+    timer.arm(handlers);
+    clock.advance(1_000);
+
+    expect(handlers.onReprompt.mock.calls).toEqual([[1], [2], [1]]);
+    expect(handlers.onGiveUp).not.toHaveBeenCalled();
+  });
+
+  it("does nothing once disarmed", () => {
+    const { clock, timer, handlers } = setup();
+    timer.arm(handlers);
+    timer.disarm();
+    clock.advance(5_000);
+
+    expect(handlers.onReprompt).not.toHaveBeenCalled();
+    expect(clock.pending()).toBe(0);
+  });
+
+  it("keeps a single silence clock when armed twice", () => {
+    const { clock, timer, handlers } = setup();
+    timer.arm(handlers);
+    clock.advance(500);
+    timer.arm(handlers);
+    clock.advance(500);
+
+    expect(handlers.onReprompt).not.toHaveBeenCalled();
+    clock.advance(500);
+    expect(handlers.onReprompt).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { Clock, systemClock } from "@/agent/clock";
+
+export type NoInputOptions = {
+  /** Silence, in milliseconds, before the agent prompts again. */
+  timeoutMs: number;
+  /** Silent reprompts before the call ends with a `no_response` outcome. */
+  maxReprompts: number;
+};
+
+export const DEFAULT_NO_INPUT: NoInputOptions = {
+  timeoutMs: 8_000,
+  maxReprompts: 2,
+};
+
+export type NoInputHandlers = {
+  onReprompt: (attempt: number) => void;
+  onGiveUp: () => void;
+};
+
+/**
+ * Counts silences while the agent waits for a reply. Each timeout either asks
+ * for a reprompt or, once `maxReprompts` have gone unanswered, gives up.
+ */
+export const createNoInputTimer = (
+  { timeoutMs, maxReprompts }: NoInputOptions,
+  clock: Clock = systemClock
+) => {
+  let cancel: (() => void) | null = null;
+  let reprompts = 0;
+
+  const disarm = () => {
+    cancel?.();
+    cancel = null;
+  };
+
+  return {
+    /** Starts the silence clock; call each time the agent stops and waits. */
+    arm: ({ onReprompt, onGiveUp }: NoInputHandlers) => {
+      disarm();
+      cancel = clock.schedule(() => {
+        cancel = null;
+        if (reprompts >= maxReprompts) {
+          onGiveUp();
+          return;
+        }
+        reprompts += 1;
+        onReprompt(reprompts);
+      }, timeoutMs);
+    },
+    disarm,
+    /** The customer said something, so the silence count starts over. */
+    heard: () => {
+      disarm();
+      reprompts = 0;
+    },
+  };
+};
+
+export type NoInputTimer = ReturnType<typeof createNoInputTimer>;
@@ -0,0 +1,140 @@
+import type { RiskAssessment } from "@/agent/risk";
+import { ORDER_STATUSES, OrderRecord } from "@/agent/types";
+
+export const ORDER_SORTS = ["risk", "total", "age"] as const;
+
+export type OrderSort = (typeof ORDER_SORTS)[number];
+
+export const ORDER_SORT_LABELS: Record<OrderSort, string> = {
+  risk: "Risk",
+  total: "Total",
+  age: "Age",
+};
+
+export type SortDirection = "asc" | "desc";
+
+export type OrderQueueFilters = {
+  query: string;
+  status: OrderRecord["status"] | "all";
+  paymentMethod: string;
+  minTotal: number | null;
+  maxTotal: number | null;
+  sort: OrderSort;
+  direction: SortDirection;
+  /** Zero-based page of `ORDER_PAGE_SIZE` orders. */
+  page: number;
+};
+
+export const ORDER_PAGE_SIZE = 25;
+
+export const DEFAULT_QUEUE_FILTERS: OrderQueueFilters = {
+  query: "",
+  status: "all",
+  paymentMethod: "all",
+  minTotal: null,
+  maxTotal: null,
+  sort: "risk",
+  direction: "desc",
+  page: 0,
+};
+
+const toAmount = (value: string | null) => {
+  if (value === null || value.trim() === "") return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+/** Reads filters from the page URL, ignoring anything malformed. */
+export const parseQueueFilters = (
+  params: Pick<URLSearchParams, "get">
+): OrderQueueFilters => {
+  const status = params.get("status");
+  const sort = params.get("sort");
+  const page = Number(params.get("page"));
+
+  return {
+    query: params.get("q") ?? "",
+    status: ORDER_STATUSES.includes(status as OrderRecord["status"])
+      ? (status as OrderRecord["status"])
+      : "all",
+    paymentMethod: params.get("payment") ?? "all",
+    minTotal: toAmount(params.get("min")),
+    maxTotal: toAmount(params.get("max")),
+    sort: ORDER_SORTS.includes(sort as OrderSort)
+      ? (sort as OrderSort)
+      : DEFAULT_QUEUE_FILTERS.sort,
+    direction: params.get("dir") === "asc" ? "asc" : "desc",
+    page: Number.isInteger(page) && page > 1 ? page - 1 : 0,
+  };
+};
+
+/** Writes filters back as URL params, leaving defaults out. */
+export const serializeQueueFilters = (filters: OrderQueueFilters) => {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set("q", filters.query);
+  if (filters.status !== "all") params.set("status", filters.status);
+  if (filters.paymentMethod !== "all") {
+    params.set("payment", filters.paymentMethod);
+  }
+  if (filters.minTotal !== null) params.set("min", String(filters.minTotal));
+  if (filters.maxTotal !== null) params.set("max", String(filters.maxTotal));
+  if (filters.sort !== DEFAULT_QUEUE_FILTERS.sort) {
+    params.set("sort", filters.sort);
+  }
+  if (filters.direction !== DEFAULT_QUEUE_FILTERS.direction) {
+    params.set("dir", filters.direction);
+  }
+  if (filters.page > 0) params.set("page", String(filters.page + 1));
+  return params;
+};
+
+const digitsOnly = (value: string) => value.replace(/\D/g, "");
+
+const matchesQuery = (order: OrderRecord, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  const digits = digitsOnly(needle);
+  return (
+    order.id.toLowerCase().includes(needle) ||
+    order.customerName.toLowerCase().includes(needle) ||
+    (digits.length >= 3 && digitsOnly(order.phoneNumber).includes(digits))
+  );
+};
+
+/**
+ * Filters and sorts the queue. Orders carry no placement time, so age sorts
+ * by position in the order feed, which lists the oldest first.
+ */
+export const queryOrders = (
+  orders: OrderRecord[],
+  filters: OrderQueueFilters,
+  assessments: Map<string, RiskAssessment>
+) => {
+  const position = new Map(orders.map((order, index) => [order.id, index]));
+  const sortKey: Record<OrderSort, (order: OrderRecord) => number> = {
+    risk: (order) => assessments.get(order.id)?.score ?? 0,
+    total: (order) => order.total,
+    age: (order) => -(position.get(order.id) ?? 0),
+  };
+  const key = sortKey[filters.sort];
+  const sign = filters.direction === "asc" ? 1 : -1;
+
+  return orders
+    .filter(
+      (order) =>
+        (filters.status === "all" || order.status === filters.status) &&
+        (filters.paymentMethod === "all" ||
+          order.paymentMethod === filters.paymentMethod) &&
+        (filters.minTotal === null || order.total >= filters.minTotal) &&
+        (filters.maxTotal === null || order.total <= filters.maxTotal) &&
+        matchesQuery(order, filters.query)
+    )
+    .sort(
+      (a, b) =>
+        sign * (key(a) - key(b)) ||
+        (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0)
+    );
+};
+
+export const pageCount = (total: number) =>
+  Math.max(1, Math.ceil(total / ORDER_PAGE_SIZE));
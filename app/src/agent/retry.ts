@@ -0,0 +1,224 @@
+import { refundPlan } from "@/agent/cancellation";
+import type { SupportedLocale } from "@/agent/i18n/locales";
+import type { OrderRecord, UnreachableOutcome } from "@/agent/types";
+import { SLOT_WINDOWS } from "@/fixtures/deliverySlots";
+
+const TIME_ZONE = "Asia/Kolkata";
+// India has no daylight saving, so wall-clock hours are a fixed offset.
+const IST_OFFSET_MS = 330 * 60_000;
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Customers are only called while deliveries run, 9AM to 9PM in India. */
+export const CALLING_HOURS = {
+  startHour: SLOT_WINDOWS[0].startHour,
+  endHour: SLOT_WINDOWS[SLOT_WINDOWS.length - 1].endHour,
+};
+
+/** Wait before the first retry; later retries multiply it by the backoff. */
+export const RETRY_AFTER_MS: Record<UnreachableOutcome, number> = {
+  busy: 15 * 60_000,
+  dropped: 10 * 60_000,
+  no_answer: 60 * 60_000,
+  voicemail: 2 * 60 * 60_000,
+  no_response: 30 * 60_000,
+};
+
+export type RetryPolicy = {
+  /** Failed calls, including the first, before the order stops being retried. */
+  maxAttempts: number;
+  backoffFactor: number;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  backoffFactor: 2,
+};
+
+/** Used when the customer asks for a call later without saying when. */
+const DEFAULT_CALLBACK_DELAY_MS = 2 * HOUR_MS;
+
+/** Midnight in India on the day `at` falls on. */
+const indianMidnight = (at: number) => at - ((at + IST_OFFSET_MS) % DAY_MS);
+
+/** The first moment at or after `at` that falls inside calling hours. */
+export const nextCallingTime = (at: number) => {
+  const midnight = indianMidnight(at);
+  const opens = midnight + CALLING_HOURS.startHour * HOUR_MS;
+  const closes = midnight + CALLING_HOURS.endHour * HOUR_MS;
+  if (at < opens) return opens;
+  if (at >= closes) return opens + DAY_MS;
+  return at;
+};
+
+export const isWithinCallingHours = (at: number) => nextCallingTime(at) === at;
+
+export const retryDelayMs = (
+  outcome: UnreachableOutcome,
+  attempt: number,
+  policy = DEFAULT_RETRY_POLICY
+) => RETRY_AFTER_MS[outcome] * policy.backoffFactor ** (attempt - 1);
+
+/**
+ * Settles an order nobody could reach. Cash on delivery orders are cancelled
+ * since nothing was charged; prepaid ones stay with the team to follow up.
+ */
+export const exhaustRetries = (
+  order: OrderRecord,
+  now = Date.now()
+): OrderRecord => ({
+  ...order,
+  status: refundPlan(order) ? "requires_followup" : "cancelled",
+  retryAfter: undefined,
+  retriesExhaustedAt: new Date(now).toISOString(),
+});
+
+/**
+ * Records a call that did not reach the customer and books the next attempt,
+ * waiting longer each time and never outside calling hours.
+ */
+export const scheduleFollowUp = (
+  order: OrderRecord,
+  outcome: UnreachableOutcome,
+  now = Date.now(),
+  policy = DEFAULT_RETRY_POLICY
+): OrderRecord => {
+  const callAttempts = (order.callAttempts ?? 0) + 1;
+  if (callAttempts >= policy.maxAttempts) {
+    return exhaustRetries({ ...order, callAttempts }, now);
+  }
+  return {
+    ...order,
+    status: "requires_followup",
+    callAttempts,
+    retryAfter: new Date(
+      nextCallingTime(now + retryDelayMs(outcome, callAttempts, policy))
+    ).toISOString(),
+  };
+};
+
+/** The customer was reached, so earlier failed attempts stop counting. */
+export const clearRetries = (order: OrderRecord): OrderRecord => ({
+  ...order,
+  callAttempts: undefined,
+  retryAfter: undefined,
+});
+
+/** The customer was reached and asked for a call at `at` instead. */
+export const scheduleCallback = (
+  order: OrderRecord,
+  at: string
+): OrderRecord => ({
+  ...order,
+  status: "requires_followup",
+  callAttempts: 0,
+  retryAfter: new Date(nextCallingTime(Date.parse(at))).toISOString(),
+});
+
+/**
+ * The earliest an order may be dialled: never before its booked retry and
+ * always within calling hours.
+ */
+export const nextDialTime = (order: OrderRecord, now = Date.now()) =>
+  nextCallingTime(
+    order.retryAfter ? Math.max(now, Date.parse(order.retryAfter)) : now
+  );
+
+export const isRetryDue = (order: OrderRecord, now = Date.now()) =>
+  order.status === "requires_followup" &&
+  Boolean(order.retryAfter) &&
+  Date.parse(order.retryAfter!) <= now &&
+  isWithinCallingHours(now);
+
+/** Orders waiting for another attempt, soonest first. */
+export const listPendingRetries = (orders: OrderRecord[]) =>
+  orders
+    .filter((order) => order.status === "requires_followup" && order.retryAfter)
+    .sort((a, b) => a.retryAfter!.localeCompare(b.retryAfter!));
+
+const CALLBACK_REQUEST =
+  /\b(call|ring|phone)( me)? (back|later|again)\b|\bcall ?back\b|\b(call|ring|phone) me (tomorrow|tonight|in|at|after|around|this|next)\b|\b(baad mein|phir se|dobara) (call|phone)\b|\b(call|phone) (karna|kariye|karo|kijiye)\b/i;
+
+/** "Don't call me again" is an opt-out, not a request for a call back. */
+const REFUSAL =
+  /\b(do ?n[o']?t|dont|never|stop) (call|ring|phone)|\b(call|phone) mat\b|\b(call|phone) karna band\b/i;
+
+const RELATIVE = /\bin (\d+|an?|half an?) (hours?|hrs?|minutes?|mins?)\b/i;
+
+const CLOCK_TIME =
+  /\b(?:at|around|by)?\s*(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.|baje|o'?clock)?\b/i;
+
+const TOMORROW = /\b(tomorrow|kal)\b/i;
+const EVENING = /\b(evening|night|shaam|raat)\b/i;
+const MORNING = /\b(morning|subah)\b/i;
+const AFTERNOON = /\b(afternoon|dopahar)\b/i;
+
+/** Reads "6" as the hour within calling hours, so 6 is 6PM and 10 is 10AM. */
+const toHour = (hour: number, meridiem: string | undefined, text: string) => {
+  const marker = meridiem?.toLowerCase().replace(/\./g, "");
+  if (marker === "pm" || (!marker?.startsWith("a") && EVENING.test(text))) {
+    return hour < 12 ? hour + 12 : hour;
+  }
+  if (marker === "am" || MORNING.test(text)) return hour === 12 ? 0 : hour;
+  return hour < CALLING_HOURS.startHour ? hour + 12 : hour;
+};
+
+/**
+ * Reads a request to be called later, such as "call me back at 6", "call me
+ * tomorrow morning" or "in 2 hours". Returns when to call, moved into calling
+ * hours, or `null` if the customer did not ask for a call back.
+ */
+export const parseCallbackRequest = (
+  utterance: string,
+  now = Date.now()
+): string | null => {
+  if (!CALLBACK_REQUEST.test(utterance) || REFUSAL.test(utterance)) {
+    return null;
+  }
+
+  const relative = RELATIVE.exec(utterance);
+  if (relative) {
+    const [, amount, unit] = relative;
+    const count = /^\d+$/.test(amount)
+      ? Number(amount)
+      : /half/i.test(amount)
+      ? 0.5
+      : 1;
+    const unitMs = /^h/i.test(unit) ? HOUR_MS : MINUTE_MS;
+    return new Date(nextCallingTime(now + count * unitMs)).toISOString();
+  }
+
+  const tomorrow = TOMORROW.test(utterance);
+  const midnight = indianMidnight(now) + (tomorrow ? DAY_MS : 0);
+  const time = CLOCK_TIME.exec(utterance.replace(RELATIVE, ""));
+  const hour = time ? Number(time[1]) : null;
+
+  let at: number;
+  if (hour !== null && hour >= 1 && hour <= 12) {
+    at =
+      midnight +
+      toHour(hour, time![3], utterance) * HOUR_MS +
+      Number(time![2] ?? 0) * MINUTE_MS;
+  } else if (EVENING.test(utterance)) {
+    at = midnight + 18 * HOUR_MS;
+  } else if (AFTERNOON.test(utterance)) {
+    at = midnight + 14 * HOUR_MS;
+  } else if (MORNING.test(utterance) || tomorrow) {
+    at = midnight + 10 * HOUR_MS;
+  } else {
+    at = now + DEFAULT_CALLBACK_DELAY_MS;
+  }
+
+  // "At 6" said after six means six tomorrow.
+  if (at <= now) at += DAY_MS;
+  return new Date(nextCallingTime(at)).toISOString();
+};
+
+export const formatCallbackTime = (at: string, locale: SupportedLocale) =>
+  new Intl.DateTimeFormat(locale, {
+    weekday: "long",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: TIME_ZONE,
+  }).format(new Date(at));
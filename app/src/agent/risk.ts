@@ -0,0 +1,160 @@
+import { lookupPincode } from "@/agent/address";
+import { extractPincode } from "@/agent/slots";
+import type { OrderRecord } from "@/agent/types";
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export type RiskReason = { id: string; label: string; points: number };
+
+export type RiskAssessment = {
+  /** 0–100; higher means the order is more likely to fail or be fraudulent. */
+  score: number;
+  level: RiskLevel;
+  reasons: RiskReason[];
+};
+
+/** What other orders placed from the same phone number tell us. */
+export type CustomerHistory = {
+  orders: number;
+  confirmed: number;
+  cancelled: number;
+};
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  low: "Low risk",
+  medium: "Medium risk",
+  high: "High risk",
+};
+
+/** Scores at or above these bounds make an order medium or high risk. */
+export const RISK_THRESHOLDS = { medium: 20, high: 50 };
+
+const RESALE_PRONE_ITEMS =
+  /\b(i?phone|smartphone|laptop|macbook|tablet|ipad|smart ?watch|gold|gift ?card|console|playstation|camera)\b/i;
+
+type RiskRule = {
+  id: string;
+  label: string;
+  points: (order: OrderRecord, history: CustomerHistory) => number;
+};
+
+const RISK_RULES: RiskRule[] = [
+  {
+    id: "cash_on_delivery",
+    label: "Cash on delivery",
+    points: (order) => (/cash|cod/i.test(order.paymentMethod) ? 25 : 0),
+  },
+  {
+    id: "high_value",
+    label: "High order value",
+    points: ({ total }) => (total >= 25_000 ? 30 : total >= 10_000 ? 20 : 0),
+  },
+  {
+    id: "resale_prone_items",
+    label: "Contains easily resold items",
+    points: ({ items }) =>
+      items.some((item) => RESALE_PRONE_ITEMS.test(item.name)) ? 15 : 0,
+  },
+  {
+    id: "bulk_quantity",
+    label: "Unusually large quantity of one item",
+    points: ({ items }) => (items.some((item) => item.quantity >= 5) ? 10 : 0),
+  },
+  {
+    id: "first_order",
+    label: "First order from this number",
+    points: (_order, { orders }) => (orders === 0 ? 10 : 0),
+  },
+  {
+    id: "repeated_cancels",
+    label: "Number has cancelled orders before",
+    points: (_order, { cancelled }) =>
+      cancelled >= 2 ? 30 : cancelled === 1 ? 15 : 0,
+  },
+  {
+    id: "trusted_customer",
+    label: "Several confirmed orders from this number",
+    points: (_order, { confirmed, cancelled }) =>
+      confirmed >= 2 && cancelled === 0 ? -15 : 0,
+  },
+  {
+    id: "unknown_pincode",
+    label: "Pincode missing or not recognised",
+    points: ({ address }) => {
+      const pincode = extractPincode(address);
+      return pincode && lookupPincode(pincode) ? 0 : 15;
+    },
+  },
+  {
+    id: "vague_address",
+    label: "Address is too short to deliver reliably",
+    points: ({ address }) =>
+      address.split(",").filter((part) => part.trim()).length < 3 ||
+      !/\d/.test(address.replace(/\b\d{6}\b/, ""))
+        ? 10
+        : 0,
+  },
+];
+
+const countOrder = (
+  history: CustomerHistory,
+  order: OrderRecord,
+  sign: 1 | -1
+): CustomerHistory => ({
+  orders: history.orders + sign,
+  confirmed: history.confirmed + (order.status === "confirmed" ? sign : 0),
+  cancelled: history.cancelled + (order.status === "cancelled" ? sign : 0),
+});
+
+const EMPTY_HISTORY: CustomerHistory = {
+  orders: 0,
+  confirmed: 0,
+  cancelled: 0,
+};
+
+export const assessRisk = (
+  order: OrderRecord,
+  history: CustomerHistory
+): RiskAssessment => {
+  const reasons = RISK_RULES.flatMap((rule) => {
+    const points = rule.points(order, history);
+    return points ? [{ id: rule.id, label: rule.label, points }] : [];
+  }).sort((a, b) => b.points - a.points);
+
+  const score = Math.max(
+    0,
+    Math.min(
+      100,
+      reasons.reduce((sum, reason) => sum + reason.points, 0)
+    )
+  );
+  const level: RiskLevel =
+    score >= RISK_THRESHOLDS.high
+      ? "high"
+      : score >= RISK_THRESHOLDS.medium
+      ? "medium"
+      : "low";
+
+  return { score, level, reasons };
+};
+
+/**
+ * Scores every order against the others placed from the same phone number.
+ * Totals are built once per number so this stays linear in the order count.
+ */
+export const assessOrders = (orders: OrderRecord[]) => {
+  const byPhone = new Map<string, CustomerHistory>();
+  orders.forEach((order) => {
+    byPhone.set(
+      order.phoneNumber,
+      countOrder(byPhone.get(order.phoneNumber) ?? EMPTY_HISTORY, order, 1)
+    );
+  });
+
+  return new Map(
+    orders.map((order) => [
+      order.id,
+      assessRisk(order, countOrder(byPhone.get(order.phoneNumber)!, order, -1)),
+    ])
+  );
+};
@@ -0,0 +1,447 @@
+import { ADDRESS_FIELD_LABELS, applyAddressCorrection } from "@/agent/address";
+import { applyAmendment, hasItemPrices } from "@/agent/amendments";
+import { CANCELLATION_REASON_LABELS } from "@/agent/cancellation";
+import { SCRIPT_LINES, ScriptLineKey } from "@/agent/i18n/scriptLines";
+import { DEFAULT_NO_INPUT } from "@/agent/noInput";
+import { formatCallbackTime, scheduleCallback } from "@/agent/retry";
+import type {
+  CallScript,
+  ScriptContext,
+  ScriptPrompt,
+  ScriptTransitions,
+} from "@/agent/script/types";
+import type { OrderRecord } from "@/agent/types";
+
+/** Every agent line is looked up in the bundle for the call's locale. */
+const say =
+  (key: ScriptLineKey): ScriptPrompt["text"] =>
+  (context) =>
+    SCRIPT_LINES[context.locale][key](context);
+
+const decisionTransitions: ScriptTransitions = {
+  intent: {
+    confirm: "address_check",
+    reschedule: "reschedule_offer",
+    cancel: "cancel_reason",
+    query: "payment_details",
+    escalate: "escalated",
+    modify: "modify_items",
+  },
+};
+
+/**
+ * A bare "no" to the address read-back means something needs correcting, not
+ * that the order should be cancelled, so only confirming moves the call on.
+ */
+const addressTransitions: ScriptTransitions = {
+  intent: {
+    confirm: "confirmed",
+    escalate: "escalated",
+  },
+  address: "address_readback",
+};
+
+/** Item and address edits the customer agreed to before the call ended. */
+const applyAgreedChanges = (
+  order: OrderRecord,
+  { amendment, address, addressFields }: ScriptContext
+): OrderRecord => {
+  const amended = amendment ? applyAmendment(order, amendment) : order;
+  return address
+    ? applyAddressCorrection(amended, address, addressFields ?? [])
+    : amended;
+};
+
+export const defaultCallScript: CallScript = {
+  id: "order-confirmation",
+  entry: "intro",
+  escalation: "escalated",
+  callback: "callback_scheduled",
+  optOut: "opted_out",
+  disclosure: say("recordingDisclosure"),
+  fallbackReprompt: {
+    text: say("fallbackReprompt"),
+    delay: 400,
+  },
+  noInput: {
+    ...DEFAULT_NO_INPUT,
+    prompt: {
+      text: say("stillThere"),
+      delay: 0,
+    },
+  },
+  dtmf: {
+    "1": "confirm",
+    "2": "reschedule",
+    "3": "cancel",
+    "4": "query",
+    "5": "modify",
+    "0": "escalate",
+    "9": "opt_out",
+  },
+  customerLines: {
+    intent: {
+      confirm: "Yes, please go ahead.",
+      reschedule: "Could we deliver in a different slot?",
+      cancel: "I want to cancel this order.",
+      query: "Can you tell me the payment details once more?",
+      escalate: "Can I speak to someone senior about this?",
+      modify: "I'd like to change the items in my order.",
+      opt_out: "Please stop calling me.",
+    },
+    slot: (slot) => `Let's move it to ${slot}.`,
+    slotDeclined: "None of these slots work for me.",
+    reason: (reason) => `${CANCELLATION_REASON_LABELS[reason]}.`,
+    amendment: (quantities) =>
+      `${Object.entries(quantities)
+        .map(([name, quantity]) =>
+          quantity === 0 ? `Remove the ${name}` : `Make it ${quantity} ${name}`
+        )
+        .join(", ")}.`,
+    address: ({ field, value }) =>
+      `The ${ADDRESS_FIELD_LABELS[field].toLowerCase()} is ${value}.`,
+    callback: (at) => `Please call me back ${formatCallbackTime(at, "en-IN")}.`,
+  },
+  nodes: {
+    intro: {
+      id: "intro",
+      prompts: [
+        {
+          text: say("intro"),
+          delay: 1200,
+        },
+        {
+          text: say("itemSummary"),
+          delay: 3400,
+          awaitingResponse: true,
+        },
+      ],
+      expects: "intent",
+      reprompt: {
+        text: say("introReprompt"),
+        delay: 400,
+      },
+      transitions: decisionTransitions,
+    },
+    payment_details: {
+      id: "payment_details",
+      prompts: [
+        {
+          text: say("paymentDetails"),
+          delay: 700,
+          awaitingResponse: true,
+        },
+      ],
+      expects: "intent",
+      transitions: decisionTransitions,
+    },
+    confirmed: {
+      id: "confirmed",
+      prompts: [
+        {
+          text: say("confirmAck"),
+          delay: 400,
+        },
+        {
+          text: say("confirmFarewell"),
+          delay: 2000,
+          markResolved: true,
+        },
+      ],
+      effect: {
+        outcome: "confirmed",
+        delay: 2500,
+        apply: (order, context) => ({
+          ...applyAgreedChanges(order, context),
+          status: "confirmed",
+        }),
+      },
+    },
+    reschedule_offer: {
+      id: "reschedule_offer",
+      prompts: [
+        {
+          text: say("rescheduleOffer"),
+          delay: 500,
+          awaitingResponse: true,
+        },
+      ],
+      expects: "slot",
+      reprompt: {
+        text: say("slotReprompt"),
+        delay: 400,
+      },
+      transitions: {
+        ...decisionTransitions,
+        slot: "rescheduled",
+        slotDeclined: "slot_unavailable",
+      },
+      redirect: {
+        when: ({ offeredSlots }) => !offeredSlots?.length,
+        to: "slot_unavailable",
+      },
+    },
+    rescheduled: {
+      id: "rescheduled",
+      prompts: [
+        {
+          text: say("rescheduleDone"),
+          delay: 500,
+        },
+        {
+          text: say("rescheduleFarewell"),
+          delay: 2000,
+          markResolved: true,
+        },
+      ],
+      effect: {
+        outcome: "rescheduled",
+        delay: 2300,
+        apply: (order, context) => ({
+          ...applyAgreedChanges(order, context),
+          status: "confirmed",
+          deliverySlot: context.slot ?? order.deliverySlot,
+        }),
+      },
+    },
+    slot_unavailable: {
+      id: "slot_unavailable",
+      prompts: [
+        {
+          text: say("noSuitableSlot"),
+          delay: 500,
+          markResolved: true,
+        },
+      ],
+      effect: {
+        outcome: "needs_support",
+        delay: 1000,
+        apply: (order) => ({ ...order, status: "requires_followup" }),
+        escalationReason: "no_suitable_slot",
+      },
+    },
+    address_check: {
+      id: "address_check",
+      prompts: [
+        {
+          text: say("addressCheck"),
+          delay: 500,
+          awaitingResponse: true,
+        },
+      ],
+      expects: "address",
+      reprompt: {
+        text: say("addressReprompt"),
+        delay: 400,
+      },
+      transitions: addressTransitions,
+    },
+    address_readback: {
+      id: "address_readback",
+      prompts: [
+        {
+          text: say("addressReadback"),
+          delay: 500,
+          awaitingResponse: true,
+        },
+      ],
+      expects: "address",
+      reprompt: {
+        text: say("addressReprompt"),
+        delay: 400,
+      },
+      transitions: addressTransitions,
+      redirect: {
+        when: ({ rejectedPincode }) => rejectedPincode !== undefined,
+        to: "pincode_not_found",
+      },
+    },
+    pincode_not_found: {
+      id: "pincode_not_found",
+      prompts: [
+        {
+          text: say("pincodeNotFound"),
+          delay: 400,
+          awaitingResponse: true,
+        },
+      ],
+      expects: "address",
+      reprompt: {
+        text: say("addressReprompt"),
+        delay: 400,
+      },
+      transitions: addressTransitions,
+    },
+    modify_items: {
+      id: "modify_items",
+      prompts: [
+        {
+          text: say("askModification"),
+          delay: 500,
+          awaitingResponse: true,
+        },
+      ],
+      expects: "amendment",
+      reprompt: {
+        text: say("modificationReprompt"),
+        delay: 400,
+      },
+      transitions: {
+        intent: {
+          confirm: "amended_summary",
+          cancel: "cancel_reason",
+          escalate: "escalated",
+        },
+        amendment: "amended_summary",
+      },
+      // Without a price per item the new total would be a guess.
+      redirect: {
+        when: ({ order }) => !hasItemPrices(order),
+        to: "items_unpriced",
+      },
+    },
+    items_unpriced: {
+      id: "items_unpriced",
+      prompts: [
+        {
+          text: say("escalate"),
+          delay: 500,
+          markResolved: true,
+        },
+      ],
+      effect: {
+        outcome: "needs_support",
+        delay: 1000,
+        apply: (order) => ({ ...order, status: "requires_followup" }),
+        escalationReason: "unpriced_items",
+      },
+    },
+    amended_summary: {
+      id: "amended_summary",
+      prompts: [
+        {
+          text: say("amendedSummary"),
+          delay: 500,
+          awaitingResponse: true,
+        },
+      ],
+      expects: "intent",
+      transitions: decisionTransitions,
+    },
+    cancel_reason: {
+      id: "cancel_reason",
+      prompts: [
+        {
+          text: say("askCancelReason"),
+          delay: 500,
+          awaitingResponse: true,
+        },
+      ],
+      expects: "reason",
+      reprompt: {
+        text: say("cancelReasonReprompt"),
+        delay: 400,
+      },
+      transitions: {
+        // "Actually, keep it" takes the customer back to the confirmation.
+        intent: {
+          confirm: "address_check",
+          reschedule: "reschedule_offer",
+          escalate: "escalated",
+        },
+        reason: "retention_offer",
+      },
+      // The customer already gave a reason and turned down the alternative.
+      redirect: {
+        when: ({ cancellationReason }) => cancellationReason !== undefined,
+        to: "cancelled",
+      },
+    },
+    retention_offer: {
+      id: "retention_offer",
+      prompts: [
+        {
+          text: say("retentionOffer"),
+          delay: 500,
+          awaitingResponse: true,
+        },
+      ],
+      expects: "intent",
+      transitions: {
+        intent: {
+          confirm: "reschedule_offer",
+          reschedule: "reschedule_offer",
+          cancel: "cancelled",
+          query: "payment_details",
+          escalate: "escalated",
+        },
+      },
+    },
+    cancelled: {
+      id: "cancelled",
+      prompts: [
+        {
+          text: say("cancelAck"),
+          delay: 700,
+          markResolved: true,
+        },
+      ],
+      effect: {
+        outcome: "cancelled",
+        delay: 1400,
+        apply: (order, { cancellationReason }) => ({
+          ...order,
+          status: "cancelled",
+          cancellationReason: cancellationReason ?? "other",
+        }),
+      },
+    },
+    escalated: {
+      id: "escalated",
+      prompts: [
+        {
+          text: say("escalate"),
+          delay: 0,
+          markResolved: true,
+        },
+      ],
+      effect: {
+        outcome: "needs_support",
+        delay: 0,
+        apply: (order) => ({ ...order, status: "requires_followup" }),
+        escalationReason: "customer_request",
+      },
+    },
+    opted_out: {
+      id: "opted_out",
+      prompts: [
+        {
+          text: say("optOutAck"),
+          delay: 400,
+          markResolved: true,
+        },
+      ],
+      effect: {
+        outcome: "opted_out",
+        delay: 1200,
+        apply: (order) => ({ ...order, status: "requires_followup" }),
+      },
+    },
+    callback_scheduled: {
+      id: "callback_scheduled",
+      prompts: [
+        {
+          text: say("callbackAck"),
+          delay: 400,
+          markResolved: true,
+        },
+      ],
+      effect: {
+        outcome: "callback_requested",
+        delay: 1200,
+        apply: (order, { callbackAt }) =>
+          callbackAt ? scheduleCallback(order, callbackAt) : order,
+      },
+    },
+  },
+};
@@ -0,0 +1,224 @@
+import { correctAddress, lookupPincode } from "@/agent/address";
+import { amendOrder } from "@/agent/amendments";
+import { DEFAULT_LOCALE } from "@/agent/i18n/locales";
+import type {
+  CallScript,
+  NodePlan,
+  ScriptContext,
+  ScriptInput,
+  ScriptNode,
+} from "@/agent/script/types";
+import type { OrderRecord } from "@/agent/types";
+
+export const createScriptContext = (order: OrderRecord): ScriptContext => ({
+  order,
+  locale: order.language ?? DEFAULT_LOCALE,
+});
+
+export const getNode = (script: CallScript, nodeId: string): ScriptNode => {
+  const node = script.nodes[nodeId];
+  if (!node) {
+    throw new Error(`Script "${script.id}" has no node "${nodeId}"`);
+  }
+  return node;
+};
+
+const enterNode = (
+  script: CallScript,
+  nodeId: string,
+  context: ScriptContext
+): ScriptNode => {
+  const node = getNode(script, nodeId);
+  return node.redirect?.when(context)
+    ? getNode(script, node.redirect.to)
+    : node;
+};
+
+export const planNode = (
+  script: CallScript,
+  nodeId: string,
+  context: ScriptContext
+): NodePlan => {
+  const node = enterNode(script, nodeId, context);
+  const [first] = node.prompts;
+
+  return {
+    nodeId: node.id,
+    expects: node.expects,
+    disclosure:
+      node.id === script.entry
+        ? {
+            text: script.disclosure(context),
+            delay: first?.delay ?? 0,
+            awaitingResponse: false,
+            markResolved: false,
+          }
+        : undefined,
+    lines: node.prompts.map((prompt) => ({
+      text: prompt.text(context),
+      delay: prompt.delay,
+      awaitingResponse: prompt.awaitingResponse ?? false,
+      markResolved: prompt.markResolved ?? false,
+    })),
+    effect: node.effect
+      ? {
+          outcome: node.effect.outcome,
+          delay: node.effect.delay,
+          apply: (order) => node.effect!.apply(order, context),
+          escalationReason: node.effect.escalationReason,
+        }
+      : undefined,
+  };
+};
+
+export const planReprompt = (
+  script: CallScript,
+  nodeId: string,
+  context: ScriptContext
+): NodePlan => {
+  const node = getNode(script, nodeId);
+  const prompt = node.reprompt ?? script.fallbackReprompt;
+
+  return {
+    nodeId,
+    expects: node.expects,
+    lines: [
+      {
+        text: prompt.text(context),
+        delay: prompt.delay,
+        awaitingResponse: true,
+        markResolved: false,
+      },
+    ],
+  };
+};
+
+/** The short nudge after silence; the node's question is not repeated. */
+export const planSilenceReprompt = (
+  script: CallScript,
+  nodeId: string,
+  context: ScriptContext
+): NodePlan => {
+  const { prompt } = script.noInput;
+  return {
+    nodeId,
+    expects: getNode(script, nodeId).expects,
+    lines: [
+      {
+        text: prompt.text(context),
+        delay: prompt.delay,
+        awaitingResponse: true,
+        markResolved: false,
+      },
+    ],
+  };
+};
+
+export const resolveTransition = (
+  script: CallScript,
+  nodeId: string,
+  input: ScriptInput
+): string | null => {
+  if (input.kind === "callback") return script.callback;
+  if (input.kind === "intent" && input.intent === "opt_out") {
+    return script.optOut;
+  }
+  const { transitions } = getNode(script, nodeId);
+  if (!transitions) return null;
+
+  if (input.kind === "intent") {
+    return transitions.intent?.[input.intent] ?? null;
+  }
+  if (input.kind === "slot_declined") return transitions.slotDeclined ?? null;
+  if (input.kind === "reason") return transitions.reason ?? null;
+  if (input.kind === "amendment") return transitions.amendment ?? null;
+  if (input.kind === "address") return transitions.address ?? null;
+  return transitions.slot ?? null;
+};
+
+export const applyInput = (
+  context: ScriptContext,
+  input: ScriptInput
+): ScriptContext => {
+  if (input.kind === "slot") return { ...context, slot: input.slot };
+  if (input.kind === "callback") return { ...context, callbackAt: input.at };
+  if (input.kind === "reason") {
+    return { ...context, cancellationReason: input.reason };
+  }
+  if (input.kind === "amendment") {
+    // Later edits build on earlier ones, always measured from the original.
+    const earlier = Object.fromEntries(
+      context.amendment?.changes.map(({ name, to }) => [name, to]) ?? []
+    );
+    const amendment = amendOrder(context.order, {
+      ...earlier,
+      ...input.quantities,
+    });
+    return amendment ? { ...context, amendment } : context;
+  }
+  if (input.kind === "address") {
+    const { correction } = input;
+    if (correction.field === "pincode" && !lookupPincode(correction.value)) {
+      return { ...context, rejectedPincode: correction.value };
+    }
+    const fields = context.addressFields ?? [];
+    return {
+      ...context,
+      address: correctAddress(
+        context.address ?? context.order.address,
+        correction
+      ),
+      addressFields: fields.includes(correction.field)
+        ? fields
+        : [...fields, correction.field],
+      rejectedPincode: undefined,
+    };
+  }
+  return context;
+};
+
+export const describeInput = (script: CallScript, input: ScriptInput) => {
+  if (input.utterance) return input.utterance;
+  if (input.kind === "intent") return script.customerLines.intent[input.intent];
+  if (input.kind === "slot_declined") return script.customerLines.slotDeclined;
+  if (input.kind === "reason") return script.customerLines.reason(input.reason);
+  if (input.kind === "amendment") {
+    return script.customerLines.amendment(input.quantities);
+  }
+  if (input.kind === "address") {
+    return script.customerLines.address(input.correction);
+  }
+  if (input.kind === "callback") return script.customerLines.callback(input.at);
+  return script.customerLines.slot(input.slot);
+};
+
+/**
+ * Lists every transition that points at a node the script does not define,
+ * so a broken edit to the graph is caught before a call runs it.
+ */
+export const validateScript = (script: CallScript): string[] => {
+  const problems: string[] = [];
+  const check = (from: string, target: string | undefined) => {
+    if (target && !script.nodes[target]) {
+      problems.push(`${from} -> ${target}`);
+    }
+  };
+
+  check("entry", script.entry);
+  check("escalation", script.escalation);
+  check("callback", script.callback);
+  check("optOut", script.optOut);
+  Object.values(script.nodes).forEach((node) => {
+    Object.values(node.transitions?.intent ?? {}).forEach((target) =>
+      check(node.id, target)
+    );
+    check(node.id, node.transitions?.slot);
+    check(node.id, node.transitions?.slotDeclined);
+    check(node.id, node.transitions?.reason);
+    check(node.id, node.transitions?.amendment);
+    check(node.id, node.transitions?.address);
+    check(node.id, node.redirect?.to);
+  });
+
+  return problems;
+};
@@ -0,0 +1,129 @@
+import type { AddressCorrection, AddressField } from "@/agent/address";
+import type { NoInputOptions } from "@/agent/noInput";
+import type { ItemQuantities, OrderAmendment } from "@/agent/amendments";
+import type { CancellationReason } from "@/agent/cancellation";
+import type { SupportedLocale } from "@/agent/i18n/locales";
+import type { DeliverySlot } from "@/agent/slots";
+import type {
+  CallOutcome,
+  CustomerIntent,
+  EscalationReason,
+  OrderRecord,
+} from "@/agent/types";
+
+export type ScriptContext = {
+  order: OrderRecord;
+  locale: SupportedLocale;
+  /** Delivery slots the agent can offer if the customer wants to reschedule. */
+  offeredSlots?: DeliverySlot[];
+  slot?: string;
+  cancellationReason?: CancellationReason;
+  /** Item edits the customer asked for, applied only once they confirm. */
+  amendment?: OrderAmendment;
+  /** Address as corrected on the call, saved only once they confirm. */
+  address?: string;
+  addressFields?: AddressField[];
+  /** Last pincode the customer gave that is not in the pincode directory. */
+  rejectedPincode?: string;
+  /** When the customer asked to be called back instead. */
+  callbackAt?: string;
+};
+
+export type ScriptInput =
+  | { kind: "intent"; intent: CustomerIntent; utterance?: string }
+  | { kind: "slot"; slot: string; utterance?: string }
+  | { kind: "slot_declined"; utterance?: string }
+  | { kind: "reason"; reason: CancellationReason; utterance?: string }
+  | { kind: "amendment"; quantities: ItemQuantities; utterance?: string }
+  | { kind: "address"; correction: AddressCorrection; utterance?: string }
+  | { kind: "callback"; at: string; utterance?: string };
+
+export type ScriptPrompt = {
+  text: (context: ScriptContext) => string;
+  /** Milliseconds after entering the node before the line is spoken. */
+  delay: number;
+  awaitingResponse?: boolean;
+  markResolved?: boolean;
+};
+
+export type ScriptEffect = {
+  outcome: CallOutcome;
+  /** Milliseconds after entering the node before the outcome is recorded. */
+  delay: number;
+  apply: (order: OrderRecord, context: ScriptContext) => OrderRecord;
+  /** Set on `needs_support` effects so a ticket is opened for the call. */
+  escalationReason?: EscalationReason;
+};
+
+export type ScriptTransitions = {
+  intent?: Partial<Record<CustomerIntent, string>>;
+  slot?: string;
+  slotDeclined?: string;
+  reason?: string;
+  amendment?: string;
+  address?: string;
+};
+
+export type ScriptNode = {
+  id: string;
+  prompts: ScriptPrompt[];
+  expects?: ScriptInput["kind"];
+  /** Shorter line used when the customer's reply could not be understood. */
+  reprompt?: ScriptPrompt;
+  transitions?: ScriptTransitions;
+  /** Enters another node instead when the call has already moved past this one. */
+  redirect?: { when: (context: ScriptContext) => boolean; to: string };
+  effect?: ScriptEffect;
+};
+
+export type CallScript = {
+  id: string;
+  entry: string;
+  escalation: string;
+  /** Entered from any question when the customer asks to be called later. */
+  callback: string;
+  /** Entered from any question when the customer asks not to be called. */
+  optOut: string;
+  /**
+   * Recording notice the interpreter plans ahead of the entry node's lines,
+   * so no script can start a call without it.
+   */
+  disclosure: ScriptPrompt["text"];
+  /** Said when a reply was heard but not understood. */
+  fallbackReprompt: ScriptPrompt;
+  /** Silence handling; `prompt` is the short nudge after each timeout. */
+  noInput: NoInputOptions & { prompt: ScriptPrompt };
+  /** Keypad digits the customer can press instead of answering aloud. */
+  dtmf: Partial<Record<string, CustomerIntent>>;
+  customerLines: {
+    intent: Record<CustomerIntent, string>;
+    slot: (slot: string) => string;
+    slotDeclined: string;
+    reason: (reason: CancellationReason) => string;
+    amendment: (quantities: ItemQuantities) => string;
+    address: (correction: AddressCorrection) => string;
+    callback: (at: string) => string;
+  };
+  nodes: Record<string, ScriptNode>;
+};
+
+export type PlannedLine = {
+  text: string;
+  delay: number;
+  awaitingResponse: boolean;
+  markResolved: boolean;
+};
+
+export type NodePlan = {
+  nodeId: string;
+  /** Set on the entry node; it plays in full before the node's own lines. */
+  disclosure?: PlannedLine;
+  lines: PlannedLine[];
+  expects?: ScriptInput["kind"];
+  effect?: {
+    outcome: CallOutcome;
+    delay: number;
+    apply: (order: OrderRecord) => OrderRecord;
+    escalationReason?: EscalationReason;
+  };
+};
@@ -0,0 +1,80 @@
+import { parseAddressCorrection } from "@/agent/address";
+import { parseItemChange } from "@/agent/amendments";
+import { matchCancellationReason } from "@/agent/cancellation";
+import { parseCallbackRequest } from "@/agent/retry";
+import { classifyReply, IntentClassifier } from "@/agent/intent/classifier";
+import type { IntentClassification } from "@/agent/intent/types";
+import type { ScriptContext, ScriptInput } from "@/agent/script/types";
+import { matchSlotReply } from "@/agent/slots";
+
+export type UtteranceReading = {
+  /** What the reply could mean, most specific first. */
+  candidates: ScriptInput[];
+  /** Set when the reply went to the intent classifier. */
+  classification: IntentClassification | null;
+};
+
+/**
+ * Reads a customer reply against what the current node expects. A request to
+ * be called later wins at any question, then a slot, address, item change or
+ * cancellation reason; otherwise the classifier's intent is offered, and at
+ * the reason question any longer reply also counts as a reason of its own.
+ * The caller takes the first candidate the node has a transition for and
+ * reprompts when none fits.
+ */
+export const readUtterance = (
+  utterance: string,
+  expects: ScriptInput["kind"] | undefined,
+  context: ScriptContext,
+  classify: IntentClassifier = classifyReply,
+  now = Date.now()
+): UtteranceReading => {
+  const only = (input: ScriptInput): UtteranceReading => ({
+    candidates: [input],
+    classification: null,
+  });
+
+  const callbackAt = parseCallbackRequest(utterance, now);
+  if (callbackAt) return only({ kind: "callback", at: callbackAt, utterance });
+
+  if (expects === "slot") {
+    const reply = matchSlotReply(utterance, context.offeredSlots ?? [], now);
+    if (reply?.kind === "slot") {
+      return only({ kind: "slot", slot: reply.slot.label, utterance });
+    }
+    if (reply?.kind === "slot_declined") {
+      return only({ kind: "slot_declined", utterance });
+    }
+  }
+
+  if (expects === "address") {
+    const correction = parseAddressCorrection(utterance);
+    if (correction) return only({ kind: "address", correction, utterance });
+  }
+
+  if (expects === "amendment") {
+    const quantities = parseItemChange(utterance, context.order);
+    if (quantities) return only({ kind: "amendment", quantities, utterance });
+  }
+
+  if (expects === "reason") {
+    const reason = matchCancellationReason(utterance);
+    if (reason) return only({ kind: "reason", reason, utterance });
+  }
+
+  const classification = classify(utterance);
+  const candidates: ScriptInput[] = [];
+  if (classification.intent !== "unknown") {
+    candidates.push({
+      kind: "intent",
+      intent: classification.intent,
+      utterance,
+    });
+  }
+  // A reason outside the taxonomy is still a reason; only very short
+  // replies are treated as not heard.
+  if (expects === "reason" && utterance.trim().split(/\s+/).length >= 3) {
+    candidates.push({ kind: "reason", reason: "other", utterance });
+  }
+  return { candidates, classification };
+};
@@ -0,0 +1,111 @@
+export type DeliverySlot = {
+  id: string;
+  pincode: string;
+  /** Calendar date in India, `YYYY-MM-DD`. */
+  date: string;
+  startsAt: string;
+  /** Dated label, e.g. "Wednesday 21 Oct, 9AM - 12PM", as saved on orders. */
+  label: string;
+  capacity: number;
+  remaining: number;
+};
+
+export type SlotReply =
+  | { kind: "slot"; slot: DeliverySlot }
+  | { kind: "slot_declined" };
+
+export const extractPincode = (address: string) =>
+  address.match(/\b[1-9]\d{5}\b/)?.[0] ?? null;
+
+const DECLINES =
+  /\b(none|neither|nothing)\b|\b(doesn'?t|don'?t|won'?t|does not|do not) (work|suit)|koi (bhi )?nahi|ek bhi nahi/i;
+
+const ORDINALS: [RegExp, number][] = [
+  [/\b(first|1st|pehla|pehle wala)\b/i, 0],
+  [/\b(second|2nd|dusra|doosra)\b/i, 1],
+  [/\b(third|3rd|teesra|tisra)\b/i, 2],
+  [/\b(fourth|4th|chautha)\b/i, 3],
+  [/\b(last|aakhri)\b/i, -1],
+];
+
+const DAY_ALIASES: Record<string, string[]> = {
+  today: ["today", "aaj"],
+  tomorrow: ["tomorrow", "kal"],
+};
+
+const DAY_MS = 24 * 60 * 60_000;
+
+const indianDate = (instant: number) =>
+  new Intl.DateTimeFormat("en-CA", { timeZone: "Asia/Kolkata" }).format(
+    instant
+  );
+
+const relativeDay = (slot: DeliverySlot, now: number) => {
+  if (slot.date === indianDate(now)) return "Today";
+  if (slot.date === indianDate(now + DAY_MS)) return "Tomorrow";
+  return null;
+};
+
+/**
+ * The slot as the agent says it, with "Today" or "Tomorrow" in place of the
+ * date when the slot is that close. Only speech uses it; a saved relative day
+ * would be wrong from the next morning on.
+ */
+export const spokenSlotLabel = (slot: DeliverySlot, now = Date.now()) => {
+  const day = relativeDay(slot, now);
+  return day ? slot.label.replace(/^[^,]+/, day) : slot.label;
+};
+
+const hourPattern = (startsAt: string) => {
+  const hour = Number(
+    new Intl.DateTimeFormat("en-IN", {
+      hour: "numeric",
+      hour12: true,
+      timeZone: "Asia/Kolkata",
+    })
+      .format(new Date(startsAt))
+      .split(" ")[0]
+  );
+  return new RegExp(`\\b${hour}\\s*(am|pm|baje|o'?clock)?\\b`, "i");
+};
+
+const mentionsDay = (utterance: string, slot: DeliverySlot, now: number) => {
+  const weekday = slot.label.split(" ")[0].toLowerCase();
+  const relative = relativeDay(slot, now)?.toLowerCase();
+  const aliases = [weekday, ...(relative ? DAY_ALIASES[relative] : [])];
+  return aliases.some((alias) => utterance.toLowerCase().includes(alias));
+};
+
+/**
+ * Works out which offered slot a spoken reply refers to, either by position
+ * ("the second one") or by day and start time ("tomorrow at 2"). Returns
+ * `null` when the reply is ambiguous so the agent can ask again.
+ */
+export const matchSlotReply = (
+  utterance: string,
+  slots: DeliverySlot[],
+  now = Date.now()
+): SlotReply | null => {
+  if (DECLINES.test(utterance)) return { kind: "slot_declined" };
+  if (slots.length === 0) return null;
+
+  const ordinal = ORDINALS.find(([pattern]) => pattern.test(utterance));
+  if (ordinal) {
+    const slot = slots.at(ordinal[1]);
+    return slot ? { kind: "slot", slot } : null;
+  }
+
+  const scored = slots
+    .map((slot) => ({
+      slot,
+      score:
+        (mentionsDay(utterance, slot, now) ? 1 : 0) +
+        (hourPattern(slot.startsAt).test(utterance) ? 1 : 0),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  if (scored.length === 0) return null;
+  if (scored.length > 1 && scored[1].score === scored[0].score) return null;
+  return { kind: "slot", slot: scored[0].slot };
+};
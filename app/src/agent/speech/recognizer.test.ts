@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { createVirtualClock } from "@/agent/clock";
+import { createCallController } from "@/agent/controller/callController";
+import {
+  createScriptedRecognizer,
+  listenForReplies,
+  ScriptedUtterance,
+} from "@/agent/speech/recognizer";
+import { createSilentTtsEngine } from "@/agent/tts/silentEngine";
+import { testOrder } from "@/fixtures/testOrders";
+
+/** Answers the test order and listens once the agent takes a reply. */
+const voiceCall = (utterances: ScriptedUtterance[]) => {
+  const clock = createVirtualClock();
+  const controller = createCallController({
+    order: testOrder,
+    clock,
+    tts: createSilentTtsEngine({ msPerWord: 350, clock }),
+  });
+  controller.ring();
+  controller.answer();
+  while (!controller.getSnapshot().acceptingInput && clock.next());
+
+  const heard: string[] = [];
+  const blocked: string[] = [];
+  const stop = listenForReplies(
+    createScriptedRecognizer(utterances, { clock }),
+    {
+      onUtterance: (utterance) => {
+        heard.push(utterance);
+        controller.say(utterance);
+      },
+      onBlocked: (error) => blocked.push(error),
+    }
+  );
+  return { clock, controller, heard, blocked, stop };
+};
+
+describe("listenForReplies", () => {
+  it("answers the call with the final transcript only", () => {
+    const { clock, controller, heard, stop } = voiceCall([
+      { interim: ["yes", "yes that's"], final: "Yes, that's correct" },
+    ]);
+
+    clock.advance(600);
+    stop();
+
+    expect(heard).toEqual(["Yes, that's correct"]);
+    const replies = controller
+      .getSnapshot()
+      .conversation.filter((entry) => entry.speaker === "customer");
+    expect(replies.map(({ message }) => message)).toEqual([
+      "Yes, that's correct",
+    ]);
+    expect(controller.getSnapshot().nodeId).toBe("address_check");
+  });
+
+  it("listens again after hearing nothing", () => {
+    const { clock, controller, heard, blocked, stop } = voiceCall([
+      { error: "no-speech" },
+      "Yes, that's correct",
+    ]);
+
+    clock.advance(600);
+    expect(heard).toEqual([]);
+    expect(controller.getSnapshot().nodeId).toBe("intro");
+
+    clock.advance(600);
+    stop();
+    expect(blocked).toEqual([]);
+    expect(heard).toEqual(["Yes, that's correct"]);
+    expect(controller.getSnapshot().nodeId).toBe("address_check");
+  });
+
+  it("stops for good when the microphone is refused", () => {
+    const { clock, controller, heard, blocked } = voiceCall([
+      { error: "not-allowed" },
+      "Yes, that's correct",
+    ]);
+
+    clock.advance(5_000);
+
+    expect(blocked).toEqual(["not-allowed"]);
+    expect(heard).toEqual([]);
+    expect(controller.getSnapshot().nodeId).toBe("intro");
+  });
+});
@@ -0,0 +1,207 @@
+import { Clock, systemClock } from "@/agent/clock";
+
+export type RecognitionResult = {
+  transcript: string;
+  confidence: number;
+  /** `false` for a partial guess sent while the customer is still talking. */
+  final: boolean;
+};
+
+export type RecognitionHandlers = {
+  onResult: (result: RecognitionResult) => void;
+  onError?: (error: string) => void;
+  onEnd?: () => void;
+};
+
+/**
+ * Listens for a single customer utterance per `start` call. The hook restarts
+ * the recogniser after `onEnd` for as long as it still wants input.
+ */
+export type SpeechRecognizer = {
+  supported: boolean;
+  start: (handlers: RecognitionHandlers, options?: { lang?: string }) => void;
+  stop: () => void;
+};
+
+type BrowserRecognitionEvent = {
+  results: ArrayLike<
+    ArrayLike<{ transcript: string; confidence: number }> & { isFinal: boolean }
+  >;
+};
+
+type BrowserRecognition = {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: BrowserRecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  abort: () => void;
+};
+
+type BrowserRecognitionConstructor = new () => BrowserRecognition;
+
+const getRecognitionConstructor = () => {
+  if (typeof window === "undefined") return null;
+  const candidate = window as unknown as {
+    SpeechRecognition?: BrowserRecognitionConstructor;
+    webkitSpeechRecognition?: BrowserRecognitionConstructor;
+  };
+  return candidate.SpeechRecognition ?? candidate.webkitSpeechRecognition ?? null;
+};
+
+export const createBrowserRecognizer = (lang = "en-IN"): SpeechRecognizer => {
+  const Recognition = getRecognitionConstructor();
+  let active: BrowserRecognition | null = null;
+
+  const stop = () => {
+    if (!active) return;
+    const recognition = active;
+    active = null;
+    recognition.onresult = null;
+    recognition.onerror = null;
+    recognition.onend = null;
+    recognition.abort();
+  };
+
+  return {
+    supported: Recognition !== null,
+    start: (handlers, options) => {
+      if (!Recognition) {
+        handlers.onError?.("unsupported");
+        return;
+      }
+
+      stop();
+      const recognition = new Recognition();
+      recognition.lang = options?.lang ?? lang;
+      recognition.continuous = false;
+      recognition.interimResults = false;
+      recognition.maxAlternatives = 1;
+
+      recognition.onresult = (event) => {
+        const result = event.results[event.results.length - 1];
+        const best = result?.[0];
+        if (best?.transcript.trim()) {
+          handlers.onResult({
+            transcript: best.transcript.trim(),
+            confidence: best.confidence,
+            final: result.isFinal,
+          });
+        }
+      };
+      recognition.onerror = (event) => {
+        handlers.onError?.(event.error);
+      };
+      recognition.onend = () => {
+        active = null;
+        handlers.onEnd?.();
+      };
+
+      active = recognition;
+      recognition.start();
+    },
+    stop,
+  };
+};
+
+/**
+ * One scripted turn: a final transcript, the same preceded by the partial
+ * guesses a live recogniser sends first, or an error such as `no-speech`.
+ */
+export type ScriptedUtterance =
+  | string
+  | { interim: string[]; final: string }
+  | { error: string };
+
+/**
+ * Replays a fixed list of utterances, one per `start`, so the voice path can
+ * be exercised without a microphone.
+ */
+export const createScriptedRecognizer = (
+  utterances: ScriptedUtterance[],
+  { delay = 600, clock = systemClock }: { delay?: number; clock?: Clock } = {}
+): SpeechRecognizer => {
+  const queue = [...utterances];
+  let cancel: (() => void) | null = null;
+
+  const stop = () => {
+    cancel?.();
+    cancel = null;
+  };
+
+  return {
+    supported: true,
+    start: (handlers) => {
+      stop();
+      if (queue.length === 0) return;
+
+      cancel = clock.schedule(() => {
+        cancel = null;
+        const next = queue.shift();
+        if (next === undefined) return;
+        if (typeof next !== "string" && "error" in next) {
+          handlers.onError?.(next.error);
+        } else {
+          const { interim, final } =
+            typeof next === "string" ? { interim: [], final: next } : next;
+          interim.forEach((transcript) =>
+            handlers.onResult({ transcript, confidence: 0.5, final: false })
+          );
+          handlers.onResult({ transcript: final, confidence: 1, final: true });
+        }
+        handlers.onEnd?.();
+      }, delay);
+    },
+    stop,
+  };
+};
+
+const FATAL_ERRORS = new Set(["not-allowed", "service-not-allowed", "unsupported"]);
+
+export type ReplyHandlers = {
+  onUtterance: (utterance: string) => void;
+  /** The recogniser cannot be used, e.g. the microphone was refused. */
+  onBlocked: (error: string) => void;
+};
+
+/**
+ * Keeps the recogniser listening, one utterance per `start`, and passes on
+ * each final transcript. Partial results are not replies, and passing errors
+ * such as `no-speech` just start the next listen. Returns a function that
+ * stops listening.
+ */
+export const listenForReplies = (
+  recognizer: SpeechRecognizer,
+  { onUtterance, onBlocked }: ReplyHandlers,
+  lang?: string
+) => {
+  let active = true;
+
+  const listen = () => {
+    recognizer.start(
+      {
+        onResult: ({ transcript, final }) => {
+          if (active && final) onUtterance(transcript);
+        },
+        onError: (error) => {
+          if (!FATAL_ERRORS.has(error)) return;
+          active = false;
+          onBlocked(error);
+        },
+        onEnd: () => {
+          if (active) listen();
+        },
+      },
+      { lang }
+    );
+  };
+
+  listen();
+  return () => {
+    active = false;
+    recognizer.stop();
+  };
+};
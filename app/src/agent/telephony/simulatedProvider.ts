@@ -0,0 +1,123 @@
+import { stripSpeechMarkup } from "@/agent/tts/markup";
+import type {
+  TelephonyAudio,
+  TelephonyEvent,
+  TelephonyProvider,
+} from "@/agent/telephony/types";
+
+export type SimulatedPickup = "answer" | "busy" | "no_answer" | "voicemail";
+
+export type SimulatedTelephonyProvider = TelephonyProvider & {
+  simulation: {
+    getPickup: () => SimulatedPickup;
+    setPickup: (pickup: SimulatedPickup) => void;
+    pressKey: (callId: string, digit: string) => void;
+    customerHangup: (callId: string) => void;
+  };
+};
+
+type SimulatedCall = {
+  phoneNumber: string;
+  connected: boolean;
+  timers: ReturnType<typeof setTimeout>[];
+};
+
+const MS_PER_WORD = 350;
+
+/**
+ * In-process stand-in for a carrier. Every dial rings, then resolves to the
+ * configured pickup so the whole console can be exercised offline.
+ */
+export const createSimulatedProvider = ({
+  ringDelay = 400,
+  pickupDelay = 1600,
+  pickup: initialPickup = "answer",
+}: {
+  ringDelay?: number;
+  pickupDelay?: number;
+  pickup?: SimulatedPickup;
+} = {}): SimulatedTelephonyProvider => {
+  const listeners = new Set<(event: TelephonyEvent) => void>();
+  const calls = new Map<string, SimulatedCall>();
+  let pickup = initialPickup;
+  let sequence = 0;
+
+  const emit = (event: TelephonyEvent) => {
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const end = (callId: string) => {
+    const call = calls.get(callId);
+    if (!call) return false;
+    call.timers.forEach((timer) => clearTimeout(timer));
+    calls.delete(callId);
+    return true;
+  };
+
+  const schedule = (callId: string, delay: number, run: () => void) => {
+    const call = calls.get(callId);
+    if (!call) return;
+    call.timers.push(setTimeout(run, delay));
+  };
+
+  return {
+    name: "simulated",
+    dial: (phoneNumber) => {
+      sequence += 1;
+      const callId = `sim-${Date.now().toString(36)}-${sequence}`;
+      const result = pickup;
+      calls.set(callId, { phoneNumber, connected: false, timers: [] });
+
+      schedule(callId, ringDelay, () => emit({ type: "ringing", callId }));
+      schedule(callId, ringDelay + pickupDelay, () => {
+        const call = calls.get(callId);
+        if (!call) return;
+        if (result === "answer") {
+          call.connected = true;
+          emit({ type: "answered", callId });
+          return;
+        }
+        end(callId);
+        emit({ type: result, callId });
+      });
+
+      return callId;
+    },
+    hangup: (callId) => {
+      if (end(callId)) emit({ type: "hangup", callId, by: "agent" });
+    },
+    playAudio: (callId, audio: TelephonyAudio) =>
+      new Promise((resolve) => {
+        const words =
+          "text" in audio
+            ? audio.text.split(/\s+/).length
+            : "ssml" in audio
+            ? stripSpeechMarkup(audio.ssml).split(/\s+/).length
+            : 8;
+        schedule(callId, words * MS_PER_WORD, resolve);
+        if (!calls.get(callId)?.connected) resolve();
+      }),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    simulation: {
+      getPickup: () => pickup,
+      setPickup: (next) => {
+        pickup = next;
+      },
+      pressKey: (callId, digit) => {
+        if (calls.get(callId)?.connected) emit({ type: "dtmf", callId, digit });
+      },
+      customerHangup: (callId) => {
+        if (end(callId)) emit({ type: "hangup", callId, by: "customer" });
+      },
+    },
+  };
+};
+
+export const isSimulatedProvider = (
+  provider: TelephonyProvider
+): provider is SimulatedTelephonyProvider => "simulation" in provider;
@@ -0,0 +1,29 @@
+export type TelephonyEvent =
+  | { type: "ringing"; callId: string }
+  | { type: "answered"; callId: string }
+  | { type: "busy"; callId: string }
+  | { type: "no_answer"; callId: string }
+  | { type: "voicemail"; callId: string }
+  | { type: "hangup"; callId: string; by: "agent" | "customer" }
+  | { type: "dtmf"; callId: string; digit: string };
+
+export type TelephonyEventType = TelephonyEvent["type"];
+
+/** `ssml` keeps pauses, pacing and spelled-out readings for the carrier TTS. */
+export type TelephonyAudio =
+  | { text: string }
+  | { ssml: string }
+  | { url: string };
+
+/**
+ * Everything the call console needs from a carrier. Implementations report
+ * progress through `subscribe` rather than return values, since ringing,
+ * answer and hangup arrive asynchronously from the network.
+ */
+export type TelephonyProvider = {
+  name: string;
+  dial: (phoneNumber: string) => string;
+  hangup: (callId: string) => void;
+  playAudio: (callId: string, audio: TelephonyAudio) => Promise<void>;
+  subscribe: (listener: (event: TelephonyEvent) => void) => () => void;
+};
@@ -0,0 +1,43 @@
+import type { TelephonyProvider } from "@/agent/telephony/types";
+import { toSsml } from "@/agent/tts/markup";
+import type { TtsEngine } from "@/agent/tts/types";
+
+/**
+ * Speaks agent lines into the live carrier call instead of the browser, so
+ * the customer hears them. The carrier renders the line from SSML, pauses and
+ * pacing included, and a line ends when its `playAudio` settles unless a newer
+ * line or `stop` replaced it first.
+ */
+export const createTelephonyVoice = (
+  provider: TelephonyProvider,
+  getCallId: () => string | null
+): TtsEngine => {
+  let current = 0;
+
+  return {
+    id: "carrier",
+    supported: true,
+    speak: ({ segments, locale }, { onEnd, onError }) => {
+      current += 1;
+      const request = current;
+      const callId = getCallId();
+      const settle = () => {
+        if (request === current) onEnd();
+      };
+      if (!callId) {
+        settle();
+        return;
+      }
+
+      provider
+        .playAudio(callId, { ssml: toSsml(segments, locale) })
+        .catch((error: Error) => {
+          if (request === current) onError?.(error.message);
+        })
+        .finally(settle);
+    },
+    stop: () => {
+      current += 1;
+    },
+  };
+};
@@ -0,0 +1,69 @@
+import { pickVoice } from "@/agent/i18n/locales";
+import type { TtsEngine } from "@/agent/tts/types";
+
+/** Speaks through `window.speechSynthesis`, one utterance per segment. */
+export const createBrowserTtsEngine = (): TtsEngine => {
+  const supported =
+    typeof window !== "undefined" &&
+    typeof window.speechSynthesis !== "undefined";
+  let voices: SpeechSynthesisVoice[] = [];
+  let generation = 0;
+  let pauseTimer: ReturnType<typeof setTimeout> | null = null;
+
+  if (supported) {
+    // Chrome loads its voice list asynchronously, so keep it up to date.
+    const loadVoices = () => {
+      voices = window.speechSynthesis.getVoices();
+    };
+    loadVoices();
+    window.speechSynthesis.addEventListener("voiceschanged", loadVoices);
+  }
+
+  const stop = () => {
+    generation += 1;
+    if (pauseTimer !== null) clearTimeout(pauseTimer);
+    pauseTimer = null;
+    if (supported) window.speechSynthesis.cancel();
+  };
+
+  return {
+    id: "browser",
+    supported,
+    speak: ({ segments, locale, rate = 1 }, { onEnd }) => {
+      if (!supported) {
+        onEnd();
+        return;
+      }
+      stop();
+      const current = generation;
+      const voice = pickVoice(voices, locale);
+
+      const play = (index: number) => {
+        if (current !== generation) return;
+        const segment = segments[index];
+        if (!segment) {
+          onEnd();
+          return;
+        }
+        if (segment.kind === "pause") {
+          pauseTimer = setTimeout(() => play(index + 1), segment.ms);
+          return;
+        }
+
+        const utterance = new SpeechSynthesisUtterance(segment.text);
+        utterance.lang = locale;
+        if (voice) utterance.voice = voice;
+        utterance.rate = rate * segment.rate;
+        utterance.pitch = 1;
+        utterance.volume = 0.9;
+        // A failed segment is skipped rather than leaving the call hanging.
+        utterance.onend = () => play(index + 1);
+        utterance.onerror = () => play(index + 1);
+        window.speechSynthesis.speak(utterance);
+      };
+
+      play(0);
+    },
+    stop,
+  };
+};
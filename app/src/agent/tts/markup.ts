@@ -0,0 +1,170 @@
+import type { SupportedLocale } from "@/agent/i18n/locales";
+
+/**
+ * A small SSML subset for script lines:
+ *
+ * - `<break time="400ms"/>` pauses (`ms` or `s`)
+ * - `<prosody rate="slow">…</prosody>` changes speed (`x-slow` to `x-fast`,
+ *   a percentage or a multiplier)
+ * - `<say-as interpret-as="characters|digits|currency">…</say-as>` reads the
+ *   text one character or digit at a time; `currency` reads an INR amount's
+ *   digits followed by the word for rupees
+ *
+ * The transcript shows the line with the tags removed.
+ */
+export type SpeechSegment =
+  | { kind: "text"; text: string; rate: number }
+  | { kind: "pause"; ms: number };
+
+type SayAs = "characters" | "digits" | "currency";
+
+const NAMED_RATES: Record<string, number> = {
+  "x-slow": 0.6,
+  slow: 0.8,
+  medium: 1,
+  fast: 1.2,
+  "x-fast": 1.4,
+};
+
+const RUPEES: Record<SupportedLocale, (digits: string) => string> = {
+  "en-IN": (digits) => `rupees ${digits}`,
+  "hi-IN": (digits) => `${digits} रुपये`,
+  "ta-IN": (digits) => `${digits} ரூபாய்`,
+  "te-IN": (digits) => `${digits} రూపాయలు`,
+  "bn-IN": (digits) => `${digits} টাকা`,
+};
+
+const TAG = /<(\/?)([a-z-]+)([^>]*?)(\/?)>/gi;
+
+const attribute = (attributes: string, name: string) =>
+  new RegExp(`${name}\\s*=\\s*"([^"]*)"`, "i").exec(attributes)?.[1];
+
+const parseRate = (value: string | undefined) => {
+  if (!value) return 1;
+  if (value in NAMED_RATES) return NAMED_RATES[value];
+  const rate = value.endsWith("%")
+    ? Number(value.slice(0, -1)) / 100
+    : Number(value);
+  return Number.isFinite(rate) && rate > 0 ? rate : 1;
+};
+
+const parseBreak = (value: string | undefined) => {
+  const match = /^(\d+(?:\.\d+)?)(ms|s)$/.exec(value?.trim() ?? "");
+  if (!match) return 300;
+  return Number(match[1]) * (match[2] === "s" ? 1000 : 1);
+};
+
+const spell = (text: string) => text.replace(/\s+/g, "").split("").join(" ");
+
+const expand = (text: string, sayAs: SayAs | null, locale: SupportedLocale) => {
+  switch (sayAs) {
+    case "characters":
+      return spell(text);
+    case "digits":
+      return spell(text.replace(/\D/g, ""));
+    case "currency":
+      return RUPEES[locale](spell(text.replace(/\D/g, "")));
+    default:
+      return text;
+  }
+};
+
+/** Splits marked-up text into what a TTS engine says, in order. */
+export const parseSpeechMarkup = (
+  markup: string,
+  locale: SupportedLocale
+): SpeechSegment[] => {
+  const segments: SpeechSegment[] = [];
+  const rates = [1];
+  let sayAs: SayAs | null = null;
+  let position = 0;
+
+  const pushText = (text: string) => {
+    if (!text.trim()) return;
+    const rate = rates[rates.length - 1];
+    const spoken = expand(text, sayAs, locale);
+    const previous = segments.at(-1);
+    if (previous?.kind === "text" && previous.rate === rate) {
+      previous.text = `${previous.text}${spoken}`;
+    } else {
+      segments.push({ kind: "text", text: spoken, rate });
+    }
+  };
+
+  for (const match of markup.matchAll(TAG)) {
+    pushText(markup.slice(position, match.index));
+    position = match.index + match[0].length;
+
+    const [, closing, name, attributes] = match;
+    switch (name.toLowerCase()) {
+      case "break":
+        segments.push({
+          kind: "pause",
+          ms: parseBreak(attribute(attributes, "time")),
+        });
+        break;
+      case "prosody":
+        if (closing) {
+          if (rates.length > 1) rates.pop();
+        } else {
+          rates.push(
+            rates[rates.length - 1] * parseRate(attribute(attributes, "rate"))
+          );
+        }
+        break;
+      case "say-as": {
+        const kind = attribute(attributes, "interpret-as");
+        sayAs =
+          !closing &&
+          (kind === "characters" || kind === "digits" || kind === "currency")
+            ? kind
+            : null;
+        break;
+      }
+    }
+  }
+  pushText(markup.slice(position));
+
+  return segments;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Writes parsed segments back out as SSML for engines that take it, such as a
+ * carrier's TTS. `say-as` text is already spelled out, so it reads the same
+ * on every engine.
+ */
+export const toSsml = (segments: SpeechSegment[], locale: SupportedLocale) =>
+  `<speak xml:lang="${locale}">${segments
+    .map((segment) => {
+      if (segment.kind === "pause") return `<break time="${segment.ms}ms"/>`;
+      const text = escapeXml(segment.text);
+      return segment.rate === 1
+        ? text
+        : `<prosody rate="${Math.round(
+            segment.rate * 100
+          )}%">${text}</prosody>`;
+    })
+    .join("")}</speak>`;
+
+/** The line as it should appear in the transcript. */
+export const stripSpeechMarkup = (markup: string) =>
+  markup
+    .replace(TAG, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+
+export const sayCharacters = (text: string) =>
+  `<say-as interpret-as="characters">${text}</say-as>`;
+
+export const sayDigits = (text: string) =>
+  `<say-as interpret-as="digits">${text}</say-as>`;
+
+/** `formatted` is what the transcript shows, e.g. "₹1,299". */
+export const sayCurrency = (formatted: string) =>
+  `<say-as interpret-as="currency">${formatted}</say-as>`;
+
+export const slowly = (markup: string) =>
+  `<prosody rate="slow">${markup}</prosody>`;
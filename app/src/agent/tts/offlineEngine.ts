@@ -0,0 +1,62 @@
+import type { TtsEngine, TtsRequest } from "@/agent/tts/types";
+
+type Synthesize = (request: TtsRequest, signal: AbortSignal) => Promise<Blob>;
+
+/**
+ * Plays audio rendered elsewhere, normally the server's offline voice, so
+ * the agent sounds the same in every browser.
+ */
+export const createOfflineTtsEngine = (synthesize: Synthesize): TtsEngine => {
+  const supported =
+    typeof window !== "undefined" && typeof Audio !== "undefined";
+  let generation = 0;
+  let controller: AbortController | null = null;
+  let audio: HTMLAudioElement | null = null;
+
+  const release = () => {
+    if (!audio) return;
+    audio.pause();
+    URL.revokeObjectURL(audio.src);
+    audio = null;
+  };
+
+  const stop = () => {
+    generation += 1;
+    controller?.abort();
+    controller = null;
+    release();
+  };
+
+  return {
+    id: "offline",
+    supported,
+    speak: (request, { onEnd, onError }) => {
+      if (!supported) {
+        onEnd();
+        return;
+      }
+      stop();
+      const current = generation;
+      controller = new AbortController();
+
+      const finish = (error?: string) => {
+        if (current !== generation) return;
+        release();
+        if (error) onError?.(error);
+        onEnd();
+      };
+
+      synthesize(request, controller.signal)
+        .then((blob) => {
+          if (current !== generation) return;
+          audio = new Audio(URL.createObjectURL(blob));
+          audio.onended = () => finish();
+          audio.onerror = () =>
+            finish("The rendered audio could not be played");
+          return audio.play();
+        })
+        .catch((error: Error) => finish(error.message));
+    },
+    stop,
+  };
+};
@@ -0,0 +1,40 @@
+import { Clock, systemClock } from "@/agent/clock";
+import type { TtsEngine } from "@/agent/tts/types";
+
+/**
+ * Says nothing. Each request ends after its pauses plus `msPerWord` for every
+ * word, so flows can run without audio at roughly the pace of a real call.
+ */
+export const createSilentTtsEngine = ({
+  msPerWord = 0,
+  clock = systemClock,
+}: { msPerWord?: number; clock?: Clock } = {}): TtsEngine => {
+  let cancel: (() => void) | null = null;
+
+  const stop = () => {
+    cancel?.();
+    cancel = null;
+  };
+
+  return {
+    id: "silent",
+    supported: true,
+    speak: ({ segments, rate = 1 }, { onEnd }) => {
+      stop();
+      const duration = segments.reduce(
+        (total, segment) =>
+          total +
+          (segment.kind === "pause"
+            ? segment.ms
+            : (segment.text.split(/\s+/).length * msPerWord) /
+              (rate * segment.rate)),
+        0
+      );
+      cancel = clock.schedule(() => {
+        cancel = null;
+        onEnd();
+      }, duration);
+    },
+    stop,
+  };
+};
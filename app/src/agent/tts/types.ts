@@ -0,0 +1,42 @@
+import type { SupportedLocale } from "@/agent/i18n/locales";
+import type { SpeechSegment } from "@/agent/tts/markup";
+
+/** Voices the agent can pick between in the console. */
+export const CONSOLE_TTS_ENGINE_IDS = ["browser", "offline", "silent"] as const;
+
+export type ConsoleTtsEngineId = (typeof CONSOLE_TTS_ENGINE_IDS)[number];
+
+/** `carrier` speaks on the phone line whenever a real carrier has the call. */
+export type TtsEngineId = ConsoleTtsEngineId | "carrier";
+
+export const TTS_ENGINE_LABELS: Record<TtsEngineId, string> = {
+  browser: "Browser voice",
+  offline: "Offline voice (server)",
+  carrier: "Carrier voice (on the call)",
+  silent: "Silent",
+};
+
+export type TtsRequest = {
+  segments: SpeechSegment[];
+  locale: SupportedLocale;
+  /** Multiplies every segment's own rate; 1 is the engine's normal speed. */
+  rate?: number;
+};
+
+export type TtsHandlers = {
+  /** Fires once per `speak`, after the last segment or after a failure. */
+  onEnd: () => void;
+  onError?: (error: string) => void;
+};
+
+/**
+ * Turns segments into audio. `stop` or a newer `speak` cuts the current
+ * request off without calling its `onEnd`, so a stale line never moves the
+ * call on.
+ */
+export type TtsEngine = {
+  id: TtsEngineId;
+  supported: boolean;
+  speak: (request: TtsRequest, handlers: TtsHandlers) => void;
+  stop: () => void;
+};
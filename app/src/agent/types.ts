@@ -0,0 +1,207 @@
+import type { Order } from "@/data/orders";
+import type { AddressRevision } from "@/agent/address";
+import type { OrderAmendment } from "@/agent/amendments";
+import type { CancellationReason } from "@/agent/cancellation";
+import type { SupportedLocale } from "@/agent/i18n/locales";
+
+export type Speaker = "agent" | "customer" | "system" | "supervisor";
+
+export type ConversationEntry = {
+  speaker: Speaker;
+  message: string;
+  timestamp: string;
+  awaitingResponse?: boolean;
+  /** Set on an agent line the customer talked over before it finished. */
+  interrupted?: boolean;
+  /** Set on a supervisor line meant for the console only, not the customer. */
+  whisper?: boolean;
+};
+
+export type CallState =
+  | "idle"
+  | "dialing"
+  | "ringing"
+  | "speaking"
+  | "awaiting_response"
+  | "resolved"
+  | "muted"
+  | "no_answer"
+  | "busy"
+  | "voicemail"
+  | "dropped";
+
+export const UNREACHABLE_OUTCOMES = [
+  "no_answer",
+  "busy",
+  "voicemail",
+  "dropped",
+  "no_response",
+] as const;
+
+export type UnreachableOutcome = (typeof UNREACHABLE_OUTCOMES)[number];
+
+export const CALL_OUTCOMES = [
+  "confirmed",
+  "rescheduled",
+  "cancelled",
+  "needs_support",
+  "callback_requested",
+  "opted_out",
+  ...UNREACHABLE_OUTCOMES,
+] as const;
+
+export type CallOutcome = (typeof CALL_OUTCOMES)[number];
+
+export const CALL_OUTCOME_LABELS: Record<CallOutcome, string> = {
+  confirmed: "Order confirmed",
+  rescheduled: "Delivery rescheduled",
+  cancelled: "Order cancelled",
+  needs_support: "Escalated to support",
+  callback_requested: "Callback requested",
+  opted_out: "Opted out of calls",
+  no_answer: "No answer",
+  busy: "Line busy",
+  voicemail: "Reached voicemail",
+  dropped: "Call dropped",
+  no_response: "No response",
+};
+
+export type CustomerIntent =
+  | "confirm"
+  | "reschedule"
+  | "cancel"
+  | "query"
+  | "escalate"
+  | "modify"
+  | "opt_out";
+
+export type OrderItem = Order["items"][number] & {
+  /** Price of one unit in rupees. Items without one cannot be changed on a call. */
+  unitPrice?: number;
+};
+
+export type OrderRecord = Omit<Order, "items"> & {
+  items: OrderItem[];
+  lastOutcome?: CallOutcome;
+  updatedAt?: string;
+  /** Earliest time the customer should be called again after a failed attempt. */
+  retryAfter?: string;
+  /** Calls in a row that did not reach the customer. */
+  callAttempts?: number;
+  /** Set when the last retry failed and the order was settled without a call. */
+  retriesExhaustedAt?: string;
+  /** Language the agent should open the call in. Defaults to English. */
+  language?: SupportedLocale;
+  cancellationReason?: CancellationReason;
+  /** Item edits agreed on calls, oldest first. */
+  amendments?: OrderAmendment[];
+  /** Earlier addresses, oldest first, each with what the customer corrected. */
+  addressHistory?: AddressRevision[];
+  /** Set when the risk rules confirmed the order without a call. */
+  autoConfirmedAt?: string;
+};
+
+export const ORDER_STATUSES: OrderRecord["status"][] = [
+  "pending",
+  "confirmed",
+  "requires_followup",
+  "cancelled",
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderRecord["status"], string> = {
+  pending: "Pending confirmation",
+  confirmed: "Confirmed",
+  requires_followup: "Requires follow-up",
+  cancelled: "Cancelled",
+};
+
+/** Fields a call outcome may change; nothing else is sent back to the server. */
+export const OUTCOME_FIELDS = [
+  "status",
+  "deliverySlot",
+  "cancellationReason",
+  "items",
+  "total",
+  "amendments",
+  "address",
+  "addressHistory",
+  "retryAfter",
+  "callAttempts",
+  "retriesExhaustedAt",
+] as const satisfies readonly (keyof OrderRecord)[];
+
+export type OutcomeField = (typeof OUTCOME_FIELDS)[number];
+
+/** `null` clears a field the call removed, such as a retry no longer due. */
+export type OutcomeChanges = {
+  [Field in OutcomeField]?: OrderRecord[Field] | null;
+};
+
+export type CallRecord = {
+  id: string;
+  orderId: string;
+  customerName: string;
+  startedAt: string;
+  endedAt: string;
+  outcome: CallOutcome;
+  rescheduleSlot?: string;
+  /** Set when the customer changed items before confirming. */
+  amendment?: OrderAmendment;
+  /** Script node the call was on when it ended. */
+  lastNodeId?: string;
+  conversation: ConversationEntry[];
+};
+
+export type SmsStatus = "queued" | "sent" | "failed";
+
+export type SmsDeliveryAttempt = {
+  at: string;
+  ok: boolean;
+  error?: string;
+};
+
+export type SmsMessage = {
+  id: string;
+  orderId: string;
+  outcome: CallOutcome;
+  to: string;
+  body: string;
+  gateway: string;
+  status: SmsStatus;
+  providerMessageId?: string;
+  attempts: SmsDeliveryAttempt[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const ESCALATION_REASONS = [
+  "customer_request",
+  "no_suitable_slot",
+  "unpriced_items",
+] as const;
+
+export type EscalationReason = (typeof ESCALATION_REASONS)[number];
+
+export type TicketPriority = "high" | "normal" | "low";
+
+export type TicketStatus = "open" | "claimed" | "resolved";
+
+export type EscalationTicket = {
+  id: string;
+  orderId: string;
+  customerName: string;
+  phoneNumber: string;
+  orderTotal: number;
+  reason: EscalationReason;
+  priority: TicketPriority;
+  status: TicketStatus;
+  callId?: string;
+  transcript: ConversationEntry[];
+  createdAt: string;
+  /** When the customer was promised a call back by. */
+  slaDueAt: string;
+  claimedBy?: string;
+  claimedAt?: string;
+  resolvedAt?: string;
+  resolution?: { orderStatus: OrderRecord["status"]; note?: string };
+};
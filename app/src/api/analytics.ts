@@ -0,0 +1,5 @@
+import type { AnalyticsReport } from "@/agent/analytics";
+import { requestJson } from "@/api/request";
+
+export const fetchAnalyticsReport = async () =>
+  (await requestJson<{ report: AnalyticsReport }>("/api/analytics")).report;
@@ -0,0 +1,22 @@
+import type { CallOutcome, CallRecord } from "@/agent/types";
+import { requestJson } from "@/api/request";
+
+export const fetchCalls = async (
+  filters: { orderId?: string; outcome?: CallOutcome } = {}
+) => {
+  const query = new URLSearchParams();
+  if (filters.orderId) query.set("orderId", filters.orderId);
+  if (filters.outcome) query.set("outcome", filters.outcome);
+  const suffix = query.size ? `?${query}` : "";
+
+  return (await requestJson<{ calls: CallRecord[] }>(`/api/calls${suffix}`))
+    .calls;
+};
+
+export const saveCallRecord = async (call: Omit<CallRecord, "id">) =>
+  (
+    await requestJson<{ call: CallRecord }>("/api/calls", {
+      method: "POST",
+      body: JSON.stringify(call),
+    })
+  ).call;
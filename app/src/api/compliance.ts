@@ -0,0 +1,61 @@
+import type {
+  ComplianceAuditEntry,
+  OptOutEntry,
+  OptOutSource,
+} from "@/agent/compliance";
+import { requestJson } from "@/api/request";
+
+export type DialCheck = {
+  allowed: boolean;
+  optOut: OptOutEntry | null;
+  entry: ComplianceAuditEntry;
+};
+
+export const checkDialPermission = (phoneNumber: string, orderId?: string) =>
+  requestJson<DialCheck>("/api/compliance/dial-check", {
+    method: "POST",
+    body: JSON.stringify({ phoneNumber, orderId }),
+  });
+
+export const fetchOptOuts = async () =>
+  (await requestJson<{ optOuts: OptOutEntry[] }>("/api/compliance/opt-outs"))
+    .optOuts;
+
+export const registerOptOut = async (request: {
+  phoneNumber: string;
+  source: OptOutSource;
+  orderId?: string;
+  callId?: string;
+  note?: string;
+}) =>
+  (
+    await requestJson<{ optOut: OptOutEntry }>("/api/compliance/opt-outs", {
+      method: "POST",
+      body: JSON.stringify(request),
+    })
+  ).optOut;
+
+export const recordDisclosure = async (record: {
+  phoneNumber: string;
+  orderId?: string;
+  callId?: string;
+  text: string;
+}) =>
+  (
+    await requestJson<{ entry: ComplianceAuditEntry }>(
+      "/api/compliance/disclosures",
+      {
+        method: "POST",
+        body: JSON.stringify(record),
+      }
+    )
+  ).entry;
+
+export const fetchAuditLog = async (orderId?: string) => {
+  const suffix = orderId ? `?${new URLSearchParams({ orderId })}` : "";
+  return (
+    await requestJson<{ entries: ComplianceAuditEntry[] }>(
+      `/api/compliance/audit${suffix}`
+    )
+  ).entries;
+};
@@ -0,0 +1,38 @@
+import {
+  CallOutcome,
+  OrderRecord,
+  OUTCOME_FIELDS,
+  OutcomeChanges,
+} from "@/agent/types";
+import { requestJson } from "@/api/request";
+import type { OrderPatch } from "@/server/orderStore";
+
+export const fetchOrders = async () =>
+  (await requestJson<{ orders: OrderRecord[] }>("/api/orders")).orders;
+
+export const updateOrder = async (id: string, patch: OrderPatch) =>
+  (
+    await requestJson<{ order: OrderRecord }>(
+      `/api/orders/${encodeURIComponent(id)}`,
+      { method: "PATCH", body: JSON.stringify(patch) }
+    )
+  ).order;
+
+/** Sends only the outcome fields that differ between `before` and `after`. */
+export const saveCallOutcome = async (
+  outcome: CallOutcome,
+  before: OrderRecord,
+  after: OrderRecord
+) => {
+  const changes: OutcomeChanges = Object.fromEntries(
+    OUTCOME_FIELDS.filter((field) => after[field] !== before[field]).map(
+      (field) => [field, after[field] ?? null]
+    )
+  );
+  return (
+    await requestJson<{ order: OrderRecord }>(
+      `/api/orders/${encodeURIComponent(before.id)}/outcome`,
+      { method: "POST", body: JSON.stringify({ outcome, changes }) }
+    )
+  ).order;
+};
@@ -0,0 +1,11 @@
+import type { RefundRecord } from "@/agent/cancellation";
+import { requestJson } from "@/api/request";
+
+/** Resolves to `null` when the order was never charged, e.g. COD. */
+export const initiateRefund = async (orderId: string) =>
+  (
+    await requestJson<{ refund: RefundRecord | null }>("/api/refunds", {
+      method: "POST",
+      body: JSON.stringify({ orderId }),
+    })
+  ).refund;
@@ -0,0 +1,16 @@
+export const requestJson = async <T>(
+  input: string,
+  init?: RequestInit
+): Promise<T> => {
+  const response = await fetch(input, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(
+      body?.error ?? `Request to ${input} failed (${response.status})`
+    );
+  }
+  return body as T;
+};
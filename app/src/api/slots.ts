@@ -0,0 +1,29 @@
+import type { DeliverySlot } from "@/agent/slots";
+import { requestJson } from "@/api/request";
+
+export const fetchSlots = async (pincode: string) =>
+  (
+    await requestJson<{ slots: DeliverySlot[] }>(
+      `/api/slots?pincode=${encodeURIComponent(pincode)}`
+    )
+  ).slots;
+
+export const reserveSlot = async (slot: DeliverySlot, orderId: string) =>
+  (
+    await requestJson<{ slot: DeliverySlot }>("/api/slots/reservations", {
+      method: "POST",
+      body: JSON.stringify({
+        pincode: slot.pincode,
+        slotId: slot.id,
+        orderId,
+      }),
+    })
+  ).slot;
+
+/** Gives back the slot an order reserved but did not keep. */
+export const releaseSlot = async (orderId: string) => {
+  await requestJson<null>(
+    `/api/slots/reservations?orderId=${encodeURIComponent(orderId)}`,
+    { method: "DELETE" }
+  );
+};
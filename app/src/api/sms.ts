@@ -0,0 +1,25 @@
+import type { CallOutcome, SmsMessage } from "@/agent/types";
+import { requestJson } from "@/api/request";
+
+export const fetchSms = async (orderId: string) =>
+  (
+    await requestJson<{ messages: SmsMessage[] }>(
+      `/api/sms?orderId=${encodeURIComponent(orderId)}`
+    )
+  ).messages;
+
+export const sendOutcomeSms = async (orderId: string, outcome: CallOutcome) =>
+  (
+    await requestJson<{ message: SmsMessage }>("/api/sms", {
+      method: "POST",
+      body: JSON.stringify({ orderId, outcome }),
+    })
+  ).message;
+
+export const retrySms = async (id: string) =>
+  (
+    await requestJson<{ message: SmsMessage }>(
+      `/api/sms/${encodeURIComponent(id)}/retry`,
+      { method: "POST" }
+    )
+  ).message;
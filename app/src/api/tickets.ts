@@ -0,0 +1,51 @@
+import type {
+  ConversationEntry,
+  EscalationReason,
+  EscalationTicket,
+  OrderRecord,
+  TicketStatus,
+} from "@/agent/types";
+import { requestJson } from "@/api/request";
+
+export const fetchTickets = async (status?: TicketStatus) =>
+  (
+    await requestJson<{ tickets: EscalationTicket[] }>(
+      status ? `/api/tickets?status=${status}` : "/api/tickets"
+    )
+  ).tickets;
+
+export const openTicket = async (ticket: {
+  orderId: string;
+  reason: EscalationReason;
+  callId?: string;
+  transcript: ConversationEntry[];
+}) =>
+  (
+    await requestJson<{ ticket: EscalationTicket }>("/api/tickets", {
+      method: "POST",
+      body: JSON.stringify(ticket),
+    })
+  ).ticket;
+
+export const claimTicket = async (id: string, supervisor: string) =>
+  (
+    await requestJson<{ ticket: EscalationTicket }>(
+      `/api/tickets/${encodeURIComponent(id)}/claim`,
+      { method: "POST", body: JSON.stringify({ supervisor }) }
+    )
+  ).ticket;
+
+export const resolveTicket = async (
+  id: string,
+  resolution: {
+    supervisor: string;
+    orderStatus: OrderRecord["status"];
+    note?: string;
+  }
+) =>
+  (
+    await requestJson<{ ticket: EscalationTicket }>(
+      `/api/tickets/${encodeURIComponent(id)}/resolve`,
+      { method: "POST", body: JSON.stringify(resolution) }
+    )
+  ).ticket;
@@ -0,0 +1,21 @@
+import type { TtsRequest } from "@/agent/tts/types";
+
+/** Renders a line with the server's offline voice and returns the WAV audio. */
+export const synthesizeSpeech = async (
+  request: TtsRequest,
+  signal?: AbortSignal
+) => {
+  const response = await fetch("/api/tts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(
+      body?.error ?? `Request to /api/tts failed (${response.status})`
+    );
+  }
+  return response.blob();
+};
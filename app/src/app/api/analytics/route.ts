@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { getAnalyticsReport } from "@/server/analytics";
+
+export async function GET() {
+  const report = await getAnalyticsReport();
+  return NextResponse.json({ report });
+}
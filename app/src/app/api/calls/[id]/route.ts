@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getCall } from "@/server/callStore";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const call = await getCall(id);
+  if (!call) {
+    return NextResponse.json({ error: "Call not found" }, { status: 404 });
+  }
+  return NextResponse.json({ call });
+}
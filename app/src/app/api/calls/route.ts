@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { CALL_OUTCOMES, CallOutcome, CallRecord } from "@/agent/types";
+import { listCalls, saveCall } from "@/server/callStore";
+
+const isOutcome = (value: unknown): value is CallOutcome =>
+  CALL_OUTCOMES.includes(value as CallOutcome);
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const outcome = searchParams.get("outcome");
+
+  const calls = await listCalls({
+    orderId: searchParams.get("orderId") ?? undefined,
+    outcome: isOutcome(outcome) ? outcome : undefined,
+  });
+  return NextResponse.json({ calls });
+}
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as Omit<
+    CallRecord,
+    "id"
+  > | null;
+  if (
+    !body ||
+    typeof body.orderId !== "string" ||
+    !isOutcome(body.outcome) ||
+    !Array.isArray(body.conversation) ||
+    Number.isNaN(Date.parse(body.startedAt)) ||
+    Number.isNaN(Date.parse(body.endedAt))
+  ) {
+    return NextResponse.json({ error: "Invalid call record" }, { status: 400 });
+  }
+
+  const call = await saveCall({
+    orderId: body.orderId,
+    customerName: body.customerName,
+    startedAt: body.startedAt,
+    endedAt: body.endedAt,
+    outcome: body.outcome,
+    rescheduleSlot: body.rescheduleSlot || undefined,
+    amendment: body.amendment || undefined,
+    lastNodeId:
+      typeof body.lastNodeId === "string" ? body.lastNodeId : undefined,
+    conversation: body.conversation,
+  });
+  return NextResponse.json({ call }, { status: 201 });
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { listAuditLog } from "@/server/complianceStore";
+
+export async function GET(request: Request) {
+  const orderId = new URL(request.url).searchParams.get("orderId");
+  const entries = await listAuditLog({ orderId: orderId ?? undefined });
+  return NextResponse.json({ entries });
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { checkDialPermission } from "@/server/complianceStore";
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as {
+    phoneNumber?: string;
+    orderId?: string;
+  } | null;
+  if (typeof body?.phoneNumber !== "string" || !body.phoneNumber.trim()) {
+    return NextResponse.json({ error: "Invalid dial check" }, { status: 400 });
+  }
+
+  const result = await checkDialPermission({
+    phoneNumber: body.phoneNumber,
+    orderId: typeof body.orderId === "string" ? body.orderId : undefined,
+  });
+  return NextResponse.json(result);
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { recordDisclosure } from "@/server/complianceStore";
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as {
+    phoneNumber?: string;
+    orderId?: string;
+    callId?: string;
+    text?: string;
+  } | null;
+  if (
+    typeof body?.phoneNumber !== "string" ||
+    typeof body.text !== "string" ||
+    !body.text.trim()
+  ) {
+    return NextResponse.json(
+      { error: "Invalid disclosure record" },
+      { status: 400 }
+    );
+  }
+
+  const entry = await recordDisclosure({
+    phoneNumber: body.phoneNumber,
+    orderId: typeof body.orderId === "string" ? body.orderId : undefined,
+    callId: typeof body.callId === "string" ? body.callId : undefined,
+    text: body.text,
+  });
+  return NextResponse.json({ entry }, { status: 201 });
+}
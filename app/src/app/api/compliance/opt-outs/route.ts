@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { normalizePhoneNumber, OptOutSource } from "@/agent/compliance";
+import { listOptOuts, registerOptOut } from "@/server/complianceStore";
+
+const SOURCES: OptOutSource[] = ["call", "manual"];
+
+export async function GET() {
+  return NextResponse.json({ optOuts: await listOptOuts() });
+}
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as {
+    phoneNumber?: string;
+    source?: OptOutSource;
+    orderId?: string;
+    callId?: string;
+    note?: string;
+  } | null;
+  if (
+    typeof body?.phoneNumber !== "string" ||
+    normalizePhoneNumber(body.phoneNumber).length < 10 ||
+    !SOURCES.includes(body.source as OptOutSource)
+  ) {
+    return NextResponse.json(
+      { error: "Invalid opt-out request" },
+      { status: 400 }
+    );
+  }
+
+  const optOut = await registerOptOut({
+    phoneNumber: body.phoneNumber,
+    source: body.source as OptOutSource,
+    orderId: typeof body.orderId === "string" ? body.orderId : undefined,
+    callId: typeof body.callId === "string" ? body.callId : undefined,
+    note: body.note?.trim() || undefined,
+  });
+  return NextResponse.json({ optOut }, { status: 201 });
+}
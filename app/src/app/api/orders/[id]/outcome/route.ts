@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { CANCELLATION_REASONS } from "@/agent/cancellation";
+import {
+  CALL_OUTCOMES,
+  CallOutcome,
+  ORDER_STATUSES,
+  OrderRecord,
+  OUTCOME_FIELDS,
+  OutcomeChanges,
+  OutcomeField,
+} from "@/agent/types";
+import { recordOutcome } from "@/server/orderStore";
+
+type Params = { params: Promise<{ id: string }> };
+
+type OutcomeBody = {
+  outcome: CallOutcome;
+  changes: OutcomeChanges;
+};
+
+const isText = (value: unknown) => typeof value === "string" && value !== "";
+const isTime = (value: unknown) =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value));
+const isCount = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/** Checks each field a call may set; `null` is only allowed where it clears. */
+const VALID_CHANGE: Record<OutcomeField, (value: unknown) => boolean> = {
+  status: (value) => ORDER_STATUSES.includes(value as OrderRecord["status"]),
+  deliverySlot: isText,
+  cancellationReason: (value) =>
+    value === null ||
+    CANCELLATION_REASONS.includes(
+      value as (typeof CANCELLATION_REASONS)[number]
+    ),
+  items: (value) => Array.isArray(value) && value.length > 0,
+  total: isCount,
+  amendments: Array.isArray,
+  address: isText,
+  addressHistory: Array.isArray,
+  retryAfter: (value) => value === null || isTime(value),
+  callAttempts: (value) => value === null || isCount(value),
+  retriesExhaustedAt: (value) => value === null || isTime(value),
+};
+
+const isValidChanges = (changes: unknown): changes is OutcomeChanges =>
+  typeof changes === "object" &&
+  changes !== null &&
+  Object.entries(changes).every(
+    ([field, value]) =>
+      (OUTCOME_FIELDS as readonly string[]).includes(field) &&
+      VALID_CHANGE[field as OutcomeField](value)
+  );
+
+export async function POST(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = (await request.json().catch(() => null)) as OutcomeBody | null;
+  if (
+    !body ||
+    !CALL_OUTCOMES.includes(body.outcome) ||
+    !isValidChanges(body.changes)
+  ) {
+    return NextResponse.json(
+      { error: "Invalid call outcome" },
+      { status: 400 }
+    );
+  }
+
+  const order = await recordOutcome(id, body.outcome, body.changes);
+  if (!order) {
+    return NextResponse.json({ error: "Order not found" }, { status: 404 });
+  }
+  return NextResponse.json({ order });
+}
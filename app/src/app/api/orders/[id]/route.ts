@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { isSupportedLocale } from "@/agent/i18n/locales";
+import { ORDER_STATUSES } from "@/agent/types";
+import { getOrder, OrderPatch, updateOrder } from "@/server/orderStore";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const order = await getOrder(id);
+  if (!order) {
+    return NextResponse.json({ error: "Order not found" }, { status: 404 });
+  }
+  return NextResponse.json({ order });
+}
+
+export async function PATCH(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = (await request.json().catch(() => null)) as OrderPatch | null;
+  if (
+    !body ||
+    (body.status && !ORDER_STATUSES.includes(body.status)) ||
+    (body.language !== undefined && !isSupportedLocale(body.language)) ||
+    (body.autoConfirmedAt !== undefined &&
+      Number.isNaN(Date.parse(body.autoConfirmedAt)))
+  ) {
+    return NextResponse.json(
+      { error: "Invalid order update" },
+      { status: 400 }
+    );
+  }
+
+  const patch: OrderPatch = {};
+  if (body.status) patch.status = body.status;
+  if (typeof body.deliverySlot === "string")
+    patch.deliverySlot = body.deliverySlot;
+  if (typeof body.notes === "string") patch.notes = body.notes;
+  if (body.language) patch.language = body.language;
+  if (body.autoConfirmedAt) patch.autoConfirmedAt = body.autoConfirmedAt;
+
+  const order = await updateOrder(id, patch);
+  if (!order) {
+    return NextResponse.json({ error: "Order not found" }, { status: 404 });
+  }
+  return NextResponse.json({ order });
+}
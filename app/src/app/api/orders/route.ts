@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server";
+import { listOrders } from "@/server/orderStore";
+
+export async function GET() {
+  return NextResponse.json({ orders: await listOrders() });
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getOrder } from "@/server/orderStore";
+import { initiateRefund, listRefunds } from "@/server/refundStore";
+
+export async function GET(request: Request) {
+  const orderId = new URL(request.url).searchParams.get("orderId");
+  const refunds = await listRefunds({ orderId: orderId ?? undefined });
+  return NextResponse.json({ refunds });
+}
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as {
+    orderId?: string;
+  } | null;
+  if (typeof body?.orderId !== "string") {
+    return NextResponse.json(
+      { error: "Invalid refund request" },
+      { status: 400 }
+    );
+  }
+
+  const order = await getOrder(body.orderId);
+  if (!order) {
+    return NextResponse.json({ error: "Order not found" }, { status: 404 });
+  }
+  if (order.status !== "cancelled") {
+    return NextResponse.json(
+      { error: "Only cancelled orders can be refunded" },
+      { status: 409 }
+    );
+  }
+
+  const refund = await initiateRefund(order);
+  return NextResponse.json({ refund }, { status: refund ? 201 : 200 });
+}
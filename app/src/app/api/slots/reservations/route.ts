@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { releaseSlot, reserveSlot } from "@/server/slotStore";
+
+type ReservationBody = { pincode?: string; slotId?: string; orderId?: string };
+
+const RESERVATION_ERRORS = {
+  unknown_slot: { message: "Slot is no longer offered", status: 404 },
+  slot_full: { message: "Slot is fully booked", status: 409 },
+};
+
+export async function POST(request: Request) {
+  const body = (await request
+    .json()
+    .catch(() => null)) as ReservationBody | null;
+  if (
+    typeof body?.pincode !== "string" ||
+    typeof body.slotId !== "string" ||
+    typeof body.orderId !== "string"
+  ) {
+    return NextResponse.json(
+      { error: "Invalid slot reservation" },
+      { status: 400 }
+    );
+  }
+
+  const result = await reserveSlot(body.pincode, body.slotId, body.orderId);
+  if ("error" in result) {
+    const { message, status } = RESERVATION_ERRORS[result.error];
+    return NextResponse.json({ error: message }, { status });
+  }
+  return NextResponse.json({ slot: result.slot }, { status: 201 });
+}
+
+export async function DELETE(request: Request) {
+  const orderId = new URL(request.url).searchParams.get("orderId");
+  if (!orderId) {
+    return NextResponse.json({ error: "Missing orderId" }, { status: 400 });
+  }
+
+  return NextResponse.json({ released: await releaseSlot(orderId) });
+}
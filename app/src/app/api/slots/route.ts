@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { listAvailableSlots } from "@/server/slotStore";
+
+export async function GET(request: Request) {
+  const pincode = new URL(request.url).searchParams.get("pincode");
+  if (!pincode || !/^\d{6}$/.test(pincode)) {
+    return NextResponse.json(
+      { error: "A 6-digit pincode is required" },
+      { status: 400 }
+    );
+  }
+
+  const slots = await listAvailableSlots(pincode);
+  return NextResponse.json({ slots });
+}
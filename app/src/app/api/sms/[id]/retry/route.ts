@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { retrySms } from "@/server/smsStore";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function POST(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const message = await retrySms(id);
+  if (!message) {
+    return NextResponse.json({ error: "Message not found" }, { status: 404 });
+  }
+  return NextResponse.json({ message });
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { CALL_OUTCOMES, CallOutcome } from "@/agent/types";
+import { getOrder } from "@/server/orderStore";
+import { listSms, sendOutcomeSms } from "@/server/smsStore";
+
+type SmsBody = {
+  orderId: string;
+  outcome: CallOutcome;
+};
+
+export async function GET(request: Request) {
+  const orderId = new URL(request.url).searchParams.get("orderId");
+  const messages = await listSms({ orderId: orderId ?? undefined });
+  return NextResponse.json({ messages });
+}
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as SmsBody | null;
+  if (
+    !body ||
+    typeof body.orderId !== "string" ||
+    !CALL_OUTCOMES.includes(body.outcome)
+  ) {
+    return NextResponse.json({ error: "Invalid SMS request" }, { status: 400 });
+  }
+
+  const order = await getOrder(body.orderId);
+  if (!order) {
+    return NextResponse.json({ error: "Order not found" }, { status: 404 });
+  }
+
+  const message = await sendOutcomeSms(order, body.outcome);
+  return NextResponse.json({ message }, { status: 201 });
+}
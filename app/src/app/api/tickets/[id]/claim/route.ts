@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { ticketResponse } from "@/server/ticketErrors";
+import { claimTicket } from "@/server/ticketStore";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function POST(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = (await request.json().catch(() => null)) as {
+    supervisor?: string;
+  } | null;
+  const supervisor = body?.supervisor?.trim();
+  if (!supervisor) {
+    return NextResponse.json(
+      { error: "Supervisor name is required" },
+      { status: 400 }
+    );
+  }
+
+  return ticketResponse(await claimTicket(id, supervisor));
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { ORDER_STATUSES, OrderRecord } from "@/agent/types";
+import { ticketResponse } from "@/server/ticketErrors";
+import { resolveTicket } from "@/server/ticketStore";
+
+type Params = { params: Promise<{ id: string }> };
+
+type ResolveBody = {
+  supervisor?: string;
+  orderStatus?: OrderRecord["status"];
+  note?: string;
+};
+
+export async function POST(request: Request, { params }: Params) {
+  const { id } = await params;
+  const body = (await request.json().catch(() => null)) as ResolveBody | null;
+  const supervisor = body?.supervisor?.trim();
+  if (
+    !supervisor ||
+    !body?.orderStatus ||
+    !ORDER_STATUSES.includes(body.orderStatus)
+  ) {
+    return NextResponse.json(
+      { error: "Invalid ticket resolution" },
+      { status: 400 }
+    );
+  }
+
+  return ticketResponse(
+    await resolveTicket(id, supervisor, {
+      orderStatus: body.orderStatus,
+      note: body.note?.trim() || undefined,
+    })
+  );
+}
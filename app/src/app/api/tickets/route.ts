@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import {
+  ConversationEntry,
+  ESCALATION_REASONS,
+  EscalationReason,
+  TicketStatus,
+} from "@/agent/types";
+import { getOrder } from "@/server/orderStore";
+import { listTickets, openTicket } from "@/server/ticketStore";
+
+const TICKET_STATUSES: TicketStatus[] = ["open", "claimed", "resolved"];
+
+type TicketBody = {
+  orderId: string;
+  reason: EscalationReason;
+  callId?: string;
+  transcript: ConversationEntry[];
+};
+
+export async function GET(request: Request) {
+  const status = new URL(request.url).searchParams.get("status");
+  const tickets = await listTickets({
+    status: TICKET_STATUSES.find((candidate) => candidate === status),
+  });
+  return NextResponse.json({ tickets });
+}
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as TicketBody | null;
+  if (
+    !body ||
+    typeof body.orderId !== "string" ||
+    !ESCALATION_REASONS.includes(body.reason) ||
+    !Array.isArray(body.transcript)
+  ) {
+    return NextResponse.json({ error: "Invalid ticket" }, { status: 400 });
+  }
+
+  const order = await getOrder(body.orderId);
+  if (!order) {
+    return NextResponse.json({ error: "Order not found" }, { status: 404 });
+  }
+
+  const ticket = await openTicket({
+    order,
+    reason: body.reason,
+    callId: body.callId || undefined,
+    transcript: body.transcript,
+  });
+  return NextResponse.json({ ticket }, { status: 201 });
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { isSupportedLocale } from "@/agent/i18n/locales";
+import type { SpeechSegment } from "@/agent/tts/markup";
+import type { TtsRequest } from "@/agent/tts/types";
+import { createEspeakRenderer } from "@/server/tts/espeakRenderer";
+
+/** Longest line, in characters, the route will render. */
+const MAX_TEXT_LENGTH = 2_000;
+
+const renderer = createEspeakRenderer({
+  binary: process.env.ESPEAK_BINARY || undefined,
+});
+
+const isSegment = (value: unknown): value is SpeechSegment => {
+  const segment = value as SpeechSegment | null;
+  if (!segment || typeof segment !== "object") return false;
+  return segment.kind === "pause"
+    ? typeof segment.ms === "number" && segment.ms >= 0 && segment.ms <= 5_000
+    : segment.kind === "text" &&
+        typeof segment.text === "string" &&
+        typeof segment.rate === "number" &&
+        segment.rate > 0;
+};
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as TtsRequest | null;
+  if (
+    !body ||
+    !isSupportedLocale(body.locale) ||
+    !Array.isArray(body.segments) ||
+    !body.segments.every(isSegment) ||
+    (body.rate !== undefined &&
+      (typeof body.rate !== "number" || body.rate <= 0))
+  ) {
+    return NextResponse.json(
+      { error: "Invalid speech request" },
+      { status: 400 }
+    );
+  }
+
+  const length = body.segments.reduce(
+    (total, segment) =>
+      total + (segment.kind === "text" ? segment.text.length : 0),
+    0
+  );
+  if (length > MAX_TEXT_LENGTH) {
+    return NextResponse.json({ error: "Line is too long" }, { status: 413 });
+  }
+
+  try {
+    const audio = await renderer.render(body);
+    return new NextResponse(new Uint8Array(audio), {
+      headers: { "Content-Type": "audio/wav", "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: `Offline voice unavailable: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      },
+      { status: 503 }
+    );
+  }
+}
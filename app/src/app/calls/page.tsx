@@ -0,0 +1,29 @@
+import { CallHistory } from "@/components/CallHistory";
+import { StudioNav } from "@/components/StudioNav";
+
+export default async function CallsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ orderId?: string }>;
+}) {
+  const { orderId } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-zinc-100 px-6 py-12 font-sans text-zinc-900 dark:from-zinc-950 dark:via-zinc-900 dark:to-zinc-950 dark:text-zinc-50">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8">
+        <StudioNav current="/calls" />
+        <div className="space-y-2">
+          <h1 className="text-4xl font-semibold leading-tight text-zinc-900 dark:text-zinc-50">
+            Call history
+          </h1>
+          <p className="max-w-2xl text-base text-zinc-600 dark:text-zinc-400">
+            Every completed confirmation call with its outcome and full
+            transcript. Replay a call to review how the conversation unfolded.
+          </p>
+        </div>
+
+        <CallHistory initialOrderId={orderId ?? ""} />
+      </div>
+    </div>
+  );
+}
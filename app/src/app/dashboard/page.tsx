@@ -0,0 +1,23 @@
+import { OperationsDashboard } from "@/components/OperationsDashboard";
+import { StudioNav } from "@/components/StudioNav";
+
+export default function DashboardPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-zinc-100 px-6 py-12 font-sans text-zinc-900 dark:from-zinc-950 dark:via-zinc-900 dark:to-zinc-950 dark:text-zinc-50">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8">
+        <StudioNav current="/dashboard" />
+        <div className="space-y-2">
+          <h1 className="text-4xl font-semibold leading-tight text-zinc-900 dark:text-zinc-50">
+            Operations dashboard
+          </h1>
+          <p className="max-w-2xl text-base text-zinc-600 dark:text-zinc-400">
+            How confirmation calls end, broken down by day, payment method and
+            order value, and where in the script customers hang up.
+          </p>
+        </div>
+
+        <OperationsDashboard />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { LiveCallMonitor } from "@/components/LiveCallMonitor";
+import { StudioNav } from "@/components/StudioNav";
+
+export default function MonitorPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-zinc-100 px-6 py-12 font-sans text-zinc-900 dark:from-zinc-950 dark:via-zinc-900 dark:to-zinc-950 dark:text-zinc-50">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8">
+        <StudioNav current="/monitor" />
+        <div className="space-y-2">
+          <h1 className="text-4xl font-semibold leading-tight text-zinc-900 dark:text-zinc-50">
+            Live monitor
+          </h1>
+          <p className="max-w-2xl text-base text-zinc-600 dark:text-zinc-400">
+            Follow calls as they happen. Whisper a suggestion to the console, or
+            take over when the agent is stuck and finish the call yourself. The
+            monitor follows call consoles open in other tabs of this browser
+            only.
+          </p>
+        </div>
+
+        <LiveCallMonitor />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { EscalationQueue } from "@/components/EscalationQueue";
+import { StudioNav } from "@/components/StudioNav";
+
+export default function SupervisorPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-zinc-100 px-6 py-12 font-sans text-zinc-900 dark:from-zinc-950 dark:via-zinc-900 dark:to-zinc-950 dark:text-zinc-50">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8">
+        <StudioNav current="/supervisor" />
+        <div className="space-y-2">
+          <h1 className="text-4xl font-semibold leading-tight text-zinc-900 dark:text-zinc-50">
+            Escalation queue
+          </h1>
+          <p className="max-w-2xl text-base text-zinc-600 dark:text-zinc-400">
+            Calls the agent handed to a senior specialist. Each customer was
+            promised a call back within the hour, so work the oldest and
+            highest-priority tickets first.
+          </p>
+        </div>
+
+        <EscalationQueue />
+      </div>
+    </div>
+  );
+}
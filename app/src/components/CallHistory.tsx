@@ -0,0 +1,224 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { describeChange } from "@/agent/amendments";
+import { formatDateTime, formatElapsed } from "@/agent/format";
+import {
+  CALL_OUTCOME_LABELS,
+  CALL_OUTCOMES,
+  CallOutcome,
+  CallRecord,
+} from "@/agent/types";
+import { fetchCalls } from "@/api/calls";
+
+const REPLAY_MAX_GAP = 2500;
+
+export const CallHistory = ({ initialOrderId }: { initialOrderId: string }) => {
+  const [calls, setCalls] = useState<CallRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [outcomeFilter, setOutcomeFilter] = useState<CallOutcome | "all">(
+    "all"
+  );
+  const [orderFilter, setOrderFilter] = useState<string>(initialOrderId);
+  const [selectedCallId, setSelectedCallId] = useState<string | null>(null);
+  const [replayIndex, setReplayIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCalls({
+      orderId: orderFilter.trim() || undefined,
+      outcome: outcomeFilter === "all" ? undefined : outcomeFilter,
+    })
+      .then((result) => {
+        if (cancelled) return;
+        setCalls(result);
+        setError(null);
+      })
+      .catch((reason: Error) => {
+        if (!cancelled) setError(reason.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [orderFilter, outcomeFilter]);
+
+  const callsByOrder = useMemo(() => {
+    const groups = new Map<string, CallRecord[]>();
+    calls.forEach((call) => {
+      groups.set(call.orderId, [...(groups.get(call.orderId) ?? []), call]);
+    });
+    return [...groups.entries()];
+  }, [calls]);
+
+  const selectedCall = calls.find((call) => call.id === selectedCallId) ?? null;
+
+  useEffect(() => {
+    if (replayIndex === null || !selectedCall) return;
+    const { conversation } = selectedCall;
+    if (replayIndex >= conversation.length) return;
+
+    const previous = conversation[replayIndex - 1];
+    const gap = previous
+      ? Date.parse(conversation[replayIndex].timestamp) -
+        Date.parse(previous.timestamp)
+      : 0;
+    const timeoutId = window.setTimeout(() => {
+      setReplayIndex(replayIndex + 1);
+    }, Math.min(Math.max(gap, 0), REPLAY_MAX_GAP));
+
+    return () => window.clearTimeout(timeoutId);
+  }, [replayIndex, selectedCall]);
+
+  const visibleEntries = selectedCall
+    ? selectedCall.conversation.slice(
+        0,
+        replayIndex ?? selectedCall.conversation.length
+      )
+    : [];
+  const replaying =
+    selectedCall !== null &&
+    replayIndex !== null &&
+    replayIndex < selectedCall.conversation.length;
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[minmax(0,360px)_minmax(0,1fr)]">
+      <aside className="rounded-3xl border border-zinc-200 bg-white/80 p-5 shadow-sm backdrop-blur-lg dark:border-zinc-800 dark:bg-zinc-900/60">
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-2 text-sm">
+            <input
+              type="search"
+              value={orderFilter}
+              onChange={(event) => setOrderFilter(event.target.value)}
+              placeholder="Filter by order id"
+              className="rounded-full border border-zinc-200 bg-white px-4 py-2 text-zinc-800 placeholder:text-zinc-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+            />
+            <select
+              value={outcomeFilter}
+              onChange={(event) =>
+                setOutcomeFilter(event.target.value as CallOutcome | "all")
+              }
+              className="rounded-full border border-zinc-200 bg-white px-4 py-2 text-zinc-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+            >
+              <option value="all">All outcomes</option>
+              {CALL_OUTCOMES.map((outcome) => (
+                <option key={outcome} value={outcome}>
+                  {CALL_OUTCOME_LABELS[outcome]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error ? (
+            <div className="rounded-2xl border border-amber-300/60 bg-amber-100/70 px-3 py-2 text-xs font-medium text-amber-800 dark:border-amber-500/30 dark:bg-amber-500/20 dark:text-amber-100">
+              Could not load calls: {error}
+            </div>
+          ) : null}
+
+          {callsByOrder.length === 0 ? (
+            <p className="py-6 text-center text-sm text-zinc-400 dark:text-zinc-500">
+              No calls match these filters yet.
+            </p>
+          ) : (
+            callsByOrder.map(([orderId, orderCalls]) => (
+              <div key={orderId} className="flex flex-col gap-2">
+                <div className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+                  {orderId} · {orderCalls[0].customerName}
+                </div>
+                {orderCalls.map((call) => (
+                  <button
+                    key={call.id}
+                    type="button"
+                    onClick={() => {
+                      setSelectedCallId(call.id);
+                      setReplayIndex(null);
+                    }}
+                    className={`rounded-2xl border p-3 text-left text-sm transition-colors ${
+                      call.id === selectedCallId
+                        ? "border-purple-500 bg-purple-500/10 dark:border-purple-400/80"
+                        : "border-zinc-200 hover:border-purple-400 hover:bg-purple-50 dark:border-zinc-800 dark:hover:bg-zinc-800"
+                    }`}
+                  >
+                    <div className="font-medium text-zinc-900 dark:text-zinc-50">
+                      {CALL_OUTCOME_LABELS[call.outcome]}
+                    </div>
+                    <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                      {formatDateTime(call.startedAt)} ·{" "}
+                      {formatElapsed(call.startedAt, call.endedAt)}
+                      {call.rescheduleSlot ? ` · ${call.rescheduleSlot}` : ""}
+                      {call.amendment
+                        ? ` · ${call.amendment.changes
+                            .map(describeChange)
+                            .join(", ")}`
+                        : ""}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      </aside>
+
+      <section className="rounded-3xl border border-zinc-200 bg-white/90 p-6 shadow-sm backdrop-blur-xl dark:border-zinc-800 dark:bg-zinc-900/70">
+        {selectedCall ? (
+          <div className="flex flex-col gap-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">
+                  {selectedCall.customerName}
+                </h2>
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                  {selectedCall.orderId} ·{" "}
+                  {formatDateTime(selectedCall.startedAt)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setReplayIndex(replaying ? null : 0)}
+                className="rounded-full bg-gradient-to-r from-purple-600 to-indigo-600 px-5 py-2 text-sm font-semibold text-white shadow-lg shadow-purple-500/30 transition hover:from-purple-500 hover:to-indigo-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400"
+              >
+                {replaying ? "Stop replay" : "Replay transcript"}
+              </button>
+            </div>
+
+            <div className="flex flex-col gap-3 rounded-2xl bg-zinc-50/80 p-4 text-sm dark:bg-zinc-900/80">
+              {visibleEntries.map((entry, index) => (
+                <div
+                  key={`${entry.timestamp}-${index}`}
+                  className="flex items-start gap-3"
+                >
+                  <span className="w-12 shrink-0 pt-0.5 font-mono text-xs text-zinc-400 dark:text-zinc-500">
+                    {formatElapsed(selectedCall.startedAt, entry.timestamp)}
+                  </span>
+                  <span className="w-20 shrink-0 pt-0.5 text-[10px] font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+                    {entry.speaker}
+                  </span>
+                  <span className="text-zinc-800 dark:text-zinc-200">
+                    {entry.message}
+                    {entry.whisper ? (
+                      <span className="ml-1 text-xs italic text-zinc-400 dark:text-zinc-500">
+                        — whisper
+                      </span>
+                    ) : null}
+                    {entry.interrupted ? (
+                      <span className="ml-1 text-xs italic text-zinc-400 dark:text-zinc-500">
+                        — interrupted
+                      </span>
+                    ) : null}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="flex h-full flex-col items-center justify-center gap-2 py-16 text-center text-zinc-400 dark:text-zinc-500">
+            <span className="text-sm font-medium">Select a call</span>
+            <span className="text-xs">
+              Pick a call from the list to read or replay its transcript.
+            </span>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
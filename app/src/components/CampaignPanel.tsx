@@ -0,0 +1,324 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  CampaignCallResult,
+  CampaignFilter,
+  CampaignOptions,
+  CampaignRunner,
+  CampaignSnapshot,
+  CampaignTaskStatus,
+  createCampaignRunner,
+  DEFAULT_CAMPAIGN_OPTIONS,
+  MAX_CAMPAIGN_CONCURRENCY,
+  prioritiseByRisk,
+  selectCampaignOrders,
+} from "@/agent/campaign";
+import { formatDateTime, formatINR } from "@/agent/format";
+import type { RiskAssessment } from "@/agent/risk";
+import { CALL_OUTCOME_LABELS, OrderRecord } from "@/agent/types";
+
+const TASK_STATUS_META: Record<
+  CampaignTaskStatus,
+  { label: string; classes: string }
+> = {
+  queued: {
+    label: "Queued",
+    classes: "bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-300",
+  },
+  calling: {
+    label: "Calling",
+    classes:
+      "bg-emerald-50 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-100",
+  },
+  retry_wait: {
+    label: "Retry scheduled",
+    classes:
+      "bg-amber-50 text-amber-700 dark:bg-amber-500/20 dark:text-amber-200",
+  },
+  completed: {
+    label: "Completed",
+    classes:
+      "bg-purple-50 text-purple-700 dark:bg-purple-500/20 dark:text-purple-100",
+  },
+  unreachable: {
+    label: "Unreachable",
+    classes: "bg-sky-50 text-sky-700 dark:bg-sky-500/20 dark:text-sky-100",
+  },
+  blocked: {
+    label: "Do not call",
+    classes: "bg-rose-50 text-rose-700 dark:bg-rose-500/20 dark:text-rose-100",
+  },
+  failed: {
+    label: "Failed",
+    classes: "bg-rose-50 text-rose-700 dark:bg-rose-500/20 dark:text-rose-100",
+  },
+};
+
+const inputClasses =
+  "w-full rounded-full border border-zinc-200 bg-white px-3 py-1.5 text-sm text-zinc-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100";
+
+type CampaignPanelProps = {
+  orders: OrderRecord[];
+  disabled: boolean;
+  riskAssessments: Map<string, RiskAssessment>;
+  executeCall: (order: OrderRecord) => Promise<CampaignCallResult>;
+  autoConfirm: (orders: OrderRecord[]) => void;
+};
+
+export const CampaignPanel = ({
+  orders,
+  disabled,
+  riskAssessments,
+  executeCall,
+  autoConfirm,
+}: CampaignPanelProps) => {
+  const [filter, setFilter] = useState<CampaignFilter>({
+    paymentMethod: "all",
+    minTotal: 0,
+  });
+  const [options, setOptions] = useState<CampaignOptions>(
+    DEFAULT_CAMPAIGN_OPTIONS
+  );
+  const [autoConfirmLowRisk, setAutoConfirmLowRisk] = useState(true);
+  const [snapshot, setSnapshot] = useState<CampaignSnapshot | null>(null);
+  const runnerRef = useRef<CampaignRunner | null>(null);
+  const executeRef = useRef(executeCall);
+
+  useEffect(() => {
+    executeRef.current = executeCall;
+  }, [executeCall]);
+
+  useEffect(() => {
+    return () => runnerRef.current?.stop();
+  }, []);
+
+  const paymentMethods = useMemo(
+    () => [...new Set(orders.map((order) => order.paymentMethod))],
+    [orders]
+  );
+  const matching = selectCampaignOrders(orders, filter);
+  const { toCall, autoConfirm: lowRisk } = prioritiseByRisk(
+    matching,
+    riskAssessments,
+    autoConfirmLowRisk
+  );
+  const status = snapshot?.status ?? "idle";
+  const active = status === "running" || status === "paused";
+
+  const startCampaign = () => {
+    runnerRef.current?.stop();
+    if (lowRisk.length) autoConfirm(lowRisk);
+    const runner = createCampaignRunner({
+      orders: toCall,
+      execute: (order) => executeRef.current(order),
+      onChange: setSnapshot,
+      options,
+    });
+    runnerRef.current = runner;
+    runner.start();
+  };
+
+  const counts = (snapshot?.tasks ?? []).reduce<Record<string, number>>(
+    (totals, task) => {
+      const key = task.outcome ?? task.status;
+      totals[key] = (totals[key] ?? 0) + 1;
+      return totals;
+    },
+    {}
+  );
+  const settled = (snapshot?.tasks ?? []).filter((task) =>
+    ["completed", "unreachable", "blocked", "failed"].includes(task.status)
+  ).length;
+
+  return (
+    <section className="rounded-3xl border border-zinc-200 bg-white/80 p-5 shadow-sm backdrop-blur-lg dark:border-zinc-800 dark:bg-zinc-900/60">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+            Campaign dialer
+          </h2>
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Queue every pending order and run the confirmation call for each in
+            turn, riskiest first, only within calling hours. Anyone who does not
+            answer is called again when their booked retry falls due.{" "}
+            {matching.length} orders match
+            {lowRisk.length
+              ? `; ${lowRisk.length} low-risk will be confirmed without a call`
+              : ""}
+            .
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {active ? (
+            <>
+              <button
+                type="button"
+                onClick={() =>
+                  status === "paused"
+                    ? runnerRef.current?.resume()
+                    : runnerRef.current?.pause()
+                }
+                className="rounded-full bg-gradient-to-r from-purple-600 to-indigo-600 px-5 py-2 text-sm font-semibold text-white shadow-lg shadow-purple-500/30 transition hover:from-purple-500 hover:to-indigo-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400"
+              >
+                {status === "paused" ? "Resume" : "Pause"}
+              </button>
+              <button
+                type="button"
+                onClick={() => runnerRef.current?.stop()}
+                className="rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-600 transition hover:border-zinc-400 hover:text-zinc-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 dark:border-zinc-700 dark:text-zinc-400 dark:hover:border-zinc-500 dark:hover:text-zinc-200"
+              >
+                Stop campaign
+              </button>
+            </>
+          ) : (
+            <button
+              type="button"
+              onClick={startCampaign}
+              disabled={disabled || matching.length === 0}
+              className="rounded-full bg-gradient-to-r from-purple-600 to-indigo-600 px-5 py-2 text-sm font-semibold text-white shadow-lg shadow-purple-500/30 transition hover:from-purple-500 hover:to-indigo-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Start campaign
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-4 grid gap-3 text-xs font-medium text-zinc-500 sm:grid-cols-4 dark:text-zinc-400">
+        <label className="flex flex-col gap-1">
+          Payment method
+          <select
+            value={filter.paymentMethod}
+            disabled={active}
+            onChange={(event) =>
+              setFilter({ ...filter, paymentMethod: event.target.value })
+            }
+            className={inputClasses}
+          >
+            <option value="all">All methods</option>
+            {paymentMethods.map((method) => (
+              <option key={method} value={method}>
+                {method}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Minimum total (₹)
+          <input
+            type="number"
+            min={0}
+            value={filter.minTotal}
+            disabled={active}
+            onChange={(event) =>
+              setFilter({
+                ...filter,
+                minTotal: Number(event.target.value) || 0,
+              })
+            }
+            className={inputClasses}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Low-risk orders
+          <select
+            value={autoConfirmLowRisk ? "auto" : "call"}
+            disabled={active}
+            onChange={(event) =>
+              setAutoConfirmLowRisk(event.target.value === "auto")
+            }
+            className={inputClasses}
+          >
+            <option value="auto">Confirm without calling</option>
+            <option value="call">Call them too</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Concurrent calls
+          <input
+            type="number"
+            min={1}
+            max={MAX_CAMPAIGN_CONCURRENCY}
+            value={options.concurrency}
+            disabled={active}
+            onChange={(event) =>
+              setOptions({
+                ...options,
+                concurrency: Math.min(
+                  Math.max(1, Number(event.target.value) || 1),
+                  MAX_CAMPAIGN_CONCURRENCY
+                ),
+              })
+            }
+            className={inputClasses}
+          />
+        </label>
+      </div>
+
+      {snapshot ? (
+        <div className="mt-5 flex flex-col gap-3">
+          <div className="flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+            <span>
+              Progress {settled}/{snapshot.tasks.length} · {status}
+            </span>
+            <span className="flex flex-wrap gap-3 normal-case">
+              {Object.entries(counts).map(([key, count]) => (
+                <span key={key}>
+                  {key in CALL_OUTCOME_LABELS
+                    ? CALL_OUTCOME_LABELS[
+                        key as keyof typeof CALL_OUTCOME_LABELS
+                      ]
+                    : TASK_STATUS_META[key as CampaignTaskStatus].label}
+                  : {count}
+                </span>
+              ))}
+            </span>
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+            <div
+              className="h-full rounded-full bg-gradient-to-r from-purple-600 to-indigo-600 transition-all"
+              style={{
+                width: `${
+                  snapshot.tasks.length
+                    ? (settled / snapshot.tasks.length) * 100
+                    : 0
+                }%`,
+              }}
+            />
+          </div>
+          <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+            {snapshot.tasks.map((task) => {
+              const meta = TASK_STATUS_META[task.status];
+              return (
+                <div
+                  key={task.order.id}
+                  className="flex items-center justify-between gap-2 rounded-2xl border border-zinc-200 px-3 py-2 text-sm dark:border-zinc-800"
+                >
+                  <div className="min-w-0">
+                    <div className="truncate font-medium text-zinc-900 dark:text-zinc-50">
+                      {task.order.customerName}
+                    </div>
+                    <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                      {task.order.id} · {formatINR(task.order.total)} · attempt{" "}
+                      {task.attempts}
+                      {task.nextAttemptAt
+                        ? ` · next ${formatDateTime(task.nextAttemptAt)}`
+                        : ""}
+                    </div>
+                  </div>
+                  <span
+                    className={`shrink-0 rounded-full px-2.5 py-1 text-xs font-medium ${meta.classes}`}
+                  >
+                    {task.outcome
+                      ? CALL_OUTCOME_LABELS[task.outcome]
+                      : meta.label}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+};
@@ -0,0 +1,199 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  COMPLIANCE_CHECK_LABELS,
+  COMPLIANCE_CHECKS,
+  COMPLIANCE_RESULT_LABELS,
+  ComplianceAuditEntry,
+  ComplianceCheck,
+  maskPhoneNumber,
+  normalizePhoneNumber,
+  OPT_OUT_SOURCE_LABELS,
+  OptOutEntry,
+} from "@/agent/compliance";
+import { formatDateTime } from "@/agent/format";
+import { fetchAuditLog, fetchOptOuts, registerOptOut } from "@/api/compliance";
+
+const cardClasses =
+  "rounded-3xl border border-zinc-200 bg-white/80 p-5 shadow-sm backdrop-blur-lg dark:border-zinc-800 dark:bg-zinc-900/60";
+
+const inputClasses =
+  "min-w-0 flex-1 rounded-full border border-zinc-200 bg-white px-4 py-2 text-sm text-zinc-800 placeholder:text-zinc-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100";
+
+const RESULT_CLASSES: Record<ComplianceAuditEntry["result"], string> = {
+  allowed:
+    "bg-emerald-50 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-100",
+  blocked: "bg-rose-50 text-rose-700 dark:bg-rose-500/20 dark:text-rose-100",
+  announced:
+    "bg-purple-50 text-purple-700 dark:bg-purple-500/20 dark:text-purple-100",
+  registered:
+    "bg-amber-50 text-amber-700 dark:bg-amber-500/20 dark:text-amber-200",
+};
+
+export const ComplianceCenter = () => {
+  const [optOuts, setOptOuts] = useState<OptOutEntry[]>([]);
+  const [entries, setEntries] = useState<ComplianceAuditEntry[]>([]);
+  const [checkFilter, setCheckFilter] = useState<ComplianceCheck | "all">(
+    "all"
+  );
+  const [phoneNumber, setPhoneNumber] = useState<string>("");
+  const [note, setNote] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    () =>
+      Promise.all([fetchOptOuts(), fetchAuditLog()])
+        .then(([registry, log]) => {
+          setOptOuts(registry);
+          setEntries(log);
+          setError(null);
+        })
+        .catch((reason: Error) => setError(reason.message)),
+    []
+  );
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const visibleEntries = entries.filter(
+    (entry) => checkFilter === "all" || entry.check === checkFilter
+  );
+  const validNumber = normalizePhoneNumber(phoneNumber).length === 10;
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[minmax(0,360px)_minmax(0,1fr)]">
+      <aside className={cardClasses}>
+        <div className="flex flex-col gap-4">
+          <div className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+            Do-not-call list · {optOuts.length}
+          </div>
+          <form
+            className="flex flex-col gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (!validNumber) return;
+              registerOptOut({ phoneNumber, source: "manual", note })
+                .then(() => {
+                  setPhoneNumber("");
+                  setNote("");
+                  return load();
+                })
+                .catch((reason: Error) => setError(reason.message));
+            }}
+          >
+            <input
+              type="tel"
+              value={phoneNumber}
+              onChange={(event) => setPhoneNumber(event.target.value)}
+              placeholder="Phone number"
+              className={inputClasses}
+            />
+            <input
+              type="text"
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              placeholder="Note, e.g. asked by email"
+              className={inputClasses}
+            />
+            <button
+              type="submit"
+              disabled={!validNumber}
+              className="rounded-full bg-gradient-to-r from-purple-600 to-indigo-600 px-5 py-2 text-sm font-semibold text-white shadow-lg shadow-purple-500/30 transition hover:from-purple-500 hover:to-indigo-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Add to do-not-call list
+            </button>
+          </form>
+          {optOuts.length === 0 ? (
+            <p className="py-4 text-center text-sm text-zinc-400 dark:text-zinc-500">
+              No numbers have opted out yet.
+            </p>
+          ) : (
+            <ul className="flex flex-col gap-2 text-sm">
+              {optOuts.map((entry) => (
+                <li
+                  key={entry.phoneNumber}
+                  className="rounded-2xl border border-zinc-200 px-3 py-2 dark:border-zinc-800"
+                >
+                  <div className="font-mono text-zinc-900 dark:text-zinc-50">
+                    {maskPhoneNumber(entry.phoneNumber)}
+                  </div>
+                  <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                    {OPT_OUT_SOURCE_LABELS[entry.source]} ·{" "}
+                    {formatDateTime(entry.registeredAt)}
+                    {entry.orderId ? ` · ${entry.orderId}` : ""}
+                    {entry.note ? ` · ${entry.note}` : ""}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </aside>
+
+      <section className={cardClasses}>
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+              Audit log · {visibleEntries.length}
+            </div>
+            <select
+              value={checkFilter}
+              onChange={(event) =>
+                setCheckFilter(event.target.value as ComplianceCheck | "all")
+              }
+              className="rounded-full border border-zinc-200 bg-white px-3 py-1.5 text-sm text-zinc-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+            >
+              <option value="all">All checks</option>
+              {COMPLIANCE_CHECKS.map((check) => (
+                <option key={check} value={check}>
+                  {COMPLIANCE_CHECK_LABELS[check]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {error ? (
+            <p className="text-sm text-rose-600 dark:text-rose-300">{error}</p>
+          ) : null}
+          {visibleEntries.length === 0 ? (
+            <p className="py-6 text-center text-sm text-zinc-400 dark:text-zinc-500">
+              Nothing logged yet. Every dial, recording notice and opt-out is
+              recorded here as it happens.
+            </p>
+          ) : (
+            <div className="flex flex-col divide-y divide-zinc-100 text-sm dark:divide-zinc-800">
+              {visibleEntries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex flex-wrap items-start justify-between gap-2 py-2"
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium text-zinc-900 dark:text-zinc-50">
+                      {COMPLIANCE_CHECK_LABELS[entry.check]} ·{" "}
+                      <span className="font-mono">
+                        {maskPhoneNumber(entry.phoneNumber)}
+                      </span>
+                      {entry.orderId ? ` · ${entry.orderId}` : ""}
+                    </div>
+                    <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                      {formatDateTime(entry.at)}
+                      {entry.detail ? ` · ${entry.detail}` : ""}
+                    </div>
+                  </div>
+                  <span
+                    className={`shrink-0 rounded-full px-2.5 py-1 text-xs font-medium ${
+                      RESULT_CLASSES[entry.result]
+                    }`}
+                  >
+                    {COMPLIANCE_RESULT_LABELS[entry.result]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,363 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ESCALATION_REASON_LABELS,
+  isSlaBreached,
+  TICKET_PRIORITY_ORDER,
+} from "@/agent/escalation";
+import {
+  formatDateTime,
+  formatDuration,
+  formatElapsed,
+  formatINR,
+} from "@/agent/format";
+import type {
+  EscalationTicket,
+  OrderRecord,
+  TicketPriority,
+  TicketStatus,
+} from "@/agent/types";
+import { claimTicket, fetchTickets, resolveTicket } from "@/api/tickets";
+
+const SLA_REFRESH_MS = 30_000;
+
+const PRIORITY_CLASSES: Record<TicketPriority, string> = {
+  high: "bg-rose-50 text-rose-700 border border-rose-200 dark:bg-rose-500/20 dark:text-rose-100",
+  normal:
+    "bg-amber-50 text-amber-700 border border-amber-200 dark:bg-amber-500/20 dark:text-amber-200",
+  low: "bg-zinc-100 text-zinc-600 border border-zinc-200 dark:bg-zinc-800 dark:text-zinc-300",
+};
+
+const STATUS_LABELS: Record<TicketStatus, string> = {
+  open: "Unclaimed",
+  claimed: "Claimed",
+  resolved: "Resolved",
+};
+
+const RESOLUTION_LABELS: Partial<Record<OrderRecord["status"], string>> = {
+  confirmed: "Confirm the order",
+  cancelled: "Cancel the order",
+  pending: "Send back for another call",
+};
+
+type QueueFilter = "active" | "resolved" | "all";
+
+const matchesFilter = (ticket: EscalationTicket, filter: QueueFilter) =>
+  filter === "all" ||
+  (filter === "resolved"
+    ? ticket.status === "resolved"
+    : ticket.status !== "resolved");
+
+const describeSla = (ticket: EscalationTicket, now: number) => {
+  const due = Date.parse(ticket.slaDueAt);
+  if (ticket.resolvedAt) {
+    return isSlaBreached(ticket)
+      ? `Resolved ${formatDuration(Date.parse(ticket.resolvedAt) - due)} late`
+      : "Resolved within SLA";
+  }
+  return isSlaBreached(ticket, now)
+    ? `SLA breached ${formatDuration(now - due)} ago`
+    : `Due in ${formatDuration(due - now)}`;
+};
+
+export const EscalationQueue = () => {
+  const [tickets, setTickets] = useState<EscalationTicket[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<QueueFilter>("active");
+  const [supervisor, setSupervisor] = useState<string>("");
+  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
+  const [orderStatus, setOrderStatus] =
+    useState<OrderRecord["status"]>("confirmed");
+  const [note, setNote] = useState<string>("");
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  const loadTickets = useCallback(
+    () =>
+      fetchTickets()
+        .then((result) => {
+          setTickets(result);
+          setError(null);
+        })
+        .catch((reason: Error) => setError(reason.message)),
+    []
+  );
+
+  useEffect(() => {
+    void loadTickets();
+    const intervalId = window.setInterval(() => {
+      setNow(Date.now());
+      void loadTickets();
+    }, SLA_REFRESH_MS);
+    return () => window.clearInterval(intervalId);
+  }, [loadTickets]);
+
+  const visibleTickets = useMemo(
+    () =>
+      tickets
+        .filter((ticket) => matchesFilter(ticket, filter))
+        .sort(
+          (a, b) =>
+            Number(a.status === "resolved") - Number(b.status === "resolved") ||
+            TICKET_PRIORITY_ORDER.indexOf(a.priority) -
+              TICKET_PRIORITY_ORDER.indexOf(b.priority) ||
+            a.slaDueAt.localeCompare(b.slaDueAt)
+        ),
+    [filter, tickets]
+  );
+
+  const breachedCount = tickets.filter(
+    (ticket) => ticket.status !== "resolved" && isSlaBreached(ticket, now)
+  ).length;
+
+  const selectedTicket =
+    tickets.find((ticket) => ticket.id === selectedTicketId) ?? null;
+  const supervisorName = supervisor.trim();
+  const claimedByOther =
+    selectedTicket?.claimedBy !== undefined &&
+    selectedTicket.claimedBy !== supervisorName;
+
+  const replaceTicket = (updated: EscalationTicket) => {
+    setTickets((prev) =>
+      prev.map((ticket) => (ticket.id === updated.id ? updated : ticket))
+    );
+    setError(null);
+  };
+
+  const handleClaim = () => {
+    if (!selectedTicket || !supervisorName) return;
+    claimTicket(selectedTicket.id, supervisorName)
+      .then(replaceTicket)
+      .catch((reason: Error) => setError(reason.message));
+  };
+
+  const handleResolve = () => {
+    if (!selectedTicket || !supervisorName) return;
+    resolveTicket(selectedTicket.id, {
+      supervisor: supervisorName,
+      orderStatus,
+      note,
+    })
+      .then((resolved) => {
+        replaceTicket(resolved);
+        setNote("");
+      })
+      .catch((reason: Error) => setError(reason.message));
+  };
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[minmax(0,380px)_minmax(0,1fr)]">
+      <aside className="rounded-3xl border border-zinc-200 bg-white/80 p-5 shadow-sm backdrop-blur-lg dark:border-zinc-800 dark:bg-zinc-900/60">
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-2 text-sm">
+            <input
+              type="text"
+              value={supervisor}
+              onChange={(event) => setSupervisor(event.target.value)}
+              placeholder="Your name (to claim tickets)"
+              className="rounded-full border border-zinc-200 bg-white px-4 py-2 text-zinc-800 placeholder:text-zinc-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+            />
+            <select
+              value={filter}
+              onChange={(event) => setFilter(event.target.value as QueueFilter)}
+              className="rounded-full border border-zinc-200 bg-white px-4 py-2 text-zinc-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+            >
+              <option value="active">Open and claimed</option>
+              <option value="resolved">Resolved</option>
+              <option value="all">All tickets</option>
+            </select>
+          </div>
+
+          {breachedCount > 0 ? (
+            <div className="rounded-2xl border border-rose-300/60 bg-rose-100/70 px-3 py-2 text-xs font-medium text-rose-800 dark:border-rose-500/30 dark:bg-rose-500/20 dark:text-rose-100">
+              {breachedCount} ticket{breachedCount > 1 ? "s have" : " has"}{" "}
+              missed the one-hour call-back promise.
+            </div>
+          ) : null}
+
+          {error ? (
+            <div className="rounded-2xl border border-amber-300/60 bg-amber-100/70 px-3 py-2 text-xs font-medium text-amber-800 dark:border-amber-500/30 dark:bg-amber-500/20 dark:text-amber-100">
+              {error}
+            </div>
+          ) : null}
+
+          {visibleTickets.length === 0 ? (
+            <p className="py-6 text-center text-sm text-zinc-400 dark:text-zinc-500">
+              No escalations in this view.
+            </p>
+          ) : (
+            visibleTickets.map((ticket) => {
+              const breached =
+                ticket.status !== "resolved" && isSlaBreached(ticket, now);
+              return (
+                <button
+                  key={ticket.id}
+                  type="button"
+                  onClick={() => setSelectedTicketId(ticket.id)}
+                  className={`rounded-2xl border p-3 text-left text-sm transition-colors ${
+                    ticket.id === selectedTicketId
+                      ? "border-purple-500 bg-purple-500/10 dark:border-purple-400/80"
+                      : breached
+                      ? "border-rose-300 hover:bg-rose-50 dark:border-rose-500/40 dark:hover:bg-zinc-800"
+                      : "border-zinc-200 hover:border-purple-400 hover:bg-purple-50 dark:border-zinc-800 dark:hover:bg-zinc-800"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-zinc-900 dark:text-zinc-50">
+                      {ticket.customerName}
+                    </span>
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                        PRIORITY_CLASSES[ticket.priority]
+                      }`}
+                    >
+                      {ticket.priority}
+                    </span>
+                  </div>
+                  <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                    {ticket.orderId} · {ESCALATION_REASON_LABELS[ticket.reason]}
+                  </div>
+                  <div
+                    className={`mt-1 text-xs font-medium ${
+                      breached
+                        ? "text-rose-600 dark:text-rose-300"
+                        : "text-zinc-500 dark:text-zinc-400"
+                    }`}
+                  >
+                    {STATUS_LABELS[ticket.status]}
+                    {ticket.claimedBy ? ` by ${ticket.claimedBy}` : ""} ·{" "}
+                    {describeSla(ticket, now)}
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+      </aside>
+
+      <section className="rounded-3xl border border-zinc-200 bg-white/90 p-6 shadow-sm backdrop-blur-xl dark:border-zinc-800 dark:bg-zinc-900/70">
+        {selectedTicket ? (
+          <div className="flex flex-col gap-4">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">
+                  {selectedTicket.customerName}
+                </h2>
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                  {selectedTicket.phoneNumber} · {selectedTicket.orderId} ·{" "}
+                  {formatINR(selectedTicket.orderTotal)}
+                </p>
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                  Opened {formatDateTime(selectedTicket.createdAt)} · call back
+                  by {formatDateTime(selectedTicket.slaDueAt)}
+                </p>
+              </div>
+              {selectedTicket.status === "open" ? (
+                <button
+                  type="button"
+                  onClick={handleClaim}
+                  disabled={!supervisorName}
+                  className="rounded-full bg-gradient-to-r from-purple-600 to-indigo-600 px-5 py-2 text-sm font-semibold text-white shadow-lg shadow-purple-500/30 transition hover:from-purple-500 hover:to-indigo-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 disabled:opacity-50"
+                >
+                  Claim ticket
+                </button>
+              ) : null}
+            </div>
+
+            {selectedTicket.status === "resolved" ? (
+              <div className="rounded-2xl border border-emerald-200 bg-emerald-100/70 px-4 py-3 text-sm text-emerald-800 dark:border-emerald-500/30 dark:bg-emerald-500/20 dark:text-emerald-100">
+                Resolved by {selectedTicket.claimedBy} on{" "}
+                {formatDateTime(selectedTicket.resolvedAt!)}. Order set to{" "}
+                <strong>{selectedTicket.resolution?.orderStatus}</strong>
+                {selectedTicket.resolution?.note
+                  ? `: ${selectedTicket.resolution.note}`
+                  : "."}
+              </div>
+            ) : (
+              <div className="flex flex-col gap-2 rounded-2xl bg-zinc-50/80 p-4 text-sm dark:bg-zinc-900/80">
+                <div className="font-semibold text-zinc-800 dark:text-zinc-100">
+                  Resolve
+                </div>
+                <select
+                  value={orderStatus}
+                  onChange={(event) =>
+                    setOrderStatus(event.target.value as OrderRecord["status"])
+                  }
+                  className="rounded-full border border-zinc-200 bg-white px-4 py-2 text-zinc-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+                >
+                  {Object.entries(RESOLUTION_LABELS).map(([status, label]) => (
+                    <option key={status} value={status}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(event) => setNote(event.target.value)}
+                  placeholder="What was agreed with the customer"
+                  className="rounded-full border border-zinc-200 bg-white px-4 py-2 text-zinc-800 placeholder:text-zinc-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+                />
+                <button
+                  type="button"
+                  onClick={handleResolve}
+                  disabled={!supervisorName || claimedByOther}
+                  className="self-start rounded-full border border-zinc-300 px-5 py-2 text-sm font-semibold text-zinc-700 transition hover:bg-zinc-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-200 dark:hover:bg-zinc-800"
+                >
+                  Resolve ticket
+                </button>
+                {claimedByOther ? (
+                  <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                    Claimed by {selectedTicket.claimedBy}.
+                  </span>
+                ) : null}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+              <span>Call transcript</span>
+              <Link
+                href={`/calls?orderId=${encodeURIComponent(
+                  selectedTicket.orderId
+                )}`}
+                className="normal-case text-purple-700 underline-offset-2 hover:underline dark:text-purple-200"
+              >
+                Call history
+              </Link>
+            </div>
+            <div className="flex flex-col gap-3 rounded-2xl bg-zinc-50/80 p-4 text-sm dark:bg-zinc-900/80">
+              {selectedTicket.transcript.map((entry, index) => (
+                <div
+                  key={`${entry.timestamp}-${index}`}
+                  className="flex items-start gap-3"
+                >
+                  <span className="w-12 shrink-0 pt-0.5 font-mono text-xs text-zinc-400 dark:text-zinc-500">
+                    {formatElapsed(
+                      selectedTicket.transcript[0].timestamp,
+                      entry.timestamp
+                    )}
+                  </span>
+                  <span className="w-20 shrink-0 pt-0.5 text-[10px] font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+                    {entry.speaker}
+                  </span>
+                  <span className="text-zinc-800 dark:text-zinc-200">
+                    {entry.message}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="flex h-full flex-col items-center justify-center gap-2 py-16 text-center text-zinc-400 dark:text-zinc-500">
+            <span className="text-sm font-medium">Select a ticket</span>
+            <span className="text-xs">
+              Claim it, call the customer back, then resolve it with the agreed
+              order status.
+            </span>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
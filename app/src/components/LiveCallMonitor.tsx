@@ -0,0 +1,323 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { isCallInFlight } from "@/agent/callState";
+import { formatElapsed } from "@/agent/format";
+import { createBroadcastMonitorChannel } from "@/agent/monitor/broadcastChannel";
+import {
+  LiveCall,
+  MonitorChannel,
+  SUPERVISOR_WRAP_UPS,
+} from "@/agent/monitor/types";
+import {
+  createBrowserRecognizer,
+  SpeechRecognizer,
+} from "@/agent/speech/recognizer";
+import { CALL_OUTCOME_LABELS } from "@/agent/types";
+import { useSpeechRecognition } from "@/hooks/useSpeechRecognition";
+
+const cardClasses =
+  "rounded-3xl border border-zinc-200 bg-white/80 p-5 shadow-sm backdrop-blur-lg dark:border-zinc-800 dark:bg-zinc-900/60";
+
+const inputClasses =
+  "min-w-0 flex-1 rounded-full border border-zinc-200 bg-white px-4 py-2 text-sm text-zinc-800 placeholder:text-zinc-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100";
+
+const buttonClasses =
+  "rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-600 transition hover:border-purple-400 hover:text-purple-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:text-purple-200";
+
+type LiveCallMonitorProps = {
+  channel?: MonitorChannel;
+  recognizer?: SpeechRecognizer;
+};
+
+export const LiveCallMonitor = ({
+  channel,
+  recognizer,
+}: LiveCallMonitorProps = {}) => {
+  const [monitor] = useState<MonitorChannel>(
+    () => channel ?? createBroadcastMonitorChannel()
+  );
+  const [supervisorRecognizer] = useState<SpeechRecognizer>(
+    () => recognizer ?? createBrowserRecognizer()
+  );
+  const [calls, setCalls] = useState<Record<string, LiveCall>>({});
+  const [selectedCallId, setSelectedCallId] = useState<string | null>(null);
+  const [whisper, setWhisper] = useState<string>("");
+  const [line, setLine] = useState<string>("");
+  const [dictating, setDictating] = useState<boolean>(false);
+
+  useEffect(() => {
+    const unsubscribe = monitor.subscribe((message) => {
+      if (message.type === "call_update") {
+        setCalls((prev) => ({ ...prev, [message.call.callId]: message.call }));
+      } else if (message.type === "call_ended") {
+        setCalls((prev) => {
+          const next = { ...prev };
+          delete next[message.callId];
+          return next;
+        });
+      }
+    });
+    monitor.post({ type: "roll_call" });
+    return () => {
+      unsubscribe();
+      monitor.close();
+    };
+  }, [monitor]);
+
+  const liveCalls = useMemo(
+    () =>
+      Object.values(calls)
+        .filter((call) => isCallInFlight(call.callState))
+        .sort((a, b) => a.startedAt.localeCompare(b.startedAt)),
+    [calls]
+  );
+
+  const selectedCall =
+    liveCalls.find((call) => call.callId === selectedCallId) ??
+    liveCalls[0] ??
+    null;
+  const inControl = selectedCall?.control === "supervisor";
+
+  const voiceInput = useSpeechRecognition({
+    recognizer: supervisorRecognizer,
+    enabled: dictating && inControl,
+    onUtterance: (utterance) => {
+      if (!selectedCall) return;
+      monitor.post({
+        type: "supervisor_line",
+        callId: selectedCall.callId,
+        message: utterance,
+      });
+    },
+  });
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[minmax(0,320px)_minmax(0,1fr)]">
+      <aside className={cardClasses}>
+        <div className="flex flex-col gap-3">
+          <div className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+            Calls in progress
+          </div>
+          {liveCalls.length === 0 ? (
+            <p className="py-6 text-center text-sm text-zinc-400 dark:text-zinc-500">
+              No calls in progress. Calls started from the call console in this
+              browser show up here.
+            </p>
+          ) : (
+            liveCalls.map((call) => (
+              <button
+                key={call.callId}
+                type="button"
+                onClick={() => setSelectedCallId(call.callId)}
+                className={`rounded-2xl border p-3 text-left text-sm transition-colors ${
+                  call.callId === selectedCall?.callId
+                    ? "border-purple-500 bg-purple-500/10 dark:border-purple-400/80"
+                    : "border-zinc-200 hover:border-purple-400 hover:bg-purple-50 dark:border-zinc-800 dark:hover:bg-zinc-800"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-zinc-900 dark:text-zinc-50">
+                    {call.customerName}
+                  </span>
+                  {call.control === "supervisor" ? (
+                    <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800 dark:bg-amber-500/20 dark:text-amber-100">
+                      Supervisor
+                    </span>
+                  ) : null}
+                </div>
+                <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {call.orderId} · {call.callState.replace(/_/g, " ")} ·{" "}
+                  {formatElapsed(call.startedAt, call.updatedAt)}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </aside>
+
+      <section className={cardClasses}>
+        {selectedCall ? (
+          <div className="flex flex-col gap-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">
+                  {selectedCall.customerName}
+                </h2>
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                  {selectedCall.orderId} · {selectedCall.phoneNumber}
+                  {selectedCall.nodeId ? ` · at ${selectedCall.nodeId}` : ""}
+                </p>
+              </div>
+              {inControl ? (
+                <button
+                  type="button"
+                  onClick={() =>
+                    monitor.post({
+                      type: "hand_back",
+                      callId: selectedCall.callId,
+                    })
+                  }
+                  className={buttonClasses}
+                >
+                  Hand back to agent
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() =>
+                    monitor.post({
+                      type: "take_over",
+                      callId: selectedCall.callId,
+                    })
+                  }
+                  className="rounded-full bg-gradient-to-r from-purple-600 to-indigo-600 px-5 py-2 text-sm font-semibold text-white shadow-lg shadow-purple-500/30 transition hover:from-purple-500 hover:to-indigo-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400"
+                >
+                  Take over call
+                </button>
+              )}
+            </div>
+
+            <div className="flex max-h-[420px] flex-col gap-3 overflow-y-auto rounded-2xl bg-zinc-50/80 p-4 text-sm dark:bg-zinc-900/80">
+              {selectedCall.conversation.map((entry, index) => (
+                <div
+                  key={`${entry.timestamp}-${index}`}
+                  className="flex items-start gap-3"
+                >
+                  <span className="w-12 shrink-0 pt-0.5 font-mono text-xs text-zinc-400 dark:text-zinc-500">
+                    {formatElapsed(selectedCall.startedAt, entry.timestamp)}
+                  </span>
+                  <span className="w-20 shrink-0 pt-0.5 text-[10px] font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+                    {entry.speaker}
+                  </span>
+                  <span
+                    className={
+                      entry.whisper
+                        ? "italic text-amber-700 dark:text-amber-200"
+                        : "text-zinc-800 dark:text-zinc-200"
+                    }
+                  >
+                    {entry.message}
+                    {entry.whisper ? (
+                      <span className="ml-1 text-xs text-zinc-400 dark:text-zinc-500">
+                        — whisper
+                      </span>
+                    ) : null}
+                    {entry.interrupted ? (
+                      <span className="ml-1 text-xs italic text-zinc-400 dark:text-zinc-500">
+                        — interrupted
+                      </span>
+                    ) : null}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <form
+              className="flex flex-wrap gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                const message = whisper.trim();
+                if (!message) return;
+                setWhisper("");
+                monitor.post({
+                  type: "whisper",
+                  callId: selectedCall.callId,
+                  message,
+                });
+              }}
+            >
+              <input
+                type="text"
+                value={whisper}
+                onChange={(event) => setWhisper(event.target.value)}
+                placeholder="Whisper a suggestion to the console…"
+                className={inputClasses}
+              />
+              <button type="submit" className={buttonClasses}>
+                Whisper
+              </button>
+            </form>
+
+            {inControl ? (
+              <div className="flex flex-col gap-3 rounded-2xl border border-amber-300/60 bg-amber-50/70 p-4 text-sm dark:border-amber-500/30 dark:bg-amber-500/10">
+                <div className="font-semibold text-amber-900 dark:text-amber-100">
+                  You are on the line. The agent stays silent until you hand the
+                  call back.
+                </div>
+                <form
+                  className="flex flex-wrap gap-2"
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    const message = line.trim();
+                    if (!message) return;
+                    setLine("");
+                    monitor.post({
+                      type: "supervisor_line",
+                      callId: selectedCall.callId,
+                      message,
+                    });
+                  }}
+                >
+                  <input
+                    type="text"
+                    value={line}
+                    onChange={(event) => setLine(event.target.value)}
+                    placeholder="Type what you say to the customer…"
+                    className={inputClasses}
+                  />
+                  <button type="submit" className={buttonClasses}>
+                    Say
+                  </button>
+                  {voiceInput.supported ? (
+                    <button
+                      type="button"
+                      onClick={() => setDictating((prev) => !prev)}
+                      className={buttonClasses}
+                    >
+                      {voiceInput.listening ? "Stop speaking" : "Speak"}
+                    </button>
+                  ) : null}
+                </form>
+                {voiceInput.error ? (
+                  <p className="text-xs text-amber-800 dark:text-amber-200">
+                    Microphone unavailable, type your lines instead.
+                  </p>
+                ) : null}
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs font-medium text-amber-800 dark:text-amber-200">
+                    Close the call as
+                  </span>
+                  {SUPERVISOR_WRAP_UPS.map((outcome) => (
+                    <button
+                      key={outcome}
+                      type="button"
+                      onClick={() =>
+                        monitor.post({
+                          type: "wrap_up",
+                          callId: selectedCall.callId,
+                          outcome,
+                        })
+                      }
+                      className={buttonClasses}
+                    >
+                      {CALL_OUTCOME_LABELS[outcome]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : null}
+          </div>
+        ) : (
+          <div className="flex h-full flex-col items-center justify-center gap-2 py-16 text-center text-zinc-400 dark:text-zinc-500">
+            <span className="text-sm font-medium">Nothing to monitor</span>
+            <span className="text-xs">
+              Start a call from the call console to watch it here live. Only
+              consoles open in this browser show up.
+            </span>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  ANALYTICS_DIMENSION_LABELS,
+  ANALYTICS_DIMENSIONS,
+  AnalyticsDimension,
+  AnalyticsReport,
+  AnalyticsRow,
+  analyticsRowsToCsv,
+  dropOffToCsv,
+} from "@/agent/analytics";
+import { formatDateTime, formatElapsed } from "@/agent/format";
+import { fetchAnalyticsReport } from "@/api/analytics";
+
+const RATE_SERIES: {
+  key: keyof Pick<
+    AnalyticsRow,
+    "confirmationRate" | "rescheduleRate" | "cancelRate" | "escalationRate"
+  >;
+  label: string;
+  bar: string;
+}[] = [
+  { key: "confirmationRate", label: "Confirmed", bar: "bg-emerald-500" },
+  { key: "rescheduleRate", label: "Rescheduled", bar: "bg-purple-500" },
+  { key: "cancelRate", label: "Cancelled", bar: "bg-rose-500" },
+  { key: "escalationRate", label: "Escalated", bar: "bg-amber-500" },
+];
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const averageDuration = (row: AnalyticsRow) =>
+  row.averageDurationMs === null
+    ? "—"
+    : formatElapsed(
+        new Date(0).toISOString(),
+        new Date(row.averageDurationMs).toISOString()
+      );
+
+const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const buttonClasses =
+  "rounded-full border border-zinc-300 px-4 py-1.5 text-sm font-medium text-zinc-600 transition hover:border-purple-400 hover:text-purple-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:text-purple-200";
+
+const cardClasses =
+  "rounded-3xl border border-zinc-200 bg-white/80 p-5 shadow-sm backdrop-blur-lg dark:border-zinc-800 dark:bg-zinc-900/60";
+
+export const OperationsDashboard = () => {
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [dimension, setDimension] = useState<AnalyticsDimension>("day");
+
+  const load = useCallback(
+    () =>
+      fetchAnalyticsReport()
+        .then((result) => {
+          setReport(result);
+          setError(null);
+        })
+        .catch((reason: Error) => setError(reason.message)),
+    []
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAnalyticsReport()
+      .then((result) => {
+        if (!cancelled) setReport(result);
+      })
+      .catch((reason: Error) => {
+        if (!cancelled) setError(reason.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!report) {
+    return (
+      <div className={`${cardClasses} text-sm text-zinc-500`}>
+        {error ? `Could not load analytics: ${error}` : "Loading analytics…"}
+      </div>
+    );
+  }
+
+  const { totals } = report;
+  const rows = report.breakdowns[dimension];
+
+  return (
+    <div className="flex flex-col gap-6">
+      {error ? (
+        <div className="rounded-2xl border border-amber-300/60 bg-amber-100/70 px-3 py-2 text-xs font-medium text-amber-800 dark:border-amber-500/30 dark:bg-amber-500/20 dark:text-amber-100">
+          Could not refresh analytics: {error}
+        </div>
+      ) : null}
+
+      <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-6">
+        {[
+          { label: "Calls", value: String(totals.calls) },
+          ...RATE_SERIES.map((series) => ({
+            label: series.label,
+            value: percent(totals[series.key]),
+          })),
+          { label: "Avg. duration", value: averageDuration(totals) },
+        ].map((stat) => (
+          <div key={stat.label} className={cardClasses}>
+            <div className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+              {stat.label}
+            </div>
+            <div className="mt-1 text-2xl font-semibold text-zinc-900 dark:text-zinc-50">
+              {stat.value}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <section className={cardClasses}>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap gap-2">
+            {ANALYTICS_DIMENSIONS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setDimension(option)}
+                className={`rounded-full px-4 py-1.5 text-sm font-medium transition-colors ${
+                  option === dimension
+                    ? "bg-purple-600 text-white"
+                    : "border border-zinc-200 text-zinc-600 hover:border-purple-400 hover:text-purple-700 dark:border-zinc-800 dark:text-zinc-300 dark:hover:text-purple-200"
+                }`}
+              >
+                By {ANALYTICS_DIMENSION_LABELS[option].toLowerCase()}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={load} className={buttonClasses}>
+              Refresh
+            </button>
+            <button
+              type="button"
+              disabled={rows.length === 0}
+              onClick={() =>
+                downloadCsv(
+                  `call-outcomes-by-${dimension}.csv`,
+                  analyticsRowsToCsv(
+                    ANALYTICS_DIMENSION_LABELS[dimension],
+                    rows
+                  )
+                )
+              }
+              className={buttonClasses}
+            >
+              Export CSV
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-3 flex flex-wrap gap-4 text-xs text-zinc-500 dark:text-zinc-400">
+          {RATE_SERIES.map((series) => (
+            <span key={series.key} className="flex items-center gap-1.5">
+              <span className={`h-2.5 w-2.5 rounded-full ${series.bar}`} />
+              {series.label}
+            </span>
+          ))}
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="py-10 text-center text-sm text-zinc-400 dark:text-zinc-500">
+            No calls recorded yet.
+          </p>
+        ) : (
+          <div className="mt-4 flex flex-col gap-3">
+            {rows.map((row) => (
+              <div
+                key={row.key}
+                className="grid items-center gap-3 text-sm sm:grid-cols-[160px_minmax(0,1fr)_180px]"
+              >
+                <span className="font-medium text-zinc-800 dark:text-zinc-200">
+                  {row.key}
+                </span>
+                <div className="flex h-3 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+                  {RATE_SERIES.map((series) => (
+                    <div
+                      key={series.key}
+                      className={series.bar}
+                      style={{ width: percent(row[series.key]) }}
+                      title={`${series.label}: ${percent(row[series.key])}`}
+                    />
+                  ))}
+                </div>
+                <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {row.calls} calls · {percent(row.confirmationRate)} confirmed
+                  · {averageDuration(row)} avg
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className={cardClasses}>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+              Drop-off points
+            </h2>
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">
+              The script step customers were on when they hung up.
+            </p>
+          </div>
+          <button
+            type="button"
+            disabled={report.dropOff.length === 0}
+            onClick={() =>
+              downloadCsv("call-drop-off.csv", dropOffToCsv(report.dropOff))
+            }
+            className={buttonClasses}
+          >
+            Export CSV
+          </button>
+        </div>
+        {report.dropOff.length === 0 ? (
+          <p className="py-6 text-center text-sm text-zinc-400 dark:text-zinc-500">
+            No customer has hung up mid-call yet.
+          </p>
+        ) : (
+          <div className="mt-4 flex flex-col gap-2">
+            {report.dropOff.map((row) => (
+              <div
+                key={row.nodeId}
+                className="grid items-center gap-3 text-sm sm:grid-cols-[160px_minmax(0,1fr)_120px]"
+              >
+                <span className="font-mono text-xs text-zinc-700 dark:text-zinc-300">
+                  {row.nodeId}
+                </span>
+                <div className="h-3 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+                  <div
+                    className="h-full bg-rose-500"
+                    style={{ width: percent(row.share) }}
+                  />
+                </div>
+                <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {row.calls} calls · {percent(row.share)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <p className="text-xs text-zinc-400 dark:text-zinc-500">
+        Generated {formatDateTime(report.generatedAt)}
+      </p>
+    </div>
+  );
+};
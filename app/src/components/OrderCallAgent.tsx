@@ -1,762 +1,1602 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { Order, orders as initialOrders } from "@/data/orders";
+import Link from "next/link";
+import {
+  Suspense,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { orders as initialOrders } from "@/data/orders";
+import {
+  isCallInFlight,
+  isInConversation,
+  isUnreachableOutcome,
+} from "@/agent/callState";
+import {
+  ADDRESS_FIELD_LABELS,
+  ADDRESS_FIELDS,
+  AddressField,
+  lookupPincode,
+} from "@/agent/address";
+import { describeChange } from "@/agent/amendments";
+import type { CampaignCallResult } from "@/agent/campaign";
+import type { OptOutEntry } from "@/agent/compliance";
+import {
+  CANCELLATION_REASON_LABELS,
+  CANCELLATION_REASONS,
+  REFUND_METHOD_LABELS,
+  RefundRecord,
+} from "@/agent/cancellation";
+import {
+  CallController,
+  CallSnapshot,
+  createCallController,
+} from "@/agent/controller/callController";
+import { formatDateTime, formatINR, timestamp } from "@/agent/format";
+import {
+  DEFAULT_LOCALE,
+  isSupportedLocale,
+  LOCALE_LABELS,
+  SUPPORTED_LOCALES,
+  SupportedLocale,
+} from "@/agent/i18n/locales";
+import {
+  DEFAULT_RETRY_POLICY,
+  formatCallbackTime,
+  nextDialTime,
+} from "@/agent/retry";
+import { assessOrders, RISK_LEVEL_LABELS } from "@/agent/risk";
+import { createBroadcastMonitorChannel } from "@/agent/monitor/broadcastChannel";
+import type { MonitorChannel, MonitorMessage } from "@/agent/monitor/types";
+import { DeliverySlot, extractPincode } from "@/agent/slots";
+import { defaultCallScript } from "@/agent/script/defaultScript";
+import { getNode } from "@/agent/script/interpreter";
+import type { ScriptInput } from "@/agent/script/types";
+import {
+  createBrowserRecognizer,
+  SpeechRecognizer,
+} from "@/agent/speech/recognizer";
+import { createBrowserTtsEngine } from "@/agent/tts/browserEngine";
+import { stripSpeechMarkup } from "@/agent/tts/markup";
+import { createOfflineTtsEngine } from "@/agent/tts/offlineEngine";
+import { createSilentTtsEngine } from "@/agent/tts/silentEngine";
+import {
+  CONSOLE_TTS_ENGINE_IDS,
+  ConsoleTtsEngineId,
+  TTS_ENGINE_LABELS,
+  TtsEngine,
+} from "@/agent/tts/types";
+import {
+  createSimulatedProvider,
+  isSimulatedProvider,
+  SimulatedPickup,
+} from "@/agent/telephony/simulatedProvider";
+import type {
+  TelephonyEvent,
+  TelephonyProvider,
+} from "@/agent/telephony/types";
+import { createTelephonyVoice } from "@/agent/telephony/voice";
+import {
+  CALL_OUTCOME_LABELS,
+  CallRecord,
+  CallState,
+  ConversationEntry,
+  CustomerIntent,
+  EscalationTicket,
+  OrderRecord,
+  SmsMessage,
+} from "@/agent/types";
+import { saveCallRecord } from "@/api/calls";
+import {
+  checkDialPermission,
+  recordDisclosure,
+  registerOptOut,
+} from "@/api/compliance";
+import { fetchOrders, saveCallOutcome, updateOrder } from "@/api/orders";
+import { initiateRefund } from "@/api/refunds";
+import { fetchSlots, releaseSlot, reserveSlot } from "@/api/slots";
+import { retrySms, sendOutcomeSms } from "@/api/sms";
+import { openTicket } from "@/api/tickets";
+import { synthesizeSpeech } from "@/api/tts";
+import { CampaignPanel } from "@/components/CampaignPanel";
+import {
+  OrderQueue,
+  OrderQueueFallback,
+  RISK_LEVEL_CLASSES,
+} from "@/components/OrderQueue";
+import { RetrySchedulePanel } from "@/components/RetrySchedulePanel";
+import { useSpeechRecognition } from "@/hooks/useSpeechRecognition";
+
+const CALL_STATE_META: Record<CallState, { label: string; dot: string }> = {
+  idle: { label: "Idle", dot: "bg-zinc-300" },
+  dialing: { label: "Dialing", dot: "bg-amber-400" },
+  ringing: { label: "Ringing", dot: "animate-pulse bg-amber-400" },
+  speaking: { label: "Agent speaking", dot: "bg-emerald-400" },
+  awaiting_response: { label: "Awaiting response", dot: "bg-blue-400" },
+  resolved: { label: "Call completed", dot: "bg-zinc-400" },
+  muted: { label: "Muted", dot: "bg-zinc-300" },
+  no_answer: { label: "No answer", dot: "bg-sky-400" },
+  busy: { label: "Line busy", dot: "bg-orange-400" },
+  voicemail: { label: "Voicemail", dot: "bg-indigo-400" },
+  dropped: { label: "Call dropped", dot: "bg-rose-400" },
+};
+
+/** How many of the earliest free slots the agent reads out. */
+const OFFERED_SLOT_LIMIT = 3;
 
-type Speaker = "agent" | "customer" | "system";
+// Shared empties, so the console renders the same values between calls.
+const NO_CONVERSATION: ConversationEntry[] = [];
+const NO_SLOTS: DeliverySlot[] = [];
 
-type ConversationEntry = {
-  speaker: Speaker;
-  message: string;
-  timestamp: string;
-  awaitingResponse?: boolean;
+const SIMULATED_PICKUP_LABELS: Record<SimulatedPickup, string> = {
+  answer: "Customer answers",
+  busy: "Line busy",
+  no_answer: "No answer",
+  voicemail: "Goes to voicemail",
 };
 
-type CallState =
-  | "idle"
-  | "dialing"
-  | "speaking"
-  | "awaiting_response"
-  | "resolved"
-  | "muted";
-
-type CallOutcome = "confirmed" | "rescheduled" | "cancelled" | "needs_support";
-
-const ORDER_STATUS_META: Record<
-  Order["status"],
-  { label: string; classes: string }
-> = {
-  pending: {
-    label: "Pending confirmation",
-    classes:
-      "bg-amber-50 text-amber-700 border border-amber-200 dark:bg-amber-500/20 dark:text-amber-200",
-  },
-  confirmed: {
-    label: "Confirmed",
-    classes:
-      "bg-emerald-50 text-emerald-700 border border-emerald-200 dark:bg-emerald-500/20 dark:text-emerald-100",
-  },
-  requires_followup: {
-    label: "Requires follow-up",
-    classes:
-      "bg-sky-50 text-sky-700 border border-sky-200 dark:bg-sky-500/20 dark:text-sky-100",
-  },
-  cancelled: {
-    label: "Cancelled",
-    classes:
-      "bg-rose-50 text-rose-700 border border-rose-200 dark:bg-rose-500/20 dark:text-rose-100",
-  },
+type OrderCallAgentProps = {
+  recognizer?: SpeechRecognizer;
+  telephonyProvider?: TelephonyProvider;
+  monitorChannel?: MonitorChannel;
+  /** Replaces the voice picker with a fixed engine. */
+  ttsEngine?: TtsEngine;
 };
 
-const RESCHEDULE_OPTIONS = [
-  "Today, 7PM - 9PM",
-  "Tomorrow, 9AM - 12PM",
-  "Tomorrow, 2PM - 5PM",
-  "Saturday, 11AM - 1PM",
-];
+export const OrderCallAgent = ({
+  recognizer,
+  telephonyProvider,
+  monitorChannel,
+  ttsEngine,
+}: OrderCallAgentProps = {}) => {
+  const [orders, setOrders] = useState<OrderRecord[]>(initialOrders);
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(
+    initialOrders[0]?.id ?? null
+  );
+  const [controller, setController] = useState<CallController | null>(null);
+  const [typedReply, setTypedReply] = useState<string>("");
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [savedCall, setSavedCall] = useState<CallRecord | null>(null);
+  const [transcriptError, setTranscriptError] = useState<string | null>(null);
+  const [addressField, setAddressField] = useState<AddressField>("flat");
+  const [addressValue, setAddressValue] = useState<string>("");
+  const [smsMessage, setSmsMessage] = useState<SmsMessage | null>(null);
+  const [smsError, setSmsError] = useState<string | null>(null);
+  const [ticket, setTicket] = useState<EscalationTicket | null>(null);
+  const [ticketError, setTicketError] = useState<string | null>(null);
+  const [refundResult, setRefundResult] = useState<{
+    refund: RefundRecord | null;
+  } | null>(null);
+  const [refundError, setRefundError] = useState<string | null>(null);
+  const [liveCallId, setLiveCallId] = useState<string | null>(null);
+  const [dialBlocked, setDialBlocked] = useState<string | null>(null);
+  const [optOut, setOptOut] = useState<OptOutEntry | null>(null);
+  const [complianceError, setComplianceError] = useState<string | null>(null);
+
+  const callStartedAtRef = useRef<string | null>(null);
+  const campaignCallRef = useRef<{
+    resolve: (result: CampaignCallResult) => void;
+  } | null>(null);
+  const consoleQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const ordersRef = useRef<OrderRecord[]>(initialOrders);
+  const callIdRef = useRef<string | null>(null);
+  const callListenerRef = useRef<
+    (snapshot: CallSnapshot, previous: CallSnapshot) => void
+  >(() => undefined);
+  const telephonyListenerRef = useRef<(event: TelephonyEvent) => void>(
+    () => undefined
+  );
+  const monitorListenerRef = useRef<(message: MonitorMessage) => void>(
+    () => undefined
+  );
+  const [ttsEngines] = useState<Record<ConsoleTtsEngineId, TtsEngine>>(() => ({
+    browser: createBrowserTtsEngine(),
+    offline: createOfflineTtsEngine(synthesizeSpeech),
+    silent: createSilentTtsEngine(),
+  }));
+  const [ttsEngineId, setTtsEngineId] = useState<ConsoleTtsEngineId>("browser");
+  const [voiceError, setVoiceError] = useState<string | null>(null);
+  const voice = ttsEngine ?? ttsEngines[ttsEngineId];
+  const [customerRecognizer] = useState<SpeechRecognizer>(
+    () => recognizer ?? createBrowserRecognizer()
+  );
+  const [telephony] = useState<TelephonyProvider>(
+    () => telephonyProvider ?? createSimulatedProvider()
+  );
+  const [monitor] = useState<MonitorChannel>(
+    () => monitorChannel ?? createBroadcastMonitorChannel()
+  );
+  const [simulatedPickup, setSimulatedPickup] = useState<SimulatedPickup>(() =>
+    isSimulatedProvider(telephony) ? telephony.simulation.getPickup() : "answer"
+  );
+  const script = defaultCallScript;
 
-const formatINR = (amount: number) =>
-  new Intl.NumberFormat("en-IN", {
-    style: "currency",
-    currency: "INR",
-    maximumFractionDigits: 0,
-  }).format(amount);
+  const subscribeToCall = useCallback(
+    (onChange: () => void) => controller?.subscribe(onChange) ?? (() => {}),
+    [controller]
+  );
+  const call = useSyncExternalStore(
+    subscribeToCall,
+    () => controller?.getSnapshot() ?? null,
+    () => null
+  );
 
-const timestamp = () => new Date().toISOString();
+  const callState = call?.state ?? "idle";
+  const conversation = call?.conversation ?? NO_CONVERSATION;
+  const callOutcome = call?.outcome ?? null;
+  const callControl = call?.control ?? "agent";
+  const acceptingInput = call?.acceptingInput ?? false;
+  const lastClassification = call?.classification ?? null;
+  const callLocale = call?.context.locale ?? null;
+  const offeredSlots = call?.context.offeredSlots ?? NO_SLOTS;
+  const reservingSlotId = call?.reservingSlotId ?? null;
+  const rescheduleSlot = call?.context.slot ?? "";
+  const amendment = call?.context.amendment ?? null;
+  const correctedAddress = call?.context.address ?? null;
+  const activeNode = call?.nodeId ? getNode(script, call.nodeId) : null;
 
-const isBrowser =
-  typeof window !== "undefined" && typeof window.speechSynthesis !== "undefined";
+  const selectedOrder = useMemo(
+    () => orders.find((order) => order.id === selectedOrderId) ?? null,
+    [orders, selectedOrderId]
+  );
 
-const useSpeechSynthesis = () => {
-  const supported = isBrowser;
-  const activeUtteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const riskAssessments = useMemo(() => assessOrders(orders), [orders]);
+  const selectedRisk = selectedOrder
+    ? riskAssessments.get(selectedOrder.id) ?? null
+    : null;
 
-  useEffect(() => {
-    return () => {
-      if (isBrowser) {
-        window.speechSynthesis.cancel();
-      }
-    };
+  const selectedPincode = selectedOrder
+    ? extractPincode(selectedOrder.address)
+    : null;
+  const selectedPincodeEntry = selectedPincode
+    ? lookupPincode(selectedPincode)
+    : null;
+
+  useEffect(() => () => voice.stop(), [voice]);
+
+  useEffect(() => () => controller?.dispose(), [controller]);
+
+  const settleCampaignCall = useCallback((result: CampaignCallResult) => {
+    campaignCallRef.current?.resolve(result);
+    campaignCallRef.current = null;
   }, []);
 
-  const speak = useCallback(
-    (text: string, onEnd?: () => void) => {
-      if (!isBrowser) {
-        onEnd?.();
-        return;
-      }
+  const hangUp = useCallback(() => {
+    const callId = callIdRef.current;
+    callIdRef.current = null;
+    if (callId) telephony.hangup(callId);
+  }, [telephony]);
 
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = "en-IN";
-      utterance.rate = 1;
-      utterance.pitch = 1;
-      utterance.volume = 0.9;
+  useEffect(() => hangUp, [hangUp]);
 
-      utterance.onend = () => {
-        onEnd?.();
-      };
+  const resetCall = useCallback(() => {
+    settleCampaignCall({ status: "no_answer" });
+    hangUp();
+    const abandoned = controller?.getSnapshot();
+    if (abandoned?.context.slot && !abandoned.outcome) {
+      releaseSlot(abandoned.order.id).catch((error: Error) =>
+        setSyncError(error.message)
+      );
+    }
+    controller?.dispose();
+    setController(null);
+    callStartedAtRef.current = null;
+    setTypedReply("");
+    setSavedCall(null);
+    setTranscriptError(null);
+    setAddressValue("");
+    setSmsMessage(null);
+    setSmsError(null);
+    setTicket(null);
+    setTicketError(null);
+    setRefundResult(null);
+    setRefundError(null);
+    setLiveCallId(null);
+    setVoiceError(null);
+    setDialBlocked(null);
+    setOptOut(null);
+    setComplianceError(null);
+  }, [controller, hangUp, settleCampaignCall]);
+
+  const replaceOrder = useCallback((updated: OrderRecord) => {
+    setOrders((prev) =>
+      prev.map((order) => (order.id === updated.id ? updated : order))
+    );
+  }, []);
 
-      utterance.onerror = () => {
-        onEnd?.();
-      };
+  useEffect(() => {
+    ordersRef.current = orders;
+  }, [orders]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchOrders()
+      .then((stored) => {
+        if (!cancelled) setOrders(stored);
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setSyncError(error.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-      activeUtteranceRef.current = utterance;
-      window.speechSynthesis.speak(utterance);
+  const saveLanguage = useCallback(
+    (order: OrderRecord, language: SupportedLocale) => {
+      replaceOrder({ ...order, language });
+      updateOrder(order.id, { language })
+        .then((saved) => {
+          replaceOrder(saved);
+          setSyncError(null);
+        })
+        .catch((error: Error) => setSyncError(error.message));
     },
-    []
+    [replaceOrder]
   );
 
-  const stop = useCallback(() => {
-    if (!isBrowser) return;
-    window.speechSynthesis.cancel();
-    activeUtteranceRef.current = null;
-  }, []);
+  /** Saves what the call decided and starts the follow-ups it calls for. */
+  const recordOutcome = useCallback(
+    ({
+      outcome,
+      order: updated,
+      context,
+      nodeId,
+      conversation: transcript,
+      escalationReason,
+    }: CallSnapshot) => {
+      if (!outcome) return;
+      const callId = callIdRef.current;
+      replaceOrder(updated);
+      hangUp();
+      // Registered straight away; it must not wait on the order being saved.
+      if (outcome === "opted_out") {
+        registerOptOut({
+          phoneNumber: updated.phoneNumber,
+          source: "call",
+          orderId: updated.id,
+          callId: callId ?? undefined,
+        })
+          .then(setOptOut)
+          .catch((error: Error) => setComplianceError(error.message));
+      }
+      if (outcome !== "rescheduled" && context.slot) {
+        releaseSlot(updated.id).catch((error: Error) =>
+          setSyncError(error.message)
+        );
+      }
+      settleCampaignCall(
+        isUnreachableOutcome(outcome)
+          ? { status: "no_answer", retryAfter: updated.retryAfter }
+          : { status: "completed", outcome }
+      );
 
-  return { supported, speak, stop };
-};
+      saveCallOutcome(outcome, context.order, updated)
+        .then((saved) => {
+          replaceOrder(saved);
+          setSyncError(null);
+          sendOutcomeSms(saved.id, outcome)
+            .then(setSmsMessage)
+            .catch((error: Error) => setSmsError(error.message));
+          if (outcome === "cancelled") {
+            initiateRefund(saved.id)
+              .then((refund) => setRefundResult({ refund }))
+              .catch((error: Error) => setRefundError(error.message));
+          }
+        })
+        .catch((error: Error) => {
+          setSyncError(error.message);
+          setSmsError("order was not saved, so no SMS was sent");
+          setRefundError("order was not saved, so no refund was started");
+        });
 
-export const OrderCallAgent = () => {
-  const [orders, setOrders] = useState<Order[]>(initialOrders);
-  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(
-    initialOrders[0]?.id ?? null
+      const callSaved = saveCallRecord({
+        orderId: context.order.id,
+        customerName: context.order.customerName,
+        startedAt: callStartedAtRef.current ?? timestamp(),
+        endedAt: timestamp(),
+        outcome,
+        rescheduleSlot: context.slot,
+        amendment:
+          outcome === "confirmed" || outcome === "rescheduled"
+            ? context.amendment
+            : undefined,
+        lastNodeId: nodeId ?? undefined,
+        conversation: transcript,
+      })
+        .then((saved) => {
+          setSavedCall(saved);
+          return saved;
+        })
+        .catch((error: Error) => {
+          setTranscriptError(error.message);
+          return null;
+        });
+
+      if (escalationReason) {
+        callSaved
+          .then((saved) =>
+            openTicket({
+              orderId: context.order.id,
+              reason: escalationReason,
+              callId: saved?.id,
+              transcript,
+            })
+          )
+          .then(setTicket)
+          .catch((error: Error) => setTicketError(error.message));
+      }
+    },
+    [hangUp, replaceOrder, settleCampaignCall]
   );
-  const [conversation, setConversation] = useState<ConversationEntry[]>([]);
-  const [callState, setCallState] = useState<CallState>("idle");
-  const [callOutcome, setCallOutcome] = useState<CallOutcome | null>(null);
-  const [rescheduleSlot, setRescheduleSlot] = useState<string>("");
-  const [agentMuted, setAgentMuted] = useState<boolean>(false);
 
-  const timeoutsRef = useRef<number[]>([]);
-  const { speak, stop, supported } = useSpeechSynthesis();
+  const handleCallUpdate = useCallback(
+    (snapshot: CallSnapshot, previous: CallSnapshot) => {
+      // The customer asked for another language; keep it for later calls.
+      if (snapshot.context.locale !== previous.context.locale) {
+        saveLanguage(previous.context.order, snapshot.context.locale);
+      }
+      // Logged only once the customer has heard the notice to the end.
+      if (snapshot.disclosed && !previous.disclosed) {
+        const { order } = snapshot.context;
+        recordDisclosure({
+          phoneNumber: order.phoneNumber,
+          orderId: order.id,
+          callId: callIdRef.current ?? undefined,
+          text: stripSpeechMarkup(script.disclosure(snapshot.context)),
+        }).catch((error: Error) => setComplianceError(error.message));
+      }
+      if (snapshot.outcome && !previous.outcome) recordOutcome(snapshot);
+    },
+    [recordOutcome, saveLanguage, script]
+  );
 
-  const selectedOrder = useMemo(
-    () => orders.find((order) => order.id === selectedOrderId) ?? null,
-    [orders, selectedOrderId]
+  useEffect(() => {
+    callListenerRef.current = handleCallUpdate;
+  }, [handleCallUpdate]);
+
+  /**
+   * Looks up free delivery slots for the order's pincode so the agent can
+   * offer them if the customer asks to reschedule. With no pincode or no
+   * capacity the offer is empty and the script falls back to escalation.
+   */
+  const loadSlotOffer = useCallback(
+    (order: OrderRecord, call: CallController) => {
+      const pincode = extractPincode(order.address);
+      const offer = (slots: DeliverySlot[]) =>
+        call.setOfferedSlots(slots.slice(0, OFFERED_SLOT_LIMIT));
+
+      if (!pincode) {
+        offer([]);
+        return Promise.resolve();
+      }
+      return fetchSlots(pincode)
+        .then(offer)
+        .catch((error: Error) => {
+          setSyncError(error.message);
+          offer([]);
+        });
+    },
+    []
   );
 
-  const resetCall = useCallback(() => {
-    timeoutsRef.current.forEach((timeoutId) => {
-      window.clearTimeout(timeoutId);
-    });
-    timeoutsRef.current = [];
-    stop();
-    setConversation([]);
-    setCallState("idle");
-    setCallOutcome(null);
-    setRescheduleSlot("");
-  }, [stop]);
+  const beginCall = useCallback(
+    (order: OrderRecord) => {
+      resetCall();
+      const call = createCallController({
+        order,
+        script,
+        // A real carrier plays the lines to the customer itself.
+        tts: isSimulatedProvider(telephony)
+          ? voice
+          : createTelephonyVoice(telephony, () => callIdRef.current),
+        onVoiceError: setVoiceError,
+        // A taken slot refreshes the offer before the agent apologises.
+        reserveSlot: (slot) =>
+          reserveSlot(slot, order.id).catch((error: Error) =>
+            loadSlotOffer(order, call).then(() => {
+              throw error;
+            })
+          ),
+      });
+      let previous = call.getSnapshot();
+      call.subscribe((snapshot) => {
+        callListenerRef.current(snapshot, previous);
+        previous = snapshot;
+      });
+      setController(call);
+      callStartedAtRef.current = timestamp();
+      void loadSlotOffer(order, call);
 
-  useEffect(() => {
-    return () => {
-      timeoutsRef.current.forEach((timeoutId) => {
-        window.clearTimeout(timeoutId);
+      call.note({
+        speaker: "system",
+        message: `Checking the do-not-call registry, then dialing ${order.phoneNumber}…`,
       });
-      timeoutsRef.current = [];
-    };
-  }, []);
 
-  const addMessage = useCallback((entry: ConversationEntry) => {
-    setConversation((prev) => [...prev, entry]);
-  }, []);
+      const startedAt = callStartedAtRef.current;
+      const refuse = (reason: string) => {
+        call.abort(reason);
+        setDialBlocked(reason);
+        settleCampaignCall({ status: "blocked" });
+      };
 
-  const scheduleAgentLine = useCallback(
-    (
-      text: string,
-      delay: number,
-      options: { awaitingResponse?: boolean; markResolved?: boolean } = {}
-    ) => {
-      const timeoutId = window.setTimeout(() => {
-        const entry: ConversationEntry = {
-          speaker: "agent",
-          message: text,
-          timestamp: timestamp(),
-          awaitingResponse: options.awaitingResponse,
-        };
-        addMessage(entry);
-        setCallState("speaking");
-
-        speak(text, () => {
-          if (options.markResolved) {
-            setCallState("resolved");
-          } else if (options.awaitingResponse) {
-            setCallState("awaiting_response");
-          } else {
-            setCallState("speaking");
+      // Nobody is dialled until the registry says so, and a failed lookup
+      // counts as a no.
+      checkDialPermission(order.phoneNumber, order.id)
+        .then(({ allowed, optOut }) => {
+          if (callStartedAtRef.current !== startedAt) return;
+          if (!allowed) {
+            refuse(
+              `${
+                order.phoneNumber
+              } is on the do-not-call list since ${formatDateTime(
+                optOut?.registeredAt ?? timestamp()
+              )}.`
+            );
+            return;
           }
+          callIdRef.current = telephony.dial(order.phoneNumber);
+          setLiveCallId(callIdRef.current);
+        })
+        .catch((error: Error) => {
+          if (callStartedAtRef.current !== startedAt) return;
+          refuse(
+            `The do-not-call registry could not be checked (${error.message}).`
+          );
         });
-      }, delay);
-      timeoutsRef.current.push(timeoutId);
     },
-    [addMessage, speak]
+    [loadSlotOffer, resetCall, script, settleCampaignCall, telephony, voice]
   );
 
   const startCall = useCallback(() => {
     if (!selectedOrder) return;
-    resetCall();
-    setCallState("dialing");
-
-    addMessage({
-      speaker: "system",
-      message: `Dialing ${selectedOrder.phoneNumber}…`,
-      timestamp: timestamp(),
-    });
-
-    const introDelay = 1200;
-
-    scheduleAgentLine(
-      `Hello ${selectedOrder.customerName}, this is the Flipkart order validation desk. I'm calling to confirm your order ${selectedOrder.id} for ${formatINR(
-        selectedOrder.total
-      )}.`,
-      introDelay,
-      { awaitingResponse: false }
-    );
+    beginCall(selectedOrder);
+  }, [beginCall, selectedOrder]);
+
+  /** Confirms low-risk orders straight away instead of calling them. */
+  const autoConfirmOrders = useCallback(
+    (toConfirm: OrderRecord[]) => {
+      const autoConfirmedAt = timestamp();
+      toConfirm.forEach((order) => {
+        replaceOrder({ ...order, status: "confirmed", autoConfirmedAt });
+        updateOrder(order.id, { status: "confirmed", autoConfirmedAt })
+          .then(replaceOrder)
+          .catch((error: Error) => setSyncError(error.message));
+      });
+    },
+    [replaceOrder]
+  );
 
-    scheduleAgentLine(
-      `It includes ${selectedOrder.items
-        .map(
-          (item) =>
-            `${item.quantity} ${item.name}${item.quantity > 1 ? "s" : ""}`
-        )
-        .join(", ")} with ${selectedOrder.paymentMethod.toLowerCase()}. Is everything correct so we can schedule delivery ${selectedOrder.deliverySlot}?`,
-      introDelay + 2200,
-      { awaitingResponse: true }
-    );
-  }, [addMessage, resetCall, scheduleAgentLine, selectedOrder]);
+  const executeCampaignCall = useCallback(
+    (order: OrderRecord) => {
+      // Earlier attempts may have changed the order since it was queued.
+      const dial = () =>
+        new Promise<CampaignCallResult>((resolve) => {
+          const current =
+            ordersRef.current.find(({ id }) => id === order.id) ?? order;
+          const dialAt = nextDialTime(current);
+          if (dialAt > Date.now()) {
+            resolve({
+              status: "deferred",
+              until: new Date(dialAt).toISOString(),
+            });
+            return;
+          }
+          setSelectedOrderId(current.id);
+          beginCall(current);
+          campaignCallRef.current = { resolve };
+        });
 
-  const completeCall = useCallback(
-    (outcome: CallOutcome, orderUpdater: (order: Order) => Order) => {
-      if (!selectedOrder) return;
+      const result = consoleQueueRef.current.then(dial, dial);
+      consoleQueueRef.current = result;
+      return result;
+    },
+    [beginCall]
+  );
 
-      setOrders((prev) =>
-        prev.map((order) =>
-          order.id === selectedOrder.id ? orderUpdater(order) : order
-        )
-      );
-      setCallOutcome(outcome);
-      setCallState("resolved");
+  const respond = useCallback(
+    (input: ScriptInput) => {
+      controller?.respond(input);
     },
-    [selectedOrder]
+    [controller]
   );
 
   const handleCustomerResponse = useCallback(
-    (type: "confirm" | "reschedule" | "cancel" | "query") => {
-      if (!selectedOrder) return;
-
-      const customerLines: Record<typeof type, string> = {
-        confirm: "Yes, please go ahead.",
-        reschedule: "Could we deliver in a different slot?",
-        cancel: "I want to cancel this order.",
-        query: "Can you tell me the payment details once more?",
-      };
-
-      addMessage({
-        speaker: "customer",
-        message: customerLines[type],
-        timestamp: timestamp(),
-      });
-
-      if (type === "confirm") {
-        scheduleAgentLine(
-          "Perfect, I will confirm the order and send you the delivery updates on SMS right away.",
-          400,
-          { awaitingResponse: false }
-        );
-        scheduleAgentLine(
-          "Thank you for shopping with Flipkart. Have a great day!",
-          2000,
-          { awaitingResponse: false, markResolved: true }
-        );
+    (intent: CustomerIntent) => respond({ kind: "intent", intent }),
+    [respond]
+  );
 
-        const updater = (order: Order): Order => ({
-          ...order,
-          status: "confirmed",
-        });
+  const handleUtterance = useCallback(
+    (utterance: string) => controller?.say(utterance),
+    [controller]
+  );
 
-        const timeoutId = window.setTimeout(() => {
-          completeCall("confirmed", updater);
-        }, 2500);
-        timeoutsRef.current.push(timeoutId);
+  const handleTelephonyEvent = useCallback(
+    (event: TelephonyEvent) => {
+      if (!controller || event.callId !== callIdRef.current) return;
+
+      switch (event.type) {
+        case "ringing":
+          controller.ring();
+          return;
+        case "answered":
+          controller.answer();
+          return;
+        case "busy":
+        case "no_answer":
+        case "voicemail":
+          callIdRef.current = null;
+          controller.unreachable(event.type);
+          return;
+        case "hangup":
+          callIdRef.current = null;
+          controller.hangUp();
+          return;
+        case "dtmf":
+          controller.press(event.digit);
+          return;
       }
+    },
+    [controller]
+  );
 
-      if (type === "reschedule") {
-        setCallState("awaiting_response");
-        setCallOutcome("rescheduled");
-        setRescheduleSlot("");
-        scheduleAgentLine(
-          "Sure, I can help with that. I have a few delivery slots available, please pick the one that works best for you.",
-          500,
-          { awaitingResponse: true }
-        );
-      }
+  useEffect(() => {
+    telephonyListenerRef.current = handleTelephonyEvent;
+  }, [handleTelephonyEvent]);
 
-      if (type === "cancel") {
-        scheduleAgentLine(
-          "I understand. I will cancel the order right away and send a confirmation SMS. Thank you for your time.",
-          700,
-          { awaitingResponse: false, markResolved: true }
-        );
+  useEffect(
+    () => telephony.subscribe((event) => telephonyListenerRef.current(event)),
+    [telephony]
+  );
 
-        const updater = (order: Order): Order => ({
-          ...order,
-          status: "cancelled",
-        });
+  const publishLiveCall = useCallback(() => {
+    if (!liveCallId || !call) return;
+    const { order } = call.context;
+    monitor.post({
+      type: "call_update",
+      call: {
+        callId: liveCallId,
+        orderId: order.id,
+        customerName: order.customerName,
+        phoneNumber: order.phoneNumber,
+        callState: call.state,
+        nodeId: call.nodeId,
+        control: call.control,
+        startedAt: callStartedAtRef.current ?? timestamp(),
+        updatedAt: timestamp(),
+        conversation: call.conversation,
+      },
+    });
+  }, [call, liveCallId, monitor]);
 
-        const timeoutId = window.setTimeout(() => {
-          completeCall("cancelled", updater);
-        }, 1400);
-        timeoutsRef.current.push(timeoutId);
-      }
+  useEffect(() => {
+    publishLiveCall();
+  }, [publishLiveCall]);
 
-      if (type === "query") {
-        scheduleAgentLine(
-          `This order is ${formatINR(
-            selectedOrder.total
-          )} with ${selectedOrder.paymentMethod.toLowerCase()}. Would you like to proceed with the same plan?`,
-          700,
-          { awaitingResponse: true }
-        );
+  useEffect(() => {
+    if (!liveCallId) return;
+    return () => monitor.post({ type: "call_ended", callId: liveCallId });
+  }, [liveCallId, monitor]);
+
+  const handleMonitorMessage = useCallback(
+    (message: MonitorMessage) => {
+      if (message.type === "roll_call") {
+        publishLiveCall();
+        return;
+      }
+      if (!("callId" in message) || message.callId !== liveCallId) return;
+      if (!controller || !isCallInFlight(callState)) return;
+
+      switch (message.type) {
+        case "whisper":
+          controller.note({
+            speaker: "supervisor",
+            message: message.message,
+            whisper: true,
+          });
+          return;
+        case "take_over":
+          controller.takeOver();
+          return;
+        case "supervisor_line":
+          if (callControl !== "supervisor") return;
+          controller.note({ speaker: "supervisor", message: message.message });
+          return;
+        case "hand_back":
+          controller.handBack();
+          return;
+        case "wrap_up":
+          controller.wrapUp(message.outcome);
+          return;
       }
     },
-    [addMessage, completeCall, scheduleAgentLine, selectedOrder]
+    [callControl, callState, controller, liveCallId, publishLiveCall]
   );
 
-  const handleRescheduleSelection = useCallback(
-    (slot: string) => {
-      if (!selectedOrder) return;
-
-      setRescheduleSlot(slot);
-      addMessage({
-        speaker: "customer",
-        message: `Let's move it to ${slot}.`,
-        timestamp: timestamp(),
-      });
-
-      scheduleAgentLine(
-        `Done, I have rescheduled your delivery to ${slot}. You will receive a confirmation SMS shortly.`,
-        500,
-        { awaitingResponse: false }
-      );
-
-      scheduleAgentLine("Thanks for confirming. Have a great day!", 2000, {
-        awaitingResponse: false,
-        markResolved: true,
-      });
-
-      const updater = (order: Order): Order => ({
-        ...order,
-        status: "confirmed",
-        deliverySlot: slot,
-      });
+  useEffect(() => {
+    monitorListenerRef.current = handleMonitorMessage;
+  }, [handleMonitorMessage]);
 
-      const timeoutId = window.setTimeout(() => {
-        completeCall("rescheduled", updater);
-      }, 2300);
-      timeoutsRef.current.push(timeoutId);
-    },
-    [addMessage, completeCall, scheduleAgentLine, selectedOrder]
-  );
+  useEffect(() => {
+    const unsubscribe = monitor.subscribe((message) =>
+      monitorListenerRef.current(message)
+    );
+    return () => {
+      unsubscribe();
+      monitor.close();
+    };
+  }, [monitor]);
 
-  const escalateToSupport = useCallback(() => {
-    if (!selectedOrder) return;
-    addMessage({
-      speaker: "agent",
-      message:
-        "I'll escalate this to a senior support specialist who will call you back within the next hour.",
-      timestamp: timestamp(),
-    });
-    completeCall("needs_support", (order) => ({
-      ...order,
-      status: "requires_followup",
-    }));
-  }, [addMessage, completeCall, selectedOrder]);
+  const voiceInput = useSpeechRecognition({
+    recognizer: customerRecognizer,
+    enabled: acceptingInput,
+    lang: callLocale ?? undefined,
+    onUtterance: handleUtterance,
+  });
 
   const toggleMute = useCallback(() => {
-    setAgentMuted((prev) => {
-      const next = !prev;
-      if (next) {
-        stop();
-        setCallState("muted");
-      } else {
-        setCallState(conversation.length ? "awaiting_response" : "dialing");
-      }
-      return next;
-    });
-  }, [conversation.length, stop]);
+    if (callState === "muted") controller?.unmute();
+    else controller?.mute();
+  }, [callState, controller]);
 
-  useEffect(() => {
-    if (!agentMuted) return;
-    stop();
-  }, [agentMuted, stop]);
+  const retrySmsDelivery = useCallback(() => {
+    if (!smsMessage) return;
+    setSmsError(null);
+    retrySms(smsMessage.id)
+      .then(setSmsMessage)
+      .catch((error: Error) => setSmsError(error.message));
+  }, [smsMessage]);
 
-  const callInFlight = callState !== "idle" && callState !== "resolved";
+  const callInFlight = isCallInFlight(callState);
 
   return (
-    <div className="grid gap-6 md:grid-cols-[minmax(0,320px)_minmax(0,1fr)]">
-      <aside className="rounded-3xl border border-zinc-200 bg-white/80 p-5 shadow-sm backdrop-blur-lg dark:border-zinc-800 dark:bg-zinc-900/60">
-        <div className="flex flex-col gap-4">
-          <div>
-            <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
-              Active Orders
-            </h2>
-            <p className="text-sm text-zinc-500 dark:text-zinc-400">
-              Pick an order and launch the automated confirmation call.
-            </p>
-          </div>
-          <div className="flex flex-col gap-3">
-            {orders.map((order) => {
-              const statusMeta = ORDER_STATUS_META[order.status];
-              const isSelected = order.id === selectedOrderId;
-              return (
-                <button
-                  key={order.id}
-                  type="button"
-                  className={`rounded-2xl border p-4 text-left transition-colors ${
-                    isSelected
-                      ? "border-purple-500 bg-gradient-to-r from-purple-500/10 via-purple-500/5 to-transparent dark:border-purple-400/80"
-                      : "border-zinc-200 hover:border-purple-400 hover:bg-purple-50 dark:border-zinc-800 dark:hover:bg-zinc-800"
-                  }`}
-                  onClick={() => {
-                    if (callInFlight) return;
-                    setSelectedOrderId(order.id);
-                    resetCall();
-                  }}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="text-sm font-semibold text-zinc-900 dark:text-zinc-50">
-                      {order.customerName}
-                    </div>
-                    <span
-                      className={`rounded-full px-3 py-1 text-xs font-medium ${statusMeta.classes}`}
-                    >
-                      {statusMeta.label}
-                    </span>
-                  </div>
-                  <div className="mt-2 text-sm text-zinc-500 dark:text-zinc-400">
-                    <div>{order.id}</div>
-                    <div className="mt-1 font-medium text-zinc-800 dark:text-zinc-200">
-                      {formatINR(order.total)}
-                    </div>
+    <div className="flex flex-col gap-6">
+      <CampaignPanel
+        orders={orders}
+        disabled={callInFlight}
+        riskAssessments={riskAssessments}
+        executeCall={executeCampaignCall}
+        autoConfirm={autoConfirmOrders}
+      />
+      <RetrySchedulePanel
+        orders={orders}
+        disabled={callInFlight}
+        executeCall={executeCampaignCall}
+      />
+      <div className="grid gap-6 md:grid-cols-[minmax(0,320px)_minmax(0,1fr)]">
+        <Suspense fallback={<OrderQueueFallback />}>
+          <OrderQueue
+            orders={orders}
+            riskAssessments={riskAssessments}
+            selectedOrderId={selectedOrderId}
+            disabled={callInFlight}
+            syncError={syncError}
+            onSelect={(orderId) => {
+              setSelectedOrderId(orderId);
+              resetCall();
+            }}
+          />
+        </Suspense>
+
+        <section className="rounded-3xl border border-zinc-200 bg-white/90 p-6 shadow-sm backdrop-blur-xl dark:border-zinc-800 dark:bg-zinc-900/70">
+          {selectedOrder ? (
+            <div className="flex h-full flex-col gap-6">
+              <header className="space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <div>
+                    <h1 className="text-2xl font-semibold text-zinc-900 dark:text-zinc-50">
+                      {selectedOrder.customerName}
+                    </h1>
+                    <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                      {selectedOrder.phoneNumber}
+                    </p>
                   </div>
-                  <div className="mt-2">
-                    <div className="flex flex-wrap gap-2 text-xs text-zinc-500 dark:text-zinc-400">
-                      {order.items.slice(0, 3).map((item) => (
-                        <span
-                          key={`${order.id}-${item.name}`}
-                          className="rounded-full bg-zinc-100 px-2 py-1 dark:bg-zinc-800/80"
-                        >
-                          {item.quantity}× {item.name}
-                        </span>
-                      ))}
-                      {order.items.length > 3 && (
-                        <span className="rounded-full bg-zinc-100 px-2 py-1 dark:bg-zinc-800/80">
-                          +{order.items.length - 3} more
-                        </span>
-                      )}
-                    </div>
+                  <div className="rounded-2xl border border-purple-200 bg-purple-100 px-4 py-2 text-sm font-semibold text-purple-700 dark:border-purple-500/40 dark:bg-purple-500/10 dark:text-purple-100">
+                    Flipkart Voice Agent
                   </div>
-                </button>
-              );
-            })}
-          </div>
-        </div>
-      </aside>
-
-      <section className="rounded-3xl border border-zinc-200 bg-white/90 p-6 shadow-sm backdrop-blur-xl dark:border-zinc-800 dark:bg-zinc-900/70">
-        {selectedOrder ? (
-          <div className="flex h-full flex-col gap-6">
-            <header className="space-y-3">
-              <div className="flex flex-wrap items-center justify-between gap-4">
-                <div>
-                  <h1 className="text-2xl font-semibold text-zinc-900 dark:text-zinc-50">
-                    {selectedOrder.customerName}
-                  </h1>
-                  <p className="text-sm text-zinc-500 dark:text-zinc-400">
-                    {selectedOrder.phoneNumber}
-                  </p>
                 </div>
-                <div className="rounded-2xl border border-purple-200 bg-purple-100 px-4 py-2 text-sm font-semibold text-purple-700 dark:border-purple-500/40 dark:bg-purple-500/10 dark:text-purple-100">
-                  Flipkart Voice Agent
-                </div>
-              </div>
-              <div className="flex flex-wrap items-center gap-3 text-sm text-zinc-500 dark:text-zinc-400">
-                <div className="rounded-full bg-zinc-100 px-3 py-1 dark:bg-zinc-800">
-                  {selectedOrder.paymentMethod}
-                </div>
-                <div className="rounded-full bg-zinc-100 px-3 py-1 dark:bg-zinc-800">
-                  Delivery: {selectedOrder.deliverySlot}
-                </div>
-                <div className="rounded-full bg-zinc-100 px-3 py-1 dark:bg-zinc-800">
-                  Total: {formatINR(selectedOrder.total)}
-                </div>
-              </div>
-              <div className="rounded-2xl bg-zinc-50 p-4 text-sm text-zinc-600 dark:bg-zinc-800/60 dark:text-zinc-300">
-                <div className="font-semibold text-zinc-800 dark:text-zinc-100">
-                  Delivery address
-                </div>
-                <div>{selectedOrder.address}</div>
-                {selectedOrder.notes ? (
-                  <div className="mt-2 rounded-2xl border border-amber-300/60 bg-amber-50/70 px-3 py-2 text-amber-700 dark:border-amber-400/40 dark:bg-amber-500/10 dark:text-amber-200">
-                    Note: {selectedOrder.notes}
+                <div className="flex flex-wrap items-center gap-3 text-sm text-zinc-500 dark:text-zinc-400">
+                  <div className="rounded-full bg-zinc-100 px-3 py-1 dark:bg-zinc-800">
+                    {selectedOrder.paymentMethod}
                   </div>
-                ) : null}
-              </div>
-            </header>
-
-            <div className="flex flex-col gap-4 rounded-3xl border border-zinc-200 bg-zinc-50/80 p-4 dark:border-zinc-800 dark:bg-zinc-900/60">
-              <div className="flex items-center justify-between">
-                <div className="text-sm font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
-                  Call Console
+                  <div className="rounded-full bg-zinc-100 px-3 py-1 dark:bg-zinc-800">
+                    Delivery: {selectedOrder.deliverySlot}
+                  </div>
+                  <div className="rounded-full bg-zinc-100 px-3 py-1 dark:bg-zinc-800">
+                    Total: {formatINR(selectedOrder.total)}
+                  </div>
+                  <select
+                    value={
+                      (callInFlight && callLocale) ||
+                      (selectedOrder.language ?? DEFAULT_LOCALE)
+                    }
+                    disabled={callInFlight}
+                    onChange={(event) => {
+                      const language = event.target.value;
+                      if (isSupportedLocale(language)) {
+                        saveLanguage(selectedOrder, language);
+                      }
+                    }}
+                    aria-label="Call language"
+                    className="rounded-full border border-zinc-300 bg-white px-3 py-1 text-sm text-zinc-600 focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300"
+                  >
+                    {SUPPORTED_LOCALES.map((locale) => (
+                      <option key={locale} value={locale}>
+                        {LOCALE_LABELS[locale]}
+                      </option>
+                    ))}
+                  </select>
                 </div>
-                <div className="flex items-center gap-2 text-xs font-medium text-zinc-500 dark:text-zinc-400">
-                  <span className="inline-flex h-2.5 w-2.5 items-center justify-center">
-                    <span
-                      className={`inline-flex h-2.5 w-2.5 rounded-full ${
-                        callState === "dialing"
-                          ? "bg-amber-400"
-                          : callState === "speaking"
-                          ? "bg-emerald-400"
-                          : callState === "awaiting_response"
-                          ? "bg-blue-400"
-                          : callState === "resolved"
-                          ? "bg-zinc-400"
-                          : "bg-zinc-300"
+                <div className="rounded-2xl bg-zinc-50 p-4 text-sm text-zinc-600 dark:bg-zinc-800/60 dark:text-zinc-300">
+                  <div className="font-semibold text-zinc-800 dark:text-zinc-100">
+                    Delivery address
+                  </div>
+                  <div>{selectedOrder.address}</div>
+                  {selectedPincode ? (
+                    <div
+                      className={`mt-1 text-xs font-medium ${
+                        selectedPincodeEntry
+                          ? "text-emerald-600 dark:text-emerald-300"
+                          : "text-amber-600 dark:text-amber-300"
                       }`}
-                    />
-                  </span>
-                  {callState === "idle" && "Idle"}
-                  {callState === "dialing" && "Dialing"}
-                  {callState === "speaking" && "Agent speaking"}
-                  {callState === "awaiting_response" && "Awaiting response"}
-                  {callState === "resolved" && "Call completed"}
-                  {callState === "muted" && "Muted"}
+                    >
+                      {selectedPincodeEntry
+                        ? `Pincode ${selectedPincode} · ${selectedPincodeEntry.area}, ${selectedPincodeEntry.city}`
+                        : `Pincode ${selectedPincode} is not in the pincode directory`}
+                    </div>
+                  ) : (
+                    <div className="mt-1 text-xs font-medium text-amber-600 dark:text-amber-300">
+                      No pincode in this address
+                    </div>
+                  )}
+                  {selectedOrder.addressHistory?.length ? (
+                    <div className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+                      Corrected on{" "}
+                      {formatDateTime(
+                        selectedOrder.addressHistory.at(-1)!.changedAt
+                      )}
+                      ; previously{" "}
+                      {selectedOrder.addressHistory.at(-1)!.previous}
+                    </div>
+                  ) : null}
+                  {selectedOrder.notes ? (
+                    <div className="mt-2 rounded-2xl border border-amber-300/60 bg-amber-50/70 px-3 py-2 text-amber-700 dark:border-amber-400/40 dark:bg-amber-500/10 dark:text-amber-200">
+                      Note: {selectedOrder.notes}
+                    </div>
+                  ) : null}
                 </div>
-              </div>
+                {selectedRisk ? (
+                  <div className="rounded-2xl bg-zinc-50 p-4 text-sm text-zinc-600 dark:bg-zinc-800/60 dark:text-zinc-300">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-semibold text-zinc-800 dark:text-zinc-100">
+                        Risk score
+                      </span>
+                      <span
+                        className={`rounded-full px-3 py-1 text-xs font-medium ${
+                          RISK_LEVEL_CLASSES[selectedRisk.level]
+                        }`}
+                      >
+                        {RISK_LEVEL_LABELS[selectedRisk.level]} ·{" "}
+                        {selectedRisk.score}/100
+                      </span>
+                    </div>
+                    {selectedRisk.reasons.length ? (
+                      <ul className="mt-2 flex flex-col gap-1 text-xs">
+                        {selectedRisk.reasons.map((reason) => (
+                          <li
+                            key={reason.id}
+                            className="flex justify-between gap-2"
+                          >
+                            <span>{reason.label}</span>
+                            <span className="font-mono">
+                              {reason.points > 0 ? "+" : ""}
+                              {reason.points}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="mt-2 text-xs">No risk signals.</p>
+                    )}
+                    {selectedOrder.autoConfirmedAt ? (
+                      <p className="mt-2 text-xs text-emerald-600 dark:text-emerald-300">
+                        Confirmed without a call on{" "}
+                        {formatDateTime(selectedOrder.autoConfirmedAt)}.
+                      </p>
+                    ) : null}
+                  </div>
+                ) : null}
+              </header>
 
-              <div className="flex flex-col gap-3 overflow-y-auto rounded-2xl bg-white/60 p-4 text-sm shadow-inner dark:bg-zinc-900/80">
-                {conversation.length === 0 ? (
-                  <div className="flex flex-col items-center gap-2 py-10 text-center text-zinc-400 dark:text-zinc-500">
-                    <span className="text-sm font-medium">
-                      Call history will appear here.
-                    </span>
-                    <span className="text-xs">
-                      Launch a call to begin the scripted conversation.
+              <div className="flex flex-col gap-4 rounded-3xl border border-zinc-200 bg-zinc-50/80 p-4 dark:border-zinc-800 dark:bg-zinc-900/60">
+                <div className="flex items-center justify-between">
+                  <div className="text-sm font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+                    Call Console
+                  </div>
+                  <div className="flex items-center gap-2 text-xs font-medium text-zinc-500 dark:text-zinc-400">
+                    <span className="inline-flex h-2.5 w-2.5 items-center justify-center">
+                      <span
+                        className={`inline-flex h-2.5 w-2.5 rounded-full ${CALL_STATE_META[callState].dot}`}
+                      />
                     </span>
+                    {CALL_STATE_META[callState].label}
                   </div>
-                ) : (
-                  conversation.map((entry, index) => (
-                    <div
-                      key={`${entry.timestamp}-${index}`}
-                      className={`flex flex-col gap-1 ${
-                        entry.speaker === "agent"
-                          ? "items-start"
-                          : entry.speaker === "customer"
-                          ? "items-end"
-                          : "items-center"
-                      }`}
-                    >
+                </div>
+
+                <div className="flex flex-col gap-3 overflow-y-auto rounded-2xl bg-white/60 p-4 text-sm shadow-inner dark:bg-zinc-900/80">
+                  {conversation.length === 0 ? (
+                    <div className="flex flex-col items-center gap-2 py-10 text-center text-zinc-400 dark:text-zinc-500">
+                      <span className="text-sm font-medium">
+                        Call history will appear here.
+                      </span>
+                      <span className="text-xs">
+                        Launch a call to begin the scripted conversation.
+                      </span>
+                    </div>
+                  ) : (
+                    conversation.map((entry, index) => (
                       <div
-                        className={`max-w-[80%] rounded-2xl px-4 py-3 ${
-                          entry.speaker === "agent"
-                            ? "bg-purple-500/10 text-purple-900 dark:bg-purple-500/20 dark:text-purple-100"
+                        key={`${entry.timestamp}-${index}`}
+                        className={`flex flex-col gap-1 ${
+                          entry.speaker === "agent" ||
+                          entry.speaker === "supervisor"
+                            ? "items-start"
                             : entry.speaker === "customer"
-                            ? "bg-emerald-500/20 text-emerald-900 dark:bg-emerald-500/25 dark:text-emerald-100"
-                            : "bg-zinc-200/70 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+                            ? "items-end"
+                            : "items-center"
                         }`}
                       >
-                        {entry.message}
+                        <div
+                          className={`max-w-[80%] rounded-2xl px-4 py-3 ${
+                            entry.speaker === "agent"
+                              ? "bg-purple-500/10 text-purple-900 dark:bg-purple-500/20 dark:text-purple-100"
+                              : entry.speaker === "supervisor"
+                              ? entry.whisper
+                                ? "border border-dashed border-amber-400 bg-amber-50 text-amber-900 dark:border-amber-400/50 dark:bg-amber-500/10 dark:text-amber-100"
+                                : "bg-amber-500/20 text-amber-900 dark:bg-amber-500/25 dark:text-amber-100"
+                              : entry.speaker === "customer"
+                              ? "bg-emerald-500/20 text-emerald-900 dark:bg-emerald-500/25 dark:text-emerald-100"
+                              : "bg-zinc-200/70 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+                          }`}
+                        >
+                          {entry.message}
+                          {entry.interrupted ? (
+                            <span className="ml-1 text-xs italic opacity-70">
+                              — interrupted
+                            </span>
+                          ) : null}
+                        </div>
+                        <span className="text-[10px] uppercase tracking-wide text-zinc-400 dark:text-zinc-500">
+                          {entry.speaker === "agent" && "Agent"}
+                          {entry.speaker === "customer" && "Customer"}
+                          {entry.speaker === "system" && "System"}
+                          {entry.speaker === "supervisor" &&
+                            (entry.whisper
+                              ? "Supervisor whisper"
+                              : "Supervisor")}
+                        </span>
                       </div>
-                      <span className="text-[10px] uppercase tracking-wide text-zinc-400 dark:text-zinc-500">
-                        {entry.speaker === "agent" && "Agent"}
-                        {entry.speaker === "customer" && "Customer"}
-                        {entry.speaker === "system" && "System"}
-                      </span>
-                    </div>
-                  ))
-                )}
-              </div>
-
-              {!supported && (
-                <div className="rounded-2xl border border-amber-300/60 bg-amber-100/70 px-4 py-3 text-xs font-medium text-amber-800 dark:border-amber-500/30 dark:bg-amber-500/20 dark:text-amber-100">
-                  Browser speech synthesis is unavailable. The agent voice will
-                  stay silent—follow the scripted prompts to advance the call.
+                    ))
+                  )}
                 </div>
-              )}
 
-              <div className="flex flex-wrap items-center gap-3 text-sm text-zinc-500 dark:text-zinc-400">
-                <button
-                  type="button"
-                  onClick={callInFlight ? toggleMute : startCall}
-                  className="inline-flex items-center gap-2 rounded-full bg-gradient-to-r from-purple-600 to-indigo-600 px-5 py-2 text-sm font-semibold text-white shadow-lg shadow-purple-500/30 transition hover:from-purple-500 hover:to-indigo-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400"
-                >
-                  {callInFlight ? (agentMuted ? "Unmute Agent" : "Mute Agent") : "Start Confirmation Call"}
-                </button>
-                {callInFlight ? (
+                {!voice.supported ? (
+                  <div className="rounded-2xl border border-amber-300/60 bg-amber-100/70 px-4 py-3 text-xs font-medium text-amber-800 dark:border-amber-500/30 dark:bg-amber-500/20 dark:text-amber-100">
+                    This agent voice is unavailable in this browser. The agent
+                    will stay silent—pick another voice or follow the scripted
+                    prompts to advance the call.
+                  </div>
+                ) : voiceError ? (
+                  <div className="rounded-2xl border border-amber-300/60 bg-amber-100/70 px-4 py-3 text-xs font-medium text-amber-800 dark:border-amber-500/30 dark:bg-amber-500/20 dark:text-amber-100">
+                    {voiceError}. The agent carries on without audio; pick
+                    another voice for the next call.
+                  </div>
+                ) : null}
+
+                <div className="flex flex-wrap items-center gap-3 text-sm text-zinc-500 dark:text-zinc-400">
                   <button
                     type="button"
-                    onClick={resetCall}
-                    className="inline-flex items-center gap-2 rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-600 transition hover:border-zinc-400 hover:text-zinc-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 dark:border-zinc-700 dark:text-zinc-400 dark:hover:border-zinc-500 dark:hover:text-zinc-200"
+                    onClick={callInFlight ? toggleMute : startCall}
+                    disabled={callInFlight && !isInConversation(callState)}
+                    className="inline-flex items-center gap-2 rounded-full bg-gradient-to-r from-purple-600 to-indigo-600 px-5 py-2 text-sm font-semibold text-white shadow-lg shadow-purple-500/30 transition hover:from-purple-500 hover:to-indigo-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 disabled:opacity-50"
                   >
-                    End Call
+                    {callInFlight
+                      ? callState === "muted"
+                        ? "Unmute Agent"
+                        : "Mute Agent"
+                      : "Start Confirmation Call"}
                   </button>
-                ) : (
+                  {callInFlight ? (
+                    <button
+                      type="button"
+                      onClick={resetCall}
+                      className="inline-flex items-center gap-2 rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-600 transition hover:border-zinc-400 hover:text-zinc-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 dark:border-zinc-700 dark:text-zinc-400 dark:hover:border-zinc-500 dark:hover:text-zinc-200"
+                    >
+                      End Call
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={startCall}
+                      className="inline-flex items-center gap-2 rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-600 transition hover:border-zinc-400 hover:text-zinc-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 dark:border-zinc-700 dark:text-zinc-400 dark:hover:border-zinc-500 dark:hover:text-zinc-200"
+                    >
+                      Replay Script
+                    </button>
+                  )}
                   <button
                     type="button"
-                    onClick={startCall}
-                    className="inline-flex items-center gap-2 rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-600 transition hover:border-zinc-400 hover:text-zinc-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 dark:border-zinc-700 dark:text-zinc-400 dark:hover:border-zinc-500 dark:hover:text-zinc-200"
+                    onClick={() => controller?.escalate()}
+                    disabled={!callInFlight || callControl === "supervisor"}
+                    className="inline-flex items-center gap-2 rounded-full border border-transparent bg-white px-4 py-2 text-sm font-medium text-red-500 transition hover:border-red-200 hover:bg-red-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-red-400 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-transparent dark:text-red-300 dark:hover:bg-red-500/10"
                   >
-                    Replay Script
+                    Escalate to Support
                   </button>
-                )}
-                <button
-                  type="button"
-                  onClick={escalateToSupport}
-                  className="inline-flex items-center gap-2 rounded-full border border-transparent bg-white px-4 py-2 text-sm font-medium text-red-500 transition hover:border-red-200 hover:bg-red-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-red-400 dark:bg-transparent dark:text-red-300 dark:hover:bg-red-500/10"
-                >
-                  Escalate to Support
-                </button>
+                  {ttsEngine ? null : (
+                    <select
+                      value={ttsEngineId}
+                      disabled={callInFlight}
+                      onChange={(event) => {
+                        setTtsEngineId(
+                          event.target.value as ConsoleTtsEngineId
+                        );
+                        setVoiceError(null);
+                      }}
+                      aria-label="Agent voice"
+                      className="rounded-full border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-600 focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300"
+                    >
+                      {CONSOLE_TTS_ENGINE_IDS.map((id) => (
+                        <option key={id} value={id}>
+                          {TTS_ENGINE_LABELS[id]}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {isSimulatedProvider(telephony) ? (
+                    <>
+                      <select
+                        value={simulatedPickup}
+                        disabled={callInFlight}
+                        onChange={(event) => {
+                          const pickup = event.target.value as SimulatedPickup;
+                          telephony.simulation.setPickup(pickup);
+                          setSimulatedPickup(pickup);
+                        }}
+                        aria-label="Simulated customer line"
+                        className="rounded-full border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-600 focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300"
+                      >
+                        {Object.entries(SIMULATED_PICKUP_LABELS).map(
+                          ([pickup, label]) => (
+                            <option key={pickup} value={pickup}>
+                              {label}
+                            </option>
+                          )
+                        )}
+                      </select>
+                      {callInFlight ? (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            const callId = callIdRef.current;
+                            if (callId) {
+                              telephony.simulation.customerHangup(callId);
+                            }
+                          }}
+                          className="inline-flex items-center gap-2 rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-600 transition hover:border-zinc-400 hover:text-zinc-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 dark:border-zinc-700 dark:text-zinc-400 dark:hover:border-zinc-500 dark:hover:text-zinc-200"
+                        >
+                          Customer hangs up
+                        </button>
+                      ) : null}
+                    </>
+                  ) : null}
+                </div>
               </div>
-            </div>
 
-            {callState === "awaiting_response" && (
-              <div className="rounded-3xl border border-purple-200/60 bg-purple-500/10 p-5 text-sm text-purple-900 dark:border-purple-400/40 dark:bg-purple-500/10 dark:text-purple-100">
-                <div className="mb-3 text-sm font-semibold uppercase tracking-wide text-purple-700 dark:text-purple-200">
-                  Customer response
+              {callControl === "supervisor" && callInFlight ? (
+                <div className="rounded-3xl border border-amber-300/60 bg-amber-100/70 px-5 py-4 text-sm font-medium text-amber-800 dark:border-amber-500/30 dark:bg-amber-500/20 dark:text-amber-100">
+                  A supervisor is on the line. The script is paused and customer
+                  replies are only recorded until the call is handed back.
                 </div>
-                <div className="flex flex-wrap gap-3">
-                  <button
-                    type="button"
-                    onClick={() => handleCustomerResponse("confirm")}
-                    className="rounded-full bg-white px-4 py-2 font-medium text-purple-700 shadow-sm transition hover:bg-purple-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:bg-purple-500/20 dark:hover:bg-purple-500/30 dark:text-purple-100"
-                  >
-                    Customer confirms order
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => handleCustomerResponse("reschedule")}
-                    className="rounded-full bg-white px-4 py-2 font-medium text-purple-700 shadow-sm transition hover:bg-purple-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:bg-purple-500/20 dark:hover:bg-purple-500/30 dark:text-purple-100"
-                  >
-                    Customer needs new slot
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => handleCustomerResponse("cancel")}
-                    className="rounded-full bg-white px-4 py-2 font-medium text-purple-700 shadow-sm transition hover:bg-purple-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:bg-purple-500/20 dark:hover:bg-purple-500/30 dark:text-purple-100"
-                  >
-                    Customer cancels
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => handleCustomerResponse("query")}
-                    className="rounded-full bg-white px-4 py-2 font-medium text-purple-700 shadow-sm transition hover:bg-purple-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:bg-purple-500/20 dark:hover:bg-purple-500/30 dark:text-purple-100"
+              ) : null}
+
+              {acceptingInput && (
+                <div className="rounded-3xl border border-purple-200/60 bg-purple-500/10 p-5 text-sm text-purple-900 dark:border-purple-400/40 dark:bg-purple-500/10 dark:text-purple-100">
+                  <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                    <div className="text-sm font-semibold uppercase tracking-wide text-purple-700 dark:text-purple-200">
+                      Customer response
+                    </div>
+                    {voiceInput.listening ? (
+                      <span className="inline-flex items-center gap-2 text-xs font-medium text-purple-700 dark:text-purple-200">
+                        <span className="inline-flex h-2 w-2 animate-pulse rounded-full bg-rose-500" />
+                        Listening for the customer&apos;s reply
+                      </span>
+                    ) : voiceInput.error ? (
+                      <span className="text-xs font-medium text-purple-700/80 dark:text-purple-200/80">
+                        Microphone unavailable, use the buttons below.
+                      </span>
+                    ) : null}
+                  </div>
+                  <div className="flex flex-wrap gap-3">
+                    <button
+                      type="button"
+                      onClick={() => handleCustomerResponse("confirm")}
+                      className="rounded-full bg-white px-4 py-2 font-medium text-purple-700 shadow-sm transition hover:bg-purple-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:bg-purple-500/20 dark:hover:bg-purple-500/30 dark:text-purple-100"
+                    >
+                      Customer confirms order
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleCustomerResponse("reschedule")}
+                      className="rounded-full bg-white px-4 py-2 font-medium text-purple-700 shadow-sm transition hover:bg-purple-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:bg-purple-500/20 dark:hover:bg-purple-500/30 dark:text-purple-100"
+                    >
+                      Customer needs new slot
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleCustomerResponse("cancel")}
+                      className="rounded-full bg-white px-4 py-2 font-medium text-purple-700 shadow-sm transition hover:bg-purple-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:bg-purple-500/20 dark:hover:bg-purple-500/30 dark:text-purple-100"
+                    >
+                      Customer cancels
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleCustomerResponse("query")}
+                      className="rounded-full bg-white px-4 py-2 font-medium text-purple-700 shadow-sm transition hover:bg-purple-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:bg-purple-500/20 dark:hover:bg-purple-500/30 dark:text-purple-100"
+                    >
+                      Customer asks for details
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleCustomerResponse("opt_out")}
+                      className="rounded-full bg-white px-4 py-2 font-medium text-purple-700 shadow-sm transition hover:bg-purple-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:bg-purple-500/20 dark:hover:bg-purple-500/30 dark:text-purple-100"
+                    >
+                      Customer asks not to be called
+                    </button>
+                  </div>
+                  {isSimulatedProvider(telephony) ? (
+                    <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                      <span className="font-medium text-purple-700/80 dark:text-purple-200/80">
+                        Keypad
+                      </span>
+                      {Object.entries(script.dtmf).map(([digit, intent]) => (
+                        <button
+                          key={digit}
+                          type="button"
+                          onClick={() => {
+                            const callId = callIdRef.current;
+                            if (callId) {
+                              telephony.simulation.pressKey(callId, digit);
+                            }
+                          }}
+                          className="rounded-full border border-purple-300 bg-white px-3 py-1 font-medium text-purple-700 transition hover:bg-purple-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:bg-purple-500/10 dark:text-purple-100 dark:hover:bg-purple-500/20"
+                        >
+                          {digit} · {intent}
+                        </button>
+                      ))}
+                    </div>
+                  ) : null}
+                  <form
+                    className="mt-4 flex flex-wrap gap-2"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      const reply = typedReply.trim();
+                      if (!reply) return;
+                      setTypedReply("");
+                      handleUtterance(reply);
+                    }}
                   >
-                    Customer asks for details
-                  </button>
+                    <input
+                      type="text"
+                      value={typedReply}
+                      onChange={(event) => setTypedReply(event.target.value)}
+                      placeholder="Type what the customer said…"
+                      className="min-w-0 flex-1 rounded-full border border-purple-200 bg-white px-4 py-2 text-sm text-zinc-800 placeholder:text-zinc-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:border-purple-400/40 dark:bg-zinc-900/60 dark:text-zinc-100"
+                    />
+                    <button
+                      type="submit"
+                      className="rounded-full bg-purple-600 px-4 py-2 text-sm font-medium text-white transition hover:bg-purple-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400"
+                    >
+                      Send reply
+                    </button>
+                  </form>
+                  {lastClassification ? (
+                    <div className="mt-2 text-xs text-purple-700/80 dark:text-purple-200/80">
+                      Last reply read as{" "}
+                      <strong>{lastClassification.candidate}</strong> (
+                      {Math.round(lastClassification.confidence * 100)}%{" "}
+                      {lastClassification.source})
+                      {lastClassification.intent === "unknown" &&
+                        ", too unsure to act on, agent re-prompted"}
+                    </div>
+                  ) : null}
                 </div>
-              </div>
-            )}
-
-            {rescheduleSlot && callOutcome === "rescheduled" ? (
-              <div className="rounded-3xl border border-emerald-200 bg-emerald-100/70 px-5 py-4 text-sm font-medium text-emerald-800 dark:border-emerald-500/30 dark:bg-emerald-500/20 dark:text-emerald-100">
-                Delivery rescheduled to <strong>{rescheduleSlot}</strong>. SMS
-                confirmation sent to the customer.
-              </div>
-            ) : null}
+              )}
 
-            {callOutcome === "needs_support" ? (
-              <div className="rounded-3xl border border-sky-200 bg-sky-100/70 px-5 py-4 text-sm font-medium text-sky-900 dark:border-sky-500/30 dark:bg-sky-500/20 dark:text-sky-100">
-                Escalation logged. A senior specialist will follow up with the
-                customer.
-              </div>
-            ) : null}
-
-            {callState === "awaiting_response" &&
-            conversation.some(
-              (entry) =>
-                entry.speaker === "agent" && entry.awaitingResponse === true
-            ) ? (
-              <div className="rounded-3xl border border-dashed border-purple-300 bg-white/70 p-5 text-sm text-purple-900 dark:border-purple-400/40 dark:bg-purple-500/10 dark:text-purple-100">
-                <div className="flex flex-col gap-2">
-                  <div className="font-semibold">
-                    Script cue: confirm customer input
+              {rescheduleSlot && callOutcome === "rescheduled" ? (
+                <div className="rounded-3xl border border-emerald-200 bg-emerald-100/70 px-5 py-4 text-sm font-medium text-emerald-800 dark:border-emerald-500/30 dark:bg-emerald-500/20 dark:text-emerald-100">
+                  Delivery rescheduled to <strong>{rescheduleSlot}</strong>.
+                </div>
+              ) : null}
+
+              {callOutcome === "needs_support" ? (
+                <div className="rounded-3xl border border-sky-200 bg-sky-100/70 px-5 py-4 text-sm font-medium text-sky-900 dark:border-sky-500/30 dark:bg-sky-500/20 dark:text-sky-100">
+                  {ticket ? (
+                    <>
+                      Escalation ticket opened with {ticket.priority} priority.
+                      A senior specialist must call back by{" "}
+                      {formatDateTime(ticket.slaDueAt)}.{" "}
+                      <Link
+                        href="/supervisor"
+                        className="underline-offset-2 hover:underline"
+                      >
+                        Open escalation queue
+                      </Link>
+                    </>
+                  ) : ticketError ? (
+                    `Escalation ticket could not be opened: ${ticketError}`
+                  ) : (
+                    "Opening escalation ticket…"
+                  )}
+                </div>
+              ) : null}
+
+              {callState === "awaiting_response" &&
+              conversation.some(
+                (entry) =>
+                  entry.speaker === "agent" && entry.awaitingResponse === true
+              ) ? (
+                <div className="rounded-3xl border border-dashed border-purple-300 bg-white/70 p-5 text-sm text-purple-900 dark:border-purple-400/40 dark:bg-purple-500/10 dark:text-purple-100">
+                  <div className="flex flex-col gap-2">
+                    <div className="font-semibold">
+                      Script cue: confirm customer input
+                    </div>
+                    <p className="text-sm text-purple-700 dark:text-purple-200">
+                      Choose how the customer responds to continue the call
+                      flow.
+                    </p>
                   </div>
-                  <p className="text-sm text-purple-700 dark:text-purple-200">
-                    Choose how the customer responds to continue the call flow.
-                  </p>
                 </div>
-              </div>
-            ) : null}
+              ) : null}
+
+              {callOutcome === "confirmed" && (
+                <div className="rounded-3xl border border-emerald-200 bg-emerald-500/10 px-5 py-4 text-sm font-medium text-emerald-800 dark:border-emerald-500/40 dark:bg-emerald-500/10 dark:text-emerald-100">
+                  Order marked as confirmed. Logistics team notified for
+                  dispatch preparation.
+                  {amendment
+                    ? ` Amended: ${amendment.changes
+                        .map(describeChange)
+                        .join(", ")}; total ${formatINR(
+                        amendment.previousTotal
+                      )} → ${formatINR(amendment.total)}.`
+                    : ""}
+                  {correctedAddress
+                    ? ` Delivery address updated to ${correctedAddress}.`
+                    : ""}
+                </div>
+              )}
 
-            {callOutcome === "confirmed" && (
-              <div className="rounded-3xl border border-emerald-200 bg-emerald-500/10 px-5 py-4 text-sm font-medium text-emerald-800 dark:border-emerald-500/40 dark:bg-emerald-500/10 dark:text-emerald-100">
-                Order marked as confirmed. Logistics team notified for dispatch
-                preparation.
-              </div>
-            )}
+              {dialBlocked ? (
+                <div className="rounded-3xl border border-rose-200 bg-rose-500/10 px-5 py-4 text-sm font-medium text-rose-800 dark:border-rose-500/40 dark:bg-rose-500/10 dark:text-rose-100">
+                  {dialBlocked} The call was not placed.
+                </div>
+              ) : null}
+
+              {callOutcome === "opted_out" && (
+                <div className="rounded-3xl border border-rose-200 bg-rose-500/10 px-5 py-4 text-sm font-medium text-rose-800 dark:border-rose-500/40 dark:bg-rose-500/10 dark:text-rose-100">
+                  The customer asked not to be called again.{" "}
+                  {complianceError
+                    ? `Opt-out not saved: ${complianceError}. Add the number on the compliance page.`
+                    : optOut
+                    ? "Their number is on the do-not-call list."
+                    : "Adding their number to the do-not-call list…"}
+                </div>
+              )}
 
-            {callOutcome === "cancelled" && (
-              <div className="rounded-3xl border border-rose-200 bg-rose-500/10 px-5 py-4 text-sm font-medium text-rose-800 dark:border-rose-500/40 dark:bg-rose-500/10 dark:text-rose-100">
-                Order cancelled per customer request. Refund will be initiated
-                automatically if applicable.
-              </div>
-            )}
+              {callOutcome === "cancelled" && (
+                <div className="rounded-3xl border border-rose-200 bg-rose-500/10 px-5 py-4 text-sm font-medium text-rose-800 dark:border-rose-500/40 dark:bg-rose-500/10 dark:text-rose-100">
+                  Order cancelled per customer request
+                  {selectedOrder.cancellationReason
+                    ? ` (${CANCELLATION_REASON_LABELS[
+                        selectedOrder.cancellationReason
+                      ].toLowerCase()})`
+                    : ""}
+                  .{" "}
+                  {refundError
+                    ? `Refund not started: ${refundError}.`
+                    : !refundResult
+                    ? "Starting refund…"
+                    : refundResult.refund
+                    ? `Refund of ${formatINR(
+                        refundResult.refund.amount
+                      )} initiated to ${
+                        REFUND_METHOD_LABELS[refundResult.refund.method]
+                      }, expected by ${formatDateTime(
+                        refundResult.refund.expectedBy
+                      )}.`
+                    : "Cash on delivery order, so there is nothing to refund."}
+                </div>
+              )}
+
+              {activeNode?.expects === "reason" && (
+                <div className="rounded-3xl border border-rose-200 bg-white/80 p-5 text-sm text-rose-900 dark:border-rose-400/30 dark:bg-rose-500/10 dark:text-rose-100">
+                  <div className="mb-3 font-semibold">
+                    Why does the customer want to cancel?
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {CANCELLATION_REASONS.map((reason) => (
+                      <button
+                        key={reason}
+                        type="button"
+                        onClick={() => respond({ kind: "reason", reason })}
+                        className="rounded-full border border-rose-300 bg-white px-4 py-2 text-sm font-medium text-rose-700 transition hover:bg-rose-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-rose-400 dark:bg-rose-500/10 dark:text-rose-100 dark:hover:bg-rose-500/20"
+                      >
+                        {CANCELLATION_REASON_LABELS[reason]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {activeNode?.expects === "address" && (
+                <div className="rounded-3xl border border-purple-200 bg-white/80 p-5 text-sm text-purple-900 dark:border-purple-400/30 dark:bg-purple-500/10 dark:text-purple-100">
+                  <div className="mb-1 font-semibold">
+                    Confirm the delivery address
+                  </div>
+                  <p className="mb-3 text-purple-700 dark:text-purple-200">
+                    {correctedAddress ?? selectedOrder.address}
+                  </p>
+                  <form
+                    className="flex flex-wrap gap-2"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      const value = addressValue.trim();
+                      if (!value) return;
+                      respond({
+                        kind: "address",
+                        correction: { field: addressField, value },
+                      });
+                      setAddressValue("");
+                    }}
+                  >
+                    <select
+                      value={addressField}
+                      onChange={(event) =>
+                        setAddressField(event.target.value as AddressField)
+                      }
+                      className="rounded-full border border-purple-300 bg-white px-3 py-2 text-sm text-purple-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:bg-purple-500/10 dark:text-purple-100"
+                    >
+                      {ADDRESS_FIELDS.map((field) => (
+                        <option key={field} value={field}>
+                          {ADDRESS_FIELD_LABELS[field]}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      value={addressValue}
+                      onChange={(event) => setAddressValue(event.target.value)}
+                      placeholder={
+                        addressField === "pincode"
+                          ? "6-digit pincode"
+                          : "New value"
+                      }
+                      className="min-w-0 flex-1 rounded-full border border-purple-300 bg-white px-4 py-2 text-sm text-zinc-800 placeholder:text-zinc-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:bg-zinc-900 dark:text-zinc-100"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!addressValue.trim()}
+                      className="rounded-full border border-purple-300 bg-white px-4 py-2 text-sm font-medium text-purple-700 transition hover:bg-purple-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 disabled:opacity-50 dark:bg-purple-500/10 dark:text-purple-100 dark:hover:bg-purple-500/20"
+                    >
+                      Correct
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleCustomerResponse("confirm")}
+                      className="rounded-full border border-emerald-300 bg-white px-4 py-2 text-sm font-medium text-emerald-700 transition hover:bg-emerald-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-emerald-400 dark:bg-emerald-500/10 dark:text-emerald-100 dark:hover:bg-emerald-500/20"
+                    >
+                      Address is correct
+                    </button>
+                  </form>
+                  {addressField === "pincode" &&
+                  /^\d{6}$/.test(addressValue.trim()) &&
+                  !lookupPincode(addressValue.trim()) ? (
+                    <p className="mt-2 text-xs font-medium text-amber-600 dark:text-amber-300">
+                      This pincode is not in the pincode directory.
+                    </p>
+                  ) : null}
+                </div>
+              )}
 
-            {callOutcome === "rescheduled" && !rescheduleSlot && (
-              <div className="rounded-3xl border border-purple-200 bg-white/80 p-5 text-sm text-purple-900 dark:border-purple-400/30 dark:bg-purple-500/10 dark:text-purple-100">
-                <div className="mb-3 font-semibold">
-                  Pick a delivery slot to complete reschedule
+              {activeNode?.expects === "amendment" && (
+                <div className="rounded-3xl border border-purple-200 bg-white/80 p-5 text-sm text-purple-900 dark:border-purple-400/30 dark:bg-purple-500/10 dark:text-purple-100">
+                  <div className="mb-3 font-semibold">
+                    Which items does the customer want to change?
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    {selectedOrder.items.map((item) => {
+                      const quantity =
+                        amendment?.changes.find(
+                          (change) => change.name === item.name
+                        )?.to ?? item.quantity;
+                      return (
+                        <div
+                          key={item.name}
+                          className="flex flex-wrap items-center justify-between gap-2"
+                        >
+                          <span>
+                            {item.name} × {quantity}
+                          </span>
+                          <div className="flex gap-2">
+                            <button
+                              type="button"
+                              disabled={quantity <= 1}
+                              onClick={() =>
+                                respond({
+                                  kind: "amendment",
+                                  quantities: { [item.name]: quantity - 1 },
+                                })
+                              }
+                              className="rounded-full border border-purple-300 bg-white px-3 py-1 text-sm font-medium text-purple-700 transition hover:bg-purple-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 disabled:opacity-50 dark:bg-purple-500/10 dark:text-purple-100 dark:hover:bg-purple-500/20"
+                            >
+                              One less
+                            </button>
+                            <button
+                              type="button"
+                              disabled={quantity === 0}
+                              onClick={() =>
+                                respond({
+                                  kind: "amendment",
+                                  quantities: { [item.name]: 0 },
+                                })
+                              }
+                              className="rounded-full border border-rose-300 bg-white px-3 py-1 text-sm font-medium text-rose-700 transition hover:bg-rose-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-rose-400 disabled:opacity-50 dark:bg-rose-500/10 dark:text-rose-100 dark:hover:bg-rose-500/20"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
                 </div>
-                <div className="flex flex-wrap gap-2">
-                  {RESCHEDULE_OPTIONS.map((slot) => (
+              )}
+
+              {activeNode?.expects === "slot" && !rescheduleSlot && (
+                <div className="rounded-3xl border border-purple-200 bg-white/80 p-5 text-sm text-purple-900 dark:border-purple-400/30 dark:bg-purple-500/10 dark:text-purple-100">
+                  <div className="mb-3 font-semibold">
+                    Pick a delivery slot to complete reschedule
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {offeredSlots.map((slot) => (
+                      <button
+                        key={slot.id}
+                        type="button"
+                        disabled={reservingSlotId !== null}
+                        onClick={() =>
+                          respond({ kind: "slot", slot: slot.label })
+                        }
+                        className="rounded-full border border-purple-300 bg-white px-4 py-2 text-sm font-medium text-purple-700 transition hover:bg-purple-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 disabled:opacity-50 dark:bg-purple-500/10 dark:text-purple-100 dark:hover:bg-purple-500/20"
+                      >
+                        {slot.label}
+                        <span className="ml-2 text-xs font-normal text-purple-500 dark:text-purple-300">
+                          {reservingSlotId === slot.id
+                            ? "Reserving…"
+                            : `${slot.remaining} left`}
+                        </span>
+                      </button>
+                    ))}
                     <button
-                      key={slot}
                       type="button"
-                      onClick={() => handleRescheduleSelection(slot)}
-                      className="rounded-full border border-purple-300 bg-white px-4 py-2 text-sm font-medium text-purple-700 transition hover:bg-purple-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:bg-purple-500/10 dark:text-purple-100 dark:hover:bg-purple-500/20"
+                      disabled={reservingSlotId !== null}
+                      onClick={() => respond({ kind: "slot_declined" })}
+                      className="rounded-full border border-zinc-300 px-4 py-2 text-sm font-medium text-zinc-600 transition hover:bg-zinc-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
                     >
-                      {slot}
+                      None of these work
                     </button>
-                  ))}
+                  </div>
                 </div>
-              </div>
-            )}
-
-            {callOutcome && callState === "resolved" && (
-              <div className="rounded-3xl border border-zinc-200 bg-white/70 px-5 py-4 text-sm text-zinc-700 shadow-sm dark:border-zinc-700 dark:bg-zinc-900/50 dark:text-zinc-300">
-                <div className="flex flex-col gap-1">
-                  <span className="text-xs font-semibold uppercase tracking-wide text-zinc-400 dark:text-zinc-500">
-                    Call summary
-                  </span>
-                  <span>
-                    Outcome:{" "}
-                    <strong className="text-zinc-900 dark:text-zinc-100">
-                      {callOutcome === "confirmed" && "Order confirmed"}
-                      {callOutcome === "rescheduled" && "Delivery rescheduled"}
-                      {callOutcome === "cancelled" && "Order cancelled"}
-                      {callOutcome === "needs_support" &&
-                        "Escalated to support"}
-                    </strong>
-                  </span>
-                  <span>
-                    Transcript saved to CRM with {conversation.length} scripted
-                    exchanges.
-                  </span>
+              )}
+
+              {callOutcome && isUnreachableOutcome(callOutcome) ? (
+                <div className="rounded-3xl border border-sky-200 bg-sky-100/70 px-5 py-4 text-sm font-medium text-sky-900 dark:border-sky-500/30 dark:bg-sky-500/20 dark:text-sky-100">
+                  Customer not reached.{" "}
+                  {selectedOrder.retryAfter
+                    ? `Attempt ${selectedOrder.callAttempts ?? 1} of ${
+                        DEFAULT_RETRY_POLICY.maxAttempts
+                      }, next attempt after ${formatDateTime(
+                        selectedOrder.retryAfter
+                      )}.`
+                    : selectedOrder.status === "cancelled"
+                    ? "No attempts left, so the cash on delivery order was cancelled."
+                    : "No attempts left, so the order was moved to follow-up."}
                 </div>
-              </div>
-            )}
-          </div>
-        ) : (
-          <div className="flex h-full flex-col items-center justify-center gap-4 text-center">
-            <h2 className="text-xl font-semibold text-zinc-800 dark:text-zinc-100">
-              Select an order to begin
-            </h2>
-            <p className="max-w-sm text-sm text-zinc-500 dark:text-zinc-400">
-              Choose a customer from the list to launch the automated order
-              confirmation workflow.
-            </p>
-          </div>
-        )}
-      </section>
+              ) : null}
+
+              {callOutcome === "callback_requested" &&
+              selectedOrder.retryAfter ? (
+                <div className="rounded-3xl border border-sky-200 bg-sky-100/70 px-5 py-4 text-sm font-medium text-sky-900 dark:border-sky-500/30 dark:bg-sky-500/20 dark:text-sky-100">
+                  The customer asked to be called back on{" "}
+                  {formatCallbackTime(selectedOrder.retryAfter, "en-IN")}.
+                </div>
+              ) : null}
+
+              {callOutcome && !callInFlight && (
+                <div className="rounded-3xl border border-zinc-200 bg-white/70 px-5 py-4 text-sm text-zinc-700 shadow-sm dark:border-zinc-700 dark:bg-zinc-900/50 dark:text-zinc-300">
+                  <div className="flex flex-col gap-1">
+                    <span className="text-xs font-semibold uppercase tracking-wide text-zinc-400 dark:text-zinc-500">
+                      Call summary
+                    </span>
+                    <span>
+                      Outcome:{" "}
+                      <strong className="text-zinc-900 dark:text-zinc-100">
+                        {CALL_OUTCOME_LABELS[callOutcome]}
+                      </strong>
+                    </span>
+                    <span>
+                      {savedCall ? (
+                        <>
+                          Transcript saved with {savedCall.conversation.length}{" "}
+                          entries.{" "}
+                          <Link
+                            href={`/calls?orderId=${encodeURIComponent(
+                              savedCall.orderId
+                            )}`}
+                            className="font-medium text-purple-700 underline-offset-2 hover:underline dark:text-purple-200"
+                          >
+                            View call history
+                          </Link>
+                        </>
+                      ) : transcriptError ? (
+                        `Transcript could not be saved: ${transcriptError}`
+                      ) : (
+                        "Saving transcript…"
+                      )}
+                    </span>
+                    {complianceError && callOutcome !== "opted_out" ? (
+                      <span>
+                        Compliance record not saved: {complianceError}
+                      </span>
+                    ) : null}
+                    <span>
+                      {smsError ? (
+                        `SMS not sent: ${smsError}`
+                      ) : smsMessage?.status === "sent" ? (
+                        `SMS sent to ${smsMessage.to}.`
+                      ) : smsMessage?.status === "failed" ? (
+                        <>
+                          SMS failed after {smsMessage.attempts.length}{" "}
+                          attempts.{" "}
+                          <button
+                            type="button"
+                            onClick={retrySmsDelivery}
+                            className="font-medium text-purple-700 underline-offset-2 hover:underline dark:text-purple-200"
+                          >
+                            Retry
+                          </button>
+                        </>
+                      ) : (
+                        "Sending SMS…"
+                      )}
+                    </span>
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="flex h-full flex-col items-center justify-center gap-4 text-center">
+              <h2 className="text-xl font-semibold text-zinc-800 dark:text-zinc-100">
+                Select an order to begin
+              </h2>
+              <p className="max-w-sm text-sm text-zinc-500 dark:text-zinc-400">
+                Choose a customer from the list to launch the automated order
+                confirmation workflow.
+              </p>
+            </div>
+          )}
+        </section>
+      </div>
     </div>
   );
 };
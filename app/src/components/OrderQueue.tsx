@@ -0,0 +1,329 @@
+"use client";
+
+import { usePathname, useSearchParams } from "next/navigation";
+import { useCallback, useMemo } from "react";
+import { formatINR } from "@/agent/format";
+import {
+  DEFAULT_QUEUE_FILTERS,
+  ORDER_PAGE_SIZE,
+  ORDER_SORT_LABELS,
+  ORDER_SORTS,
+  OrderQueueFilters,
+  OrderSort,
+  pageCount,
+  parseQueueFilters,
+  queryOrders,
+  serializeQueueFilters,
+} from "@/agent/orderQueue";
+import { RISK_LEVEL_LABELS, RiskAssessment, RiskLevel } from "@/agent/risk";
+import {
+  ORDER_STATUS_LABELS,
+  ORDER_STATUSES,
+  OrderRecord,
+} from "@/agent/types";
+
+const ORDER_STATUS_CLASSES: Record<OrderRecord["status"], string> = {
+  pending:
+    "bg-amber-50 text-amber-700 border border-amber-200 dark:bg-amber-500/20 dark:text-amber-200",
+  confirmed:
+    "bg-emerald-50 text-emerald-700 border border-emerald-200 dark:bg-emerald-500/20 dark:text-emerald-100",
+  requires_followup:
+    "bg-sky-50 text-sky-700 border border-sky-200 dark:bg-sky-500/20 dark:text-sky-100",
+  cancelled:
+    "bg-rose-50 text-rose-700 border border-rose-200 dark:bg-rose-500/20 dark:text-rose-100",
+};
+
+export const RISK_LEVEL_CLASSES: Record<RiskLevel, string> = {
+  low: "bg-emerald-50 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-100",
+  medium: "bg-amber-50 text-amber-700 dark:bg-amber-500/20 dark:text-amber-200",
+  high: "bg-rose-50 text-rose-700 dark:bg-rose-500/20 dark:text-rose-100",
+};
+
+const inputClasses =
+  "w-full rounded-full border border-zinc-200 bg-white px-3 py-1.5 text-sm text-zinc-800 placeholder:text-zinc-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100";
+
+const pagerClasses =
+  "rounded-full border border-zinc-300 px-3 py-1 transition hover:border-purple-400 hover:text-purple-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 disabled:opacity-40 dark:border-zinc-700 dark:hover:text-purple-200";
+
+const toTotal = (value: string) =>
+  value === "" ? null : Math.max(0, Number(value));
+
+type OrderQueueProps = {
+  orders: OrderRecord[];
+  riskAssessments: Map<string, RiskAssessment>;
+  selectedOrderId: string | null;
+  disabled: boolean;
+  syncError: string | null;
+  onSelect: (orderId: string) => void;
+};
+
+/**
+ * The Active Orders sidebar. Search, filters, sort and page live in the URL
+ * so a filtered view can be shared or survives a reload; only one page of
+ * cards is rendered however many orders match.
+ */
+export const OrderQueue = ({
+  orders,
+  riskAssessments,
+  selectedOrderId,
+  disabled,
+  syncError,
+  onSelect,
+}: OrderQueueProps) => {
+  const searchParams = useSearchParams();
+  const pathname = usePathname();
+  const filters = useMemo(
+    () => parseQueueFilters(searchParams),
+    [searchParams]
+  );
+
+  /** Any filter change goes back to the first page; paging itself does not. */
+  const update = useCallback(
+    (patch: Partial<OrderQueueFilters>, resetPage = true) => {
+      const query = serializeQueueFilters({
+        ...filters,
+        ...(resetPage ? { page: DEFAULT_QUEUE_FILTERS.page } : {}),
+        ...patch,
+      }).toString();
+      window.history.replaceState(
+        null,
+        "",
+        query ? `${pathname}?${query}` : pathname
+      );
+    },
+    [filters, pathname]
+  );
+
+  const paymentMethods = useMemo(
+    () => [...new Set(orders.map((order) => order.paymentMethod))],
+    [orders]
+  );
+  const matching = useMemo(
+    () => queryOrders(orders, filters, riskAssessments),
+    [orders, filters, riskAssessments]
+  );
+  const pages = pageCount(matching.length);
+  const page = Math.min(filters.page, pages - 1);
+  const visible = matching.slice(
+    page * ORDER_PAGE_SIZE,
+    (page + 1) * ORDER_PAGE_SIZE
+  );
+
+  return (
+    <aside className="rounded-3xl border border-zinc-200 bg-white/80 p-5 shadow-sm backdrop-blur-lg dark:border-zinc-800 dark:bg-zinc-900/60">
+      <div className="flex flex-col gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+            Active Orders
+          </h2>
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Pick an order and launch the automated confirmation call.
+          </p>
+        </div>
+        {syncError ? (
+          <div className="rounded-2xl border border-amber-300/60 bg-amber-100/70 px-3 py-2 text-xs font-medium text-amber-800 dark:border-amber-500/30 dark:bg-amber-500/20 dark:text-amber-100">
+            Order service unavailable: {syncError}. Changes are kept in this tab
+            only.
+          </div>
+        ) : null}
+        <div className="flex flex-col gap-2 text-sm">
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(event) => update({ query: event.target.value })}
+            placeholder="Search order id, customer or phone"
+            className={inputClasses}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={filters.status}
+              onChange={(event) =>
+                update({
+                  status: event.target.value as OrderQueueFilters["status"],
+                })
+              }
+              className={inputClasses}
+            >
+              <option value="all">All statuses</option>
+              {ORDER_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {ORDER_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.paymentMethod}
+              onChange={(event) =>
+                update({ paymentMethod: event.target.value })
+              }
+              className={inputClasses}
+            >
+              <option value="all">All payments</option>
+              {paymentMethods.map((method) => (
+                <option key={method} value={method}>
+                  {method}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              value={filters.minTotal ?? ""}
+              onChange={(event) =>
+                update({ minTotal: toTotal(event.target.value) })
+              }
+              placeholder="Min ₹"
+              className={inputClasses}
+            />
+            <input
+              type="number"
+              min={0}
+              value={filters.maxTotal ?? ""}
+              onChange={(event) =>
+                update({ maxTotal: toTotal(event.target.value) })
+              }
+              placeholder="Max ₹"
+              className={inputClasses}
+            />
+            <select
+              value={filters.sort}
+              onChange={(event) =>
+                update({ sort: event.target.value as OrderSort })
+              }
+              className={inputClasses}
+            >
+              {ORDER_SORTS.map((sort) => (
+                <option key={sort} value={sort}>
+                  Sort by {ORDER_SORT_LABELS[sort].toLowerCase()}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() =>
+                update({
+                  direction: filters.direction === "asc" ? "desc" : "asc",
+                })
+              }
+              className={inputClasses}
+            >
+              {filters.direction === "asc" ? "Ascending ↑" : "Descending ↓"}
+            </button>
+          </div>
+          <div className="text-xs text-zinc-500 dark:text-zinc-400">
+            {matching.length} of {orders.length} orders
+          </div>
+        </div>
+        <div className="flex flex-col gap-3">
+          {visible.length === 0 ? (
+            <p className="py-6 text-center text-sm text-zinc-400 dark:text-zinc-500">
+              No orders match these filters.
+            </p>
+          ) : null}
+          {visible.map((order) => {
+            const risk = riskAssessments.get(order.id);
+            const isSelected = order.id === selectedOrderId;
+            return (
+              <button
+                key={order.id}
+                type="button"
+                className={`rounded-2xl border p-4 text-left transition-colors ${
+                  isSelected
+                    ? "border-purple-500 bg-gradient-to-r from-purple-500/10 via-purple-500/5 to-transparent dark:border-purple-400/80"
+                    : "border-zinc-200 hover:border-purple-400 hover:bg-purple-50 dark:border-zinc-800 dark:hover:bg-zinc-800"
+                }`}
+                onClick={() => {
+                  if (disabled) return;
+                  onSelect(order.id);
+                }}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="text-sm font-semibold text-zinc-900 dark:text-zinc-50">
+                    {order.customerName}
+                  </div>
+                  <span
+                    className={`rounded-full px-3 py-1 text-xs font-medium ${
+                      ORDER_STATUS_CLASSES[order.status]
+                    }`}
+                  >
+                    {ORDER_STATUS_LABELS[order.status]}
+                  </span>
+                </div>
+                <div className="mt-2 text-sm text-zinc-500 dark:text-zinc-400">
+                  <div>{order.id}</div>
+                  <div className="mt-1 font-medium text-zinc-800 dark:text-zinc-200">
+                    {formatINR(order.total)}
+                  </div>
+                </div>
+                {risk ? (
+                  <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                    <span
+                      className={`rounded-full px-2 py-1 font-medium ${
+                        RISK_LEVEL_CLASSES[risk.level]
+                      }`}
+                    >
+                      {RISK_LEVEL_LABELS[risk.level]} · {risk.score}
+                    </span>
+                    <span className="text-zinc-500 dark:text-zinc-400">
+                      {risk.reasons
+                        .filter((reason) => reason.points > 0)
+                        .slice(0, 2)
+                        .map((reason) => reason.label)
+                        .join(", ")}
+                    </span>
+                  </div>
+                ) : null}
+                <div className="mt-2">
+                  <div className="flex flex-wrap gap-2 text-xs text-zinc-500 dark:text-zinc-400">
+                    {order.items.slice(0, 3).map((item) => (
+                      <span
+                        key={`${order.id}-${item.name}`}
+                        className="rounded-full bg-zinc-100 px-2 py-1 dark:bg-zinc-800/80"
+                      >
+                        {item.quantity}× {item.name}
+                      </span>
+                    ))}
+                    {order.items.length > 3 && (
+                      <span className="rounded-full bg-zinc-100 px-2 py-1 dark:bg-zinc-800/80">
+                        +{order.items.length - 3} more
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+        {pages > 1 ? (
+          <div className="flex items-center justify-between text-xs font-medium text-zinc-500 dark:text-zinc-400">
+            <button
+              type="button"
+              disabled={page === 0}
+              onClick={() => update({ page: page - 1 }, false)}
+              className={pagerClasses}
+            >
+              Previous
+            </button>
+            <span>
+              Page {page + 1} of {pages}
+            </span>
+            <button
+              type="button"
+              disabled={page >= pages - 1}
+              onClick={() => update({ page: page + 1 }, false)}
+              className={pagerClasses}
+            >
+              Next
+            </button>
+          </div>
+        ) : null}
+      </div>
+    </aside>
+  );
+};
+
+export const OrderQueueFallback = () => (
+  <aside className="rounded-3xl border border-zinc-200 bg-white/80 p-5 text-sm text-zinc-400 shadow-sm backdrop-blur-lg dark:border-zinc-800 dark:bg-zinc-900/60 dark:text-zinc-500">
+    Loading orders…
+  </aside>
+);
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { CampaignCallResult } from "@/agent/campaign";
+import { formatDateTime } from "@/agent/format";
+import {
+  CALLING_HOURS,
+  DEFAULT_RETRY_POLICY,
+  isRetryDue,
+  isWithinCallingHours,
+  listPendingRetries,
+} from "@/agent/retry";
+import type { OrderRecord } from "@/agent/types";
+
+const RETRY_TICK_MS = 30_000;
+
+const hourLabel = (hour: number) =>
+  `${hour % 12 === 0 ? 12 : hour % 12}${hour < 12 ? "AM" : "PM"}`;
+
+type RetrySchedulePanelProps = {
+  orders: OrderRecord[];
+  disabled: boolean;
+  executeCall: (order: OrderRecord) => Promise<CampaignCallResult>;
+};
+
+export const RetrySchedulePanel = ({
+  orders,
+  disabled,
+  executeCall,
+}: RetrySchedulePanelProps) => {
+  const [autoDial, setAutoDial] = useState<boolean>(false);
+  const [now, setNow] = useState<number>(() => Date.now());
+  // Due orders whose number turned out to be on the do-not-call list.
+  const [blockedIds, setBlockedIds] = useState<string[]>([]);
+  const executeRef = useRef(executeCall);
+  const dialingRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    executeRef.current = executeCall;
+  }, [executeCall]);
+
+  useEffect(() => {
+    const intervalId = window.setInterval(
+      () => setNow(Date.now()),
+      RETRY_TICK_MS
+    );
+    return () => window.clearInterval(intervalId);
+  }, []);
+
+  const pending = listPendingRetries(orders);
+  const due = pending.filter((order) => isRetryDue(order, now));
+
+  // One retry at a time; the next is picked up once the console is free.
+  useEffect(() => {
+    if (!autoDial || disabled || dialingRef.current) return;
+    const next = orders.find(
+      (order) => isRetryDue(order, now) && !blockedIds.includes(order.id)
+    );
+    if (!next) return;
+    dialingRef.current = true;
+    void executeRef
+      .current(next)
+      .then((result) => {
+        if (result.status === "blocked") {
+          setBlockedIds((prev) => [...prev, next.id]);
+        }
+      })
+      .finally(() => {
+        dialingRef.current = false;
+        setNow(Date.now());
+      });
+  }, [autoDial, blockedIds, disabled, now, orders]);
+
+  return (
+    <section className="rounded-3xl border border-zinc-200 bg-white/80 p-5 shadow-sm backdrop-blur-lg dark:border-zinc-800 dark:bg-zinc-900/60">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+            Retry schedule
+          </h2>
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Customers we could not reach are called again with longer gaps each
+            time, only between {hourLabel(CALLING_HOURS.startHour)} and{" "}
+            {hourLabel(CALLING_HOURS.endHour)}. After{" "}
+            {DEFAULT_RETRY_POLICY.maxAttempts} attempts cash on delivery orders
+            are cancelled and prepaid ones go to the team. {pending.length}{" "}
+            waiting, {due.length} due now
+            {isWithinCallingHours(now) ? "" : " (outside calling hours)"}.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm font-medium text-zinc-600 dark:text-zinc-300">
+          <input
+            type="checkbox"
+            checked={autoDial}
+            onChange={(event) => setAutoDial(event.target.checked)}
+            className="h-4 w-4 rounded border-zinc-300 text-purple-600 focus:ring-purple-400"
+          />
+          Dial due retries automatically
+        </label>
+      </div>
+
+      {pending.length ? (
+        <div className="mt-4 grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+          {pending.map((order) => (
+            <div
+              key={order.id}
+              className="flex items-center justify-between gap-2 rounded-2xl border border-zinc-200 px-3 py-2 text-sm dark:border-zinc-800"
+            >
+              <div className="min-w-0">
+                <div className="truncate font-medium text-zinc-900 dark:text-zinc-50">
+                  {order.customerName}
+                </div>
+                <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {order.id} ·{" "}
+                  {order.lastOutcome === "callback_requested"
+                    ? "callback requested"
+                    : `attempt ${order.callAttempts ?? 0} of ${
+                        DEFAULT_RETRY_POLICY.maxAttempts
+                      }`}
+                </div>
+              </div>
+              {blockedIds.includes(order.id) ? (
+                <span className="shrink-0 rounded-full bg-rose-50 px-2.5 py-1 text-xs font-medium text-rose-700 dark:bg-rose-500/20 dark:text-rose-100">
+                  Do not call
+                </span>
+              ) : (
+                <span
+                  className={`shrink-0 rounded-full px-2.5 py-1 text-xs font-medium ${
+                    isRetryDue(order, now)
+                      ? "bg-amber-50 text-amber-700 dark:bg-amber-500/20 dark:text-amber-200"
+                      : "bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-300"
+                  }`}
+                >
+                  {isRetryDue(order, now)
+                    ? "Due now"
+                    : formatDateTime(order.retryAfter!)}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </section>
+  );
+};
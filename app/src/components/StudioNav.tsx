@@ -0,0 +1,28 @@
+import Link from "next/link";
+
+const LINKS = [
+  { href: "/", label: "Call console" },
+  { href: "/calls", label: "Call history" },
+  { href: "/supervisor", label: "Escalations" },
+  { href: "/monitor", label: "Live monitor" },
+  { href: "/dashboard", label: "Dashboard" },
+  { href: "/compliance", label: "Compliance" },
+];
+
+export const StudioNav = ({ current }: { current: string }) => (
+  <nav className="flex flex-wrap gap-2 text-sm font-medium">
+    {LINKS.map((link) => (
+      <Link
+        key={link.href}
+        href={link.href}
+        className={`rounded-full px-4 py-1.5 transition-colors ${
+          link.href === current
+            ? "bg-purple-600 text-white"
+            : "border border-zinc-200 text-zinc-600 hover:border-purple-400 hover:text-purple-700 dark:border-zinc-800 dark:text-zinc-300 dark:hover:text-purple-200"
+        }`}
+      >
+        {link.label}
+      </Link>
+    ))}
+  </nav>
+);
@@ -0,0 +1,55 @@
+export type SlotWindow = { startHour: number; endHour: number };
+
+export type PincodeCapacity = {
+  pincode: string;
+  area: string;
+  /** Deliveries the hub can take per window, in `SLOT_WINDOWS` order. */
+  capacity: number[];
+  /** Days of the week (0 = Sunday) the hub does not deliver. */
+  closedOn?: number[];
+};
+
+export const SLOT_WINDOWS: SlotWindow[] = [
+  { startHour: 9, endHour: 12 },
+  { startHour: 14, endHour: 17 },
+  { startHour: 19, endHour: 21 },
+];
+
+export const SLOT_HORIZON_DAYS = 4;
+
+/** Slots starting sooner than this cannot be offered any more. */
+export const SLOT_LEAD_TIME_MINUTES = 120;
+
+export const DEFAULT_CAPACITY: PincodeCapacity = {
+  pincode: "default",
+  area: "Standard delivery zone",
+  capacity: [2, 3, 1],
+  closedOn: [0],
+};
+
+export const PINCODE_CAPACITY: PincodeCapacity[] = [
+  {
+    pincode: "560034",
+    area: "Koramangala, Bengaluru",
+    capacity: [6, 8, 4],
+  },
+  { pincode: "560076", area: "BTM Layout, Bengaluru", capacity: [4, 6, 2] },
+  { pincode: "400053", area: "Andheri West, Mumbai", capacity: [8, 8, 6] },
+  { pincode: "400076", area: "Powai, Mumbai", capacity: [3, 4, 0] },
+  {
+    pincode: "110017",
+    area: "Malviya Nagar, Delhi",
+    capacity: [5, 5, 3],
+    closedOn: [0],
+  },
+  { pincode: "122002", area: "DLF Phase 3, Gurugram", capacity: [4, 4, 2] },
+  { pincode: "600017", area: "T. Nagar, Chennai", capacity: [5, 6, 3] },
+  { pincode: "500081", area: "Madhapur, Hyderabad", capacity: [6, 6, 4] },
+  {
+    pincode: "700091",
+    area: "Salt Lake, Kolkata",
+    capacity: [4, 5, 2],
+    closedOn: [0],
+  },
+  { pincode: "411057", area: "Hinjewadi, Pune", capacity: [2, 2, 0] },
+];
@@ -0,0 +1,43 @@
+export type PincodeEntry = { area: string; city: string; state: string };
+
+/**
+ * Pincodes the agent can validate without a network lookup. Covers every
+ * zone in `PINCODE_CAPACITY` plus the larger post offices in the cities we
+ * deliver to.
+ */
+export const PINCODE_DIRECTORY: Record<string, PincodeEntry> = {
+  "110001": { area: "Connaught Place", city: "New Delhi", state: "Delhi" },
+  "110016": { area: "Hauz Khas", city: "New Delhi", state: "Delhi" },
+  "110017": { area: "Malviya Nagar", city: "New Delhi", state: "Delhi" },
+  "122002": { area: "DLF Phase 3", city: "Gurugram", state: "Haryana" },
+  "160017": { area: "Sector 17", city: "Chandigarh", state: "Chandigarh" },
+  "201301": { area: "Sector 15", city: "Noida", state: "Uttar Pradesh" },
+  "226001": { area: "Hazratganj", city: "Lucknow", state: "Uttar Pradesh" },
+  "302001": { area: "MI Road", city: "Jaipur", state: "Rajasthan" },
+  "380009": { area: "Navrangpura", city: "Ahmedabad", state: "Gujarat" },
+  "400001": { area: "Fort", city: "Mumbai", state: "Maharashtra" },
+  "400050": { area: "Bandra West", city: "Mumbai", state: "Maharashtra" },
+  "400053": { area: "Andheri West", city: "Mumbai", state: "Maharashtra" },
+  "400076": { area: "Powai", city: "Mumbai", state: "Maharashtra" },
+  "411001": { area: "Pune Camp", city: "Pune", state: "Maharashtra" },
+  "411038": { area: "Kothrud", city: "Pune", state: "Maharashtra" },
+  "411057": { area: "Hinjewadi", city: "Pune", state: "Maharashtra" },
+  "452001": { area: "Rajwada", city: "Indore", state: "Madhya Pradesh" },
+  "500001": { area: "Abids", city: "Hyderabad", state: "Telangana" },
+  "500034": { area: "Banjara Hills", city: "Hyderabad", state: "Telangana" },
+  "500081": { area: "Madhapur", city: "Hyderabad", state: "Telangana" },
+  "560001": { area: "MG Road", city: "Bengaluru", state: "Karnataka" },
+  "560034": { area: "Koramangala", city: "Bengaluru", state: "Karnataka" },
+  "560038": { area: "Indiranagar", city: "Bengaluru", state: "Karnataka" },
+  "560066": { area: "Whitefield", city: "Bengaluru", state: "Karnataka" },
+  "560076": { area: "BTM Layout", city: "Bengaluru", state: "Karnataka" },
+  "600001": { area: "Parrys", city: "Chennai", state: "Tamil Nadu" },
+  "600017": { area: "T. Nagar", city: "Chennai", state: "Tamil Nadu" },
+  "600040": { area: "Anna Nagar", city: "Chennai", state: "Tamil Nadu" },
+  "641001": { area: "Town Hall", city: "Coimbatore", state: "Tamil Nadu" },
+  "682001": { area: "Fort Kochi", city: "Kochi", state: "Kerala" },
+  "700001": { area: "BBD Bagh", city: "Kolkata", state: "West Bengal" },
+  "700019": { area: "Ballygunge", city: "Kolkata", state: "West Bengal" },
+  "700091": { area: "Salt Lake", city: "Kolkata", state: "West Bengal" },
+  "751001": { area: "Old Town", city: "Bhubaneswar", state: "Odisha" },
+};
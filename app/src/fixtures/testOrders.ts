@@ -0,0 +1,14 @@
+import type { OrderRecord } from "@/agent/types";
+
+/** A pending cash on delivery order the call tests run against. */
+export const testOrder: OrderRecord = {
+  id: "FK-1001",
+  customerName: "Asha Rao",
+  phoneNumber: "+919800000001",
+  address: "12 MG Road, Bengaluru 560001",
+  paymentMethod: "Cash on Delivery",
+  deliverySlot: "Tuesday 20 Oct, 10AM - 1PM",
+  total: 1499,
+  items: [{ name: "Bluetooth speaker", quantity: 1 }],
+  status: "pending",
+};
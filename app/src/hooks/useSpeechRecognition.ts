@@ -0,0 +1,49 @@
+import { useEffect, useRef, useState } from "react";
+import { listenForReplies, SpeechRecognizer } from "@/agent/speech/recognizer";
+
+type Options = {
+  recognizer: SpeechRecognizer;
+  enabled: boolean;
+  /** BCP 47 language the customer is expected to answer in. */
+  lang?: string;
+  onUtterance: (utterance: string) => void;
+};
+
+export const useSpeechRecognition = ({
+  recognizer,
+  enabled,
+  lang,
+  onUtterance,
+}: Options) => {
+  const [blockedBy, setBlockedBy] = useState<string | null>(null);
+  const [lastTranscript, setLastTranscript] = useState<string>("");
+  const onUtteranceRef = useRef(onUtterance);
+
+  useEffect(() => {
+    onUtteranceRef.current = onUtterance;
+  }, [onUtterance]);
+
+  const listening = enabled && recognizer.supported && blockedBy === null;
+
+  useEffect(() => {
+    if (!listening) return;
+    return listenForReplies(
+      recognizer,
+      {
+        onUtterance: (utterance) => {
+          setLastTranscript(utterance);
+          onUtteranceRef.current(utterance);
+        },
+        onBlocked: setBlockedBy,
+      },
+      lang
+    );
+  }, [lang, listening, recognizer]);
+
+  return {
+    supported: recognizer.supported,
+    listening,
+    lastTranscript,
+    error: blockedBy,
+  };
+};
@@ -0,0 +1,8 @@
+import { buildAnalyticsReport } from "@/agent/analytics";
+import { listCalls } from "@/server/callStore";
+import { listOrders } from "@/server/orderStore";
+
+export const getAnalyticsReport = async () => {
+  const [calls, orders] = await Promise.all([listCalls(), listOrders()]);
+  return buildAnalyticsReport(calls, orders);
+};
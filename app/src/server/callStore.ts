@@ -0,0 +1,31 @@
+import { randomUUID } from "node:crypto";
+import type { CallOutcome, CallRecord } from "@/agent/types";
+import { readCollection, updateCollection } from "@/server/fileStore";
+
+const COLLECTION = "calls";
+
+export type CallFilters = {
+  orderId?: string;
+  outcome?: CallOutcome;
+};
+
+export const listCalls = async ({ orderId, outcome }: CallFilters = {}) =>
+  (await readCollection<CallRecord>(COLLECTION))
+    .filter((call) => !orderId || call.orderId === orderId)
+    .filter((call) => !outcome || call.outcome === outcome)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+export const getCall = async (id: string) =>
+  (await readCollection<CallRecord>(COLLECTION)).find(
+    (call) => call.id === id
+  ) ?? null;
+
+export const saveCall = (call: Omit<CallRecord, "id">) =>
+  updateCollection<CallRecord, CallRecord>(
+    COLLECTION,
+    () => [],
+    (items) => {
+      const record = { ...call, id: `call_${randomUUID()}` };
+      return { items: [...items, record], result: record };
+    }
+  );
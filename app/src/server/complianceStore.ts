@@ -0,0 +1,127 @@
+import { randomUUID } from "node:crypto";
+import {
+  ComplianceAuditEntry,
+  normalizePhoneNumber,
+  OptOutEntry,
+  OptOutSource,
+} from "@/agent/compliance";
+import { readCollection, updateCollection } from "@/server/fileStore";
+
+const OPT_OUTS = "opt_outs";
+const AUDIT_LOG = "compliance_audit";
+
+export const listOptOuts = async () =>
+  (await readCollection<OptOutEntry>(OPT_OUTS)).sort((a, b) =>
+    b.registeredAt.localeCompare(a.registeredAt)
+  );
+
+export const listAuditLog = async ({ orderId }: { orderId?: string } = {}) =>
+  (await readCollection<ComplianceAuditEntry>(AUDIT_LOG))
+    .filter((entry) => !orderId || entry.orderId === orderId)
+    .sort((a, b) => b.at.localeCompare(a.at));
+
+const audit = (entry: Omit<ComplianceAuditEntry, "id" | "at">) =>
+  updateCollection<ComplianceAuditEntry, ComplianceAuditEntry>(
+    AUDIT_LOG,
+    () => [],
+    (items) => {
+      const record: ComplianceAuditEntry = {
+        ...entry,
+        phoneNumber: normalizePhoneNumber(entry.phoneNumber),
+        id: `audit_${randomUUID()}`,
+        at: new Date().toISOString(),
+      };
+      return { items: [...items, record], result: record };
+    }
+  );
+
+/**
+ * Looks the number up in the opt-out registry before a call is placed. Every
+ * lookup is audited, whether the dial goes ahead or not.
+ */
+export const checkDialPermission = async ({
+  phoneNumber,
+  orderId,
+}: {
+  phoneNumber: string;
+  orderId?: string;
+}) => {
+  const number = normalizePhoneNumber(phoneNumber);
+  const optOut =
+    (await readCollection<OptOutEntry>(OPT_OUTS)).find(
+      (entry) => entry.phoneNumber === number
+    ) ?? null;
+  const entry = await audit({
+    check: "dnd_lookup",
+    result: optOut ? "blocked" : "allowed",
+    phoneNumber,
+    orderId,
+    detail: optOut
+      ? `On the do-not-call list since ${optOut.registeredAt}`
+      : undefined,
+  });
+  return { allowed: !optOut, optOut, entry };
+};
+
+/** Adds a number to the registry; registering it again keeps the first entry. */
+export const registerOptOut = async ({
+  phoneNumber,
+  source,
+  orderId,
+  callId,
+  note,
+}: {
+  phoneNumber: string;
+  source: OptOutSource;
+  orderId?: string;
+  callId?: string;
+  note?: string;
+}) => {
+  const number = normalizePhoneNumber(phoneNumber);
+  const optOut = await updateCollection<OptOutEntry, OptOutEntry>(
+    OPT_OUTS,
+    () => [],
+    (items) => {
+      const existing = items.find((entry) => entry.phoneNumber === number);
+      if (existing) return { items, result: existing };
+
+      const entry: OptOutEntry = {
+        phoneNumber: number,
+        source,
+        registeredAt: new Date().toISOString(),
+        orderId,
+        note,
+      };
+      return { items: [...items, entry], result: entry };
+    }
+  );
+  await audit({
+    check: "opt_out",
+    result: "registered",
+    phoneNumber,
+    orderId,
+    callId,
+    detail: note,
+  });
+  return optOut;
+};
+
+export const recordDisclosure = ({
+  phoneNumber,
+  orderId,
+  callId,
+  text,
+}: {
+  phoneNumber: string;
+  orderId?: string;
+  callId?: string;
+  text: string;
+}) =>
+  audit({
+    check: "recording_disclosure",
+    result: "announced",
+    phoneNumber,
+    orderId,
+    callId,
+    detail: text,
+  });
@@ -0,0 +1,53 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const DATA_DIR = path.join(process.cwd(), ".data");
+
+const queues = new Map<string, Promise<unknown>>();
+
+const collectionPath = (name: string) => path.join(DATA_DIR, `${name}.json`);
+
+const load = async <T>(name: string, seed: () => T[]): Promise<T[]> => {
+  try {
+    return JSON.parse(await readFile(collectionPath(name), "utf8")) as T[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return seed();
+    throw error;
+  }
+};
+
+const save = async <T>(name: string, items: T[]) => {
+  await mkdir(DATA_DIR, { recursive: true });
+  const target = collectionPath(name);
+  const scratch = `${target}.${process.pid}.tmp`;
+  await writeFile(scratch, JSON.stringify(items, null, 2), "utf8");
+  await rename(scratch, target);
+};
+
+/**
+ * Runs one read-modify-write at a time per collection so concurrent requests
+ * in the same server process never overwrite each other's changes.
+ */
+const serialize = <R>(name: string, task: () => Promise<R>): Promise<R> => {
+  const previous = queues.get(name) ?? Promise.resolve();
+  const next = previous.then(task, task);
+  queues.set(
+    name,
+    next.catch(() => undefined)
+  );
+  return next;
+};
+
+export const readCollection = <T>(name: string, seed: () => T[] = () => []) =>
+  serialize(name, () => load(name, seed));
+
+export const updateCollection = <T, R>(
+  name: string,
+  seed: () => T[],
+  mutate: (items: T[]) => { items: T[]; result: R }
+) =>
+  serialize(name, async () => {
+    const { items, result } = mutate(await load(name, seed));
+    await save(name, items);
+    return result;
+  });
@@ -0,0 +1,67 @@
+import { orders as seedOrders } from "@/data/orders";
+import type { CallOutcome, OrderRecord, OutcomeChanges } from "@/agent/types";
+import { readCollection, updateCollection } from "@/server/fileStore";
+import { releaseSlot } from "@/server/slotStore";
+
+const COLLECTION = "orders";
+
+const seed = (): OrderRecord[] => seedOrders.map((order) => ({ ...order }));
+
+export type OrderPatch = Partial<
+  Pick<
+    OrderRecord,
+    "status" | "deliverySlot" | "notes" | "language" | "autoConfirmedAt"
+  >
+>;
+
+export const listOrders = () => readCollection<OrderRecord>(COLLECTION, seed);
+
+export const getOrder = async (id: string) =>
+  (await listOrders()).find((order) => order.id === id) ?? null;
+
+/** A cancelled order gives back any delivery slot it had reserved. */
+const replaceOrder = async (
+  id: string,
+  update: (order: OrderRecord) => OrderRecord
+) => {
+  const updated = await updateCollection<OrderRecord, OrderRecord | null>(
+    COLLECTION,
+    seed,
+    (items) => {
+      const index = items.findIndex((order) => order.id === id);
+      if (index === -1) return { items, result: null };
+
+      const updated = {
+        ...update(items[index]),
+        id,
+        updatedAt: new Date().toISOString(),
+      };
+      const next = [...items];
+      next[index] = updated;
+      return { items: next, result: updated };
+    }
+  );
+  if (updated?.status === "cancelled") await releaseSlot(id);
+  return updated;
+};
+
+export const updateOrder = (id: string, patch: OrderPatch) =>
+  replaceOrder(id, (order) => ({ ...order, ...patch }));
+
+/**
+ * Merges what the call changed into the stored order, so fields the call did
+ * not touch keep whatever the server has now.
+ */
+export const recordOutcome = (
+  id: string,
+  outcome: CallOutcome,
+  changes: OutcomeChanges
+) =>
+  replaceOrder(id, (order) => {
+    const updated: Record<string, unknown> = { ...order, lastOutcome: outcome };
+    Object.entries(changes).forEach(([field, value]) => {
+      if (value === null) delete updated[field];
+      else if (value !== undefined) updated[field] = value;
+    });
+    return updated as OrderRecord;
+  });
@@ -0,0 +1,52 @@
+import { randomUUID } from "node:crypto";
+import { refundPlan, RefundRecord } from "@/agent/cancellation";
+import type { OrderRecord } from "@/agent/types";
+import { readCollection, updateCollection } from "@/server/fileStore";
+
+const COLLECTION = "refunds";
+const DAY_MS = 24 * 60 * 60_000;
+
+const addBusinessDays = (from: number, days: number) => {
+  const date = new Date(from);
+  let remaining = days;
+  while (remaining > 0) {
+    date.setTime(date.getTime() + DAY_MS);
+    if (date.getDay() !== 0 && date.getDay() !== 6) remaining -= 1;
+  }
+  return date.toISOString();
+};
+
+export const listRefunds = async ({ orderId }: { orderId?: string } = {}) =>
+  (await readCollection<RefundRecord>(COLLECTION)).filter(
+    (refund) => !orderId || refund.orderId === orderId
+  );
+
+/**
+ * Starts the refund for a cancelled order. Orders that were never charged
+ * return `null`, and asking twice returns the refund already on file.
+ */
+export const initiateRefund = (order: OrderRecord) =>
+  updateCollection<RefundRecord, RefundRecord | null>(
+    COLLECTION,
+    () => [],
+    (items) => {
+      const existing = items.find((refund) => refund.orderId === order.id);
+      if (existing) return { items, result: existing };
+
+      const plan = refundPlan(order);
+      if (!plan) return { items, result: null };
+
+      const now = Date.now();
+      const refund: RefundRecord = {
+        id: `refund_${randomUUID()}`,
+        orderId: order.id,
+        amount: plan.amount,
+        method: plan.method,
+        reason: order.cancellationReason,
+        status: "initiated",
+        expectedBy: addBusinessDays(now, plan.settlementDays),
+        createdAt: new Date(now).toISOString(),
+      };
+      return { items: [...items, refund], result: refund };
+    }
+  );
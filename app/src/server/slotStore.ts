@@ -0,0 +1,145 @@
+import type { DeliverySlot } from "@/agent/slots";
+import {
+  DEFAULT_CAPACITY,
+  PINCODE_CAPACITY,
+  SLOT_HORIZON_DAYS,
+  SLOT_LEAD_TIME_MINUTES,
+  SLOT_WINDOWS,
+} from "@/fixtures/deliverySlots";
+import { readCollection, updateCollection } from "@/server/fileStore";
+
+const COLLECTION = "slot_reservations";
+const TIME_ZONE = "Asia/Kolkata";
+const DAY_MS = 24 * 60 * 60_000;
+
+export type SlotReservation = {
+  slotId: string;
+  orderId: string;
+  reservedAt: string;
+};
+
+export type ReservationResult =
+  | { slot: DeliverySlot }
+  | { error: "unknown_slot" | "slot_full" };
+
+const indianDate = (instant: number) =>
+  new Intl.DateTimeFormat("en-CA", { timeZone: TIME_ZONE }).format(instant);
+
+const hourLabel = (hour: number) =>
+  `${hour % 12 === 0 ? 12 : hour % 12}${hour < 12 ? "AM" : "PM"}`;
+
+/** Always dated: the label is saved on the order and sent by SMS. */
+const dayLabel = (date: string) =>
+  new Intl.DateTimeFormat("en-IN", {
+    weekday: "long",
+    day: "numeric",
+    month: "short",
+    timeZone: TIME_ZONE,
+  })
+    .format(new Date(`${date}T12:00:00+05:30`))
+    .replace(",", "");
+
+const capacityFor = (pincode: string) =>
+  PINCODE_CAPACITY.find((zone) => zone.pincode === pincode) ?? DEFAULT_CAPACITY;
+
+/** Every slot the hub serving `pincode` runs over the booking horizon. */
+const scheduleFor = (pincode: string, now: number) => {
+  const zone = capacityFor(pincode);
+  const earliest = now + SLOT_LEAD_TIME_MINUTES * 60_000;
+
+  return Array.from({ length: SLOT_HORIZON_DAYS }, (_, offset) =>
+    indianDate(now + offset * DAY_MS)
+  ).flatMap((date) => {
+    const weekday = new Date(`${date}T12:00:00+05:30`).getUTCDay();
+    if (zone.closedOn?.includes(weekday)) return [];
+
+    return SLOT_WINDOWS.flatMap((window, index) => {
+      const startsAt = new Date(
+        `${date}T${String(window.startHour).padStart(2, "0")}:00:00+05:30`
+      );
+      const capacity = zone.capacity[index] ?? 0;
+      if (capacity === 0 || startsAt.getTime() < earliest) return [];
+
+      return [
+        {
+          id: `${pincode}-${date}-${window.startHour}`,
+          pincode,
+          date,
+          startsAt: startsAt.toISOString(),
+          label: `${dayLabel(date)}, ${hourLabel(
+            window.startHour
+          )} - ${hourLabel(window.endHour)}`,
+          capacity,
+          remaining: capacity,
+        },
+      ];
+    });
+  });
+};
+
+const withBookings = (
+  slots: DeliverySlot[],
+  reservations: SlotReservation[]
+): DeliverySlot[] =>
+  slots.map((slot) => ({
+    ...slot,
+    remaining:
+      slot.capacity -
+      reservations.filter((reservation) => reservation.slotId === slot.id)
+        .length,
+  }));
+
+export const listAvailableSlots = async (pincode: string, now = Date.now()) =>
+  withBookings(
+    scheduleFor(pincode, now),
+    await readCollection<SlotReservation>(COLLECTION)
+  ).filter((slot) => slot.remaining > 0);
+
+/**
+ * Books `slotId` for the order if it still has room, releasing whatever slot
+ * the order held before. The check and the write happen in one serialized
+ * update, so two calls can never both take the last place.
+ */
+export const reserveSlot = (
+  pincode: string,
+  slotId: string,
+  orderId: string,
+  now = Date.now()
+) =>
+  updateCollection<SlotReservation, ReservationResult>(
+    COLLECTION,
+    () => [],
+    (items) => {
+      const slot = scheduleFor(pincode, now).find(({ id }) => id === slotId);
+      if (!slot) return { items, result: { error: "unknown_slot" } };
+
+      const others = items.filter(
+        (reservation) => reservation.orderId !== orderId
+      );
+      const [booked] = withBookings([slot], others);
+      if (booked.remaining <= 0) {
+        return { items, result: { error: "slot_full" } };
+      }
+
+      return {
+        items: [
+          ...others,
+          { slotId, orderId, reservedAt: new Date(now).toISOString() },
+        ],
+        result: { slot: { ...booked, remaining: booked.remaining - 1 } },
+      };
+    }
+  );
+
+/** Frees whatever slot the order holds, e.g. when its call ends unbooked. */
+export const releaseSlot = (orderId: string) =>
+  updateCollection<SlotReservation, number>(
+    COLLECTION,
+    () => [],
+    (items) => {
+      const kept = items.filter(
+        (reservation) => reservation.orderId !== orderId
+      );
+      return { items: kept, result: items.length - kept.length };
+    }
+  );
@@ -0,0 +1,42 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import type { SmsGateway } from "@/server/sms/types";
+
+type ConsoleGatewayOptions = {
+  /** File every message is appended to, one JSON line each. */
+  outbox?: string;
+  /** Share of sends that fail, to exercise the retry path locally. */
+  failureRate?: number;
+};
+
+/**
+ * Development stand-in for a real SMS provider: messages are printed to the
+ * server console and written to an outbox file instead of being delivered.
+ */
+export const createConsoleGateway = ({
+  outbox = path.join(process.cwd(), ".data", "sms-outbox.jsonl"),
+  failureRate = 0,
+}: ConsoleGatewayOptions = {}): SmsGateway => ({
+  name: "console",
+  send: async ({ to, body }) => {
+    if (Math.random() < failureRate) {
+      throw new Error("Simulated gateway failure");
+    }
+
+    const providerMessageId = `console_${randomUUID()}`;
+    console.info(`[sms] to ${to}: ${body}`);
+    await mkdir(path.dirname(outbox), { recursive: true });
+    await appendFile(
+      outbox,
+      `${JSON.stringify({
+        providerMessageId,
+        to,
+        body,
+        sentAt: new Date().toISOString(),
+      })}\n`,
+      "utf8"
+    );
+    return { providerMessageId };
+  },
+});
@@ -0,0 +1,62 @@
+import { formatINR } from "@/agent/format";
+import { formatCallbackTime } from "@/agent/retry";
+import type { CallOutcome, OrderRecord } from "@/agent/types";
+
+const SIGN_OFF = "- Team Flipkart";
+
+/** What happens next once a call did not get through. */
+const nextStep = (order: OrderRecord) => {
+  if (order.retryAfter) return "We will call again shortly.";
+  return order.status === "cancelled"
+    ? "As we could not confirm it, the order has been cancelled."
+    : "Our support team will get in touch with you.";
+};
+
+export const SMS_TEMPLATES: Record<
+  CallOutcome,
+  (order: OrderRecord) => string
+> = {
+  confirmed: (order) =>
+    `Hi ${order.customerName}, your order ${order.id} for ${formatINR(
+      order.total
+    )} is confirmed. Delivery: ${order.deliverySlot}. ${SIGN_OFF}`,
+  rescheduled: (order) =>
+    `Hi ${order.customerName}, delivery of your order ${order.id} has been rescheduled to ${order.deliverySlot}. ${SIGN_OFF}`,
+  cancelled: (order) =>
+    `Hi ${order.customerName}, your order ${order.id} has been cancelled as requested. ${SIGN_OFF}`,
+  needs_support: (order) =>
+    `Hi ${order.customerName}, a senior support specialist will call you within the next hour about your order ${order.id}. ${SIGN_OFF}`,
+  callback_requested: (order) =>
+    `Hi ${
+      order.customerName
+    }, as requested we will call you back about your order ${order.id}${
+      order.retryAfter
+        ? ` on ${formatCallbackTime(order.retryAfter, "en-IN")}`
+        : ""
+    }. ${SIGN_OFF}`,
+  opted_out: (order) =>
+    `Hi ${order.customerName}, as requested we will not call ${order.phoneNumber} again. Your order ${order.id} has not been cancelled. ${SIGN_OFF}`,
+  no_answer: (order) =>
+    `Hi ${order.customerName}, we tried calling to confirm your order ${
+      order.id
+    } but could not reach you. ${nextStep(order)} ${SIGN_OFF}`,
+  busy: (order) =>
+    `Hi ${order.customerName}, we tried calling to confirm your order ${
+      order.id
+    } but your line was busy. ${nextStep(order)} ${SIGN_OFF}`,
+  voicemail: (order) =>
+    `Hi ${order.customerName}, we left you a message about your order ${
+      order.id
+    }. ${nextStep(order)} ${SIGN_OFF}`,
+  dropped: (order) =>
+    `Hi ${order.customerName}, our call about your order ${
+      order.id
+    } got disconnected. ${nextStep(order)} ${SIGN_OFF}`,
+  no_response: (order) =>
+    `Hi ${order.customerName}, we called about your order ${
+      order.id
+    } but could not hear you. ${nextStep(order)} ${SIGN_OFF}`,
+};
+
+export const renderOutcomeSms = (outcome: CallOutcome, order: OrderRecord) =>
+  SMS_TEMPLATES[outcome](order);
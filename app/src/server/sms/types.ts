@@ -0,0 +1,13 @@
+export type OutgoingSms = {
+  to: string;
+  body: string;
+};
+
+/**
+ * Sends a single text message. Implementations throw when the provider
+ * rejects the message so the caller can record the failure and retry.
+ */
+export type SmsGateway = {
+  name: string;
+  send: (message: OutgoingSms) => Promise<{ providerMessageId: string }>;
+};
@@ -0,0 +1,131 @@
+import { randomUUID } from "node:crypto";
+import type {
+  CallOutcome,
+  OrderRecord,
+  SmsDeliveryAttempt,
+  SmsMessage,
+} from "@/agent/types";
+import { readCollection, updateCollection } from "@/server/fileStore";
+import { createConsoleGateway } from "@/server/sms/consoleGateway";
+import { renderOutcomeSms } from "@/server/sms/templates";
+import type { SmsGateway } from "@/server/sms/types";
+
+const COLLECTION = "sms";
+
+/** Wait before each delivery attempt; the message fails once these run out. */
+export const SMS_RETRY_DELAYS_MS = [0, 1_000, 3_000];
+
+const defaultGateway = createConsoleGateway({
+  failureRate: Number(process.env.SMS_FAILURE_RATE ?? 0),
+});
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const listSms = async ({ orderId }: { orderId?: string } = {}) =>
+  (await readCollection<SmsMessage>(COLLECTION))
+    .filter((message) => !orderId || message.orderId === orderId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export const getSms = async (id: string) =>
+  (await readCollection<SmsMessage>(COLLECTION)).find(
+    (message) => message.id === id
+  ) ?? null;
+
+const queueSms = (order: OrderRecord, outcome: CallOutcome, gateway: string) =>
+  updateCollection<SmsMessage, SmsMessage>(
+    COLLECTION,
+    () => [],
+    (items) => {
+      const now = new Date().toISOString();
+      const message: SmsMessage = {
+        id: `sms_${randomUUID()}`,
+        orderId: order.id,
+        outcome,
+        to: order.phoneNumber,
+        body: renderOutcomeSms(outcome, order),
+        gateway,
+        status: "queued",
+        attempts: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      return { items: [...items, message], result: message };
+    }
+  );
+
+const recordAttempt = (
+  id: string,
+  attempt: SmsDeliveryAttempt,
+  providerMessageId?: string
+) =>
+  updateCollection<SmsMessage, SmsMessage | null>(
+    COLLECTION,
+    () => [],
+    (items) => {
+      const index = items.findIndex((message) => message.id === id);
+      if (index === -1) return { items, result: null };
+
+      const updated: SmsMessage = {
+        ...items[index],
+        status: attempt.ok ? "sent" : "failed",
+        providerMessageId: providerMessageId ?? items[index].providerMessageId,
+        attempts: [...items[index].attempts, attempt],
+        updatedAt: attempt.at,
+      };
+      const next = [...items];
+      next[index] = updated;
+      return { items: next, result: updated };
+    }
+  );
+
+/**
+ * Hands the message to the gateway until it is accepted or the retries run
+ * out. Every attempt is kept on the message as its delivery log.
+ */
+const deliver = async (
+  message: SmsMessage,
+  gateway: SmsGateway
+): Promise<SmsMessage> => {
+  let current = message;
+
+  for (const delay of SMS_RETRY_DELAYS_MS) {
+    if (delay) await wait(delay);
+    try {
+      const { providerMessageId } = await gateway.send({
+        to: current.to,
+        body: current.body,
+      });
+      return (
+        (await recordAttempt(
+          current.id,
+          { at: new Date().toISOString(), ok: true },
+          providerMessageId
+        )) ?? current
+      );
+    } catch (error) {
+      current =
+        (await recordAttempt(current.id, {
+          at: new Date().toISOString(),
+          ok: false,
+          error: (error as Error).message,
+        })) ?? current;
+    }
+  }
+
+  return current;
+};
+
+export const sendOutcomeSms = async (
+  order: OrderRecord,
+  outcome: CallOutcome,
+  gateway: SmsGateway = defaultGateway
+) => deliver(await queueSms(order, outcome, gateway.name), gateway);
+
+export const retrySms = async (
+  id: string,
+  gateway: SmsGateway = defaultGateway
+) => {
+  const message = await getSms(id);
+  if (!message || message.status === "sent") return message;
+  return deliver(message, gateway);
+};
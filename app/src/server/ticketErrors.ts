@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import type { TicketResult } from "@/server/ticketStore";
+
+const TICKET_ERRORS = {
+  not_found: { message: "Ticket not found", status: 404 },
+  already_resolved: { message: "Ticket is already resolved", status: 409 },
+  claimed_by_other: {
+    message: "Ticket is claimed by another supervisor",
+    status: 409,
+  },
+};
+
+export const ticketResponse = (result: TicketResult) => {
+  if ("error" in result) {
+    const { message, status } = TICKET_ERRORS[result.error];
+    return NextResponse.json({ error: message }, { status });
+  }
+  return NextResponse.json({ ticket: result.ticket });
+};
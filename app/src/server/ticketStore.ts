@@ -0,0 +1,125 @@
+import { randomUUID } from "node:crypto";
+import { ESCALATION_SLA_MS, ticketPriority } from "@/agent/escalation";
+import type {
+  ConversationEntry,
+  EscalationReason,
+  EscalationTicket,
+  OrderRecord,
+  TicketStatus,
+} from "@/agent/types";
+import { readCollection, updateCollection } from "@/server/fileStore";
+import { updateOrder } from "@/server/orderStore";
+
+const COLLECTION = "tickets";
+
+export type TicketInput = {
+  order: OrderRecord;
+  reason: EscalationReason;
+  callId?: string;
+  transcript: ConversationEntry[];
+};
+
+export type TicketResult =
+  | { ticket: EscalationTicket }
+  | { error: "not_found" | "already_resolved" | "claimed_by_other" };
+
+export const listTickets = async ({ status }: { status?: TicketStatus } = {}) =>
+  (await readCollection<EscalationTicket>(COLLECTION))
+    .filter((ticket) => !status || ticket.status === status)
+    .sort((a, b) => a.slaDueAt.localeCompare(b.slaDueAt));
+
+export const openTicket = ({
+  order,
+  reason,
+  callId,
+  transcript,
+}: TicketInput) =>
+  updateCollection<EscalationTicket, EscalationTicket>(
+    COLLECTION,
+    () => [],
+    (items) => {
+      const now = Date.now();
+      const ticket: EscalationTicket = {
+        id: `ticket_${randomUUID()}`,
+        orderId: order.id,
+        customerName: order.customerName,
+        phoneNumber: order.phoneNumber,
+        orderTotal: order.total,
+        reason,
+        priority: ticketPriority(order, reason),
+        status: "open",
+        callId,
+        transcript,
+        createdAt: new Date(now).toISOString(),
+        slaDueAt: new Date(now + ESCALATION_SLA_MS).toISOString(),
+      };
+      return { items: [...items, ticket], result: ticket };
+    }
+  );
+
+const changeTicket = (
+  id: string,
+  change: (ticket: EscalationTicket) => TicketResult
+) =>
+  updateCollection<EscalationTicket, TicketResult>(
+    COLLECTION,
+    () => [],
+    (items) => {
+      const index = items.findIndex((ticket) => ticket.id === id);
+      if (index === -1) return { items, result: { error: "not_found" } };
+
+      const result = change(items[index]);
+      if ("error" in result) return { items, result };
+
+      const next = [...items];
+      next[index] = result.ticket;
+      return { items: next, result };
+    }
+  );
+
+export const claimTicket = (id: string, supervisor: string) =>
+  changeTicket(id, (ticket) => {
+    if (ticket.status === "resolved") return { error: "already_resolved" };
+    if (ticket.claimedBy && ticket.claimedBy !== supervisor) {
+      return { error: "claimed_by_other" };
+    }
+    return {
+      ticket: {
+        ...ticket,
+        status: "claimed",
+        claimedBy: supervisor,
+        claimedAt: ticket.claimedAt ?? new Date().toISOString(),
+      },
+    };
+  });
+
+/** Closes the ticket and moves the order to the status the supervisor chose. */
+export const resolveTicket = async (
+  id: string,
+  supervisor: string,
+  resolution: NonNullable<EscalationTicket["resolution"]>
+) => {
+  const result = await changeTicket(id, (ticket) => {
+    if (ticket.status === "resolved") return { error: "already_resolved" };
+    if (ticket.claimedBy && ticket.claimedBy !== supervisor) {
+      return { error: "claimed_by_other" };
+    }
+    return {
+      ticket: {
+        ...ticket,
+        status: "resolved",
+        claimedBy: supervisor,
+        claimedAt: ticket.claimedAt ?? new Date().toISOString(),
+        resolvedAt: new Date().toISOString(),
+        resolution,
+      },
+    };
+  });
+
+  if ("ticket" in result) {
+    await updateOrder(result.ticket.orderId, {
+      status: resolution.orderStatus,
+    });
+  }
+  return result;
+};
@@ -0,0 +1,92 @@
+import { spawn } from "node:child_process";
+import type { SupportedLocale } from "@/agent/i18n/locales";
+import type { SpeechSegment } from "@/agent/tts/markup";
+import type { SpeechRenderer } from "@/server/tts/types";
+
+type EspeakRendererOptions = {
+  /** The `espeak-ng` binary, if it is not on the `PATH`. */
+  binary?: string;
+  /** Words per minute at rate 1. */
+  wordsPerMinute?: number;
+  timeoutMs?: number;
+};
+
+const VOICES: Record<SupportedLocale, string> = {
+  "en-IN": "en",
+  "hi-IN": "hi",
+  "ta-IN": "ta",
+  "te-IN": "te",
+  "bn-IN": "bn",
+};
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/** espeak-ng reads SSML itself, so segments go back to plain SSML. */
+export const segmentsToSsml = (segments: SpeechSegment[]) =>
+  `<speak>${segments
+    .map((segment) =>
+      segment.kind === "pause"
+        ? `<break time="${Math.round(segment.ms)}ms"/>`
+        : `<prosody rate="${Math.round(segment.rate * 100)}%">${escapeXml(
+            segment.text
+          )}</prosody>`
+    )
+    .join(" ")}</speak>`;
+
+/**
+ * Offline voice backed by the espeak-ng command line tool, which ships voices
+ * for every supported locale and needs no network access.
+ */
+export const createEspeakRenderer = ({
+  binary = "espeak-ng",
+  wordsPerMinute = 160,
+  timeoutMs = 10_000,
+}: EspeakRendererOptions = {}): SpeechRenderer => ({
+  name: "espeak-ng",
+  render: ({ segments, locale, rate = 1 }) =>
+    new Promise<Buffer>((resolve, reject) => {
+      const child = spawn(binary, [
+        "-m",
+        "--stdout",
+        "-v",
+        VOICES[locale],
+        "-s",
+        String(Math.round(wordsPerMinute * rate)),
+      ]);
+      const audio: Buffer[] = [];
+      const errors: Buffer[] = [];
+      let settled = false;
+      /** The child can fail on several streams at once; only the first counts. */
+      const settle = (error: Error | null) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        if (error) reject(error);
+        else resolve(Buffer.concat(audio));
+      };
+      const timer = setTimeout(() => {
+        child.kill();
+        settle(new Error(`espeak-ng took longer than ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      child.stdout.on("data", (chunk: Buffer) => audio.push(chunk));
+      child.stderr.on("data", (chunk: Buffer) => errors.push(chunk));
+      child.stdin.on("error", settle);
+      child.on("error", settle);
+      child.on("close", (code) => {
+        if (code === 0) {
+          settle(null);
+        } else {
+          const detail = Buffer.concat(errors).toString("utf8").trim();
+          settle(new Error(detail || `espeak-ng exited with code ${code}`));
+        }
+      });
+
+      child.stdin.end(segmentsToSsml(segments));
+    }),
+});
@@ -0,0 +1,10 @@
+import type { TtsRequest } from "@/agent/tts/types";
+
+/**
+ * Renders speech to a WAV file on the server. Implementations throw when the
+ * voice is missing or fails so the route can report it.
+ */
+export type SpeechRenderer = {
+  name: string;
+  render: (request: TtsRequest) => Promise<Buffer>;
+};